@@ -0,0 +1,42 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { TickStore, queryTicks } from '../src/node/tick-store';
+
+// Written by the tick collector (npm run ticks); this route only reads it
+const TICKS_DIR = process.env.TICKS_DIR || 'data/ticks';
+
+/**
+ * GET /api/ticks?asset=btc&at=<epoch s|ms>
+ *   Chainlink tick at that time (first at/after it), the one before it, and `opening` when the two are close
+ *   enough to use as a price to beat.
+ * GET /api/ticks?asset=btc&from=<epoch s|ms>&to=<epoch s|ms>
+ *   Ticks in the range (at most 5000).
+ * Read-only: ticks are collected by the long-lived `npm run ticks` process into TICKS_DIR (rolling 6h window), so
+ * events that started before the page loaded can be reconstructed. `coverage` tells the caller which span is held.
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // A fresh store per request re-reads the files, so ticks the collector appended since are included
+    const { status, body } = queryTicks(new TickStore(TICKS_DIR), req.query);
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    return res.status(status).json(body);
+  } catch (error) {
+    console.error('[Ticks API] Error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to read ticks',
+    });
+  }
+}
@@ -0,0 +1,86 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  buildTradeExport,
+  getExportFileName,
+  getLedgerEntriesFromActivity,
+  toCsv,
+  type DataApiActivity,
+} from '../src/trade-export';
+
+const DATA_API_URL = 'https://data-api.polymarket.com';
+const PAGE_SIZE = 500;
+const MAX_PAGES = 20; // 10,000 activity items
+
+/**
+ * GET /api/trade-export?proxyAddress=0x...&format=csv|json&view=records|events
+ * Full trade history of a proxy wallet from the Polymarket Data API (trades and redemptions), as ledger records
+ * and per-event summaries. CSV returns one view (records by default); JSON returns both.
+ * Taker fees are not reported by the Data API, so PnL here is before fees.
+ * Activity comes newest first: past MAX_PAGES the oldest is cut off. That is flagged by `truncated` (JSON) and the
+ * X-Export-Truncated header, and tokens whose buys were cut off get no PnL.
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { proxyAddress } = req.query;
+  if (!proxyAddress || typeof proxyAddress !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(proxyAddress.trim())) {
+    return res.status(400).json({
+      error: 'Missing or invalid proxyAddress (expected 0x-prefixed 40 hex chars)',
+    });
+  }
+  const format = req.query.format === 'json' ? 'json' : 'csv';
+  const view = req.query.view === 'events' ? 'events' : 'records';
+
+  try {
+    const user = proxyAddress.trim();
+    const activity: DataApiActivity[] = [];
+    let truncated = false;
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const url = `${DATA_API_URL}/activity?user=${encodeURIComponent(user)}&limit=${PAGE_SIZE}&offset=${page * PAGE_SIZE}`;
+      const response = await fetch(url);
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('[Trade Export API] Data API error:', response.status, text);
+        return res.status(response.status).json({
+          error: `Polymarket Data API error: ${response.status}`,
+        });
+      }
+      const items = (await response.json()) as DataApiActivity[];
+      if (!Array.isArray(items)) break;
+      activity.push(...items);
+      if (items.length < PAGE_SIZE) break;
+      truncated = page === MAX_PAGES - 1;
+    }
+
+    const data = buildTradeExport(getLedgerEntriesFromActivity(activity), [], 'polymarket', truncated);
+    if (truncated) {
+      console.warn(`[Trade Export API] History truncated at ${activity.length} items; PnL left out for ${data.incompleteTokens.length} token(s)`);
+    }
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Expose-Headers', 'X-Export-Truncated');
+    res.setHeader('X-Export-Truncated', truncated ? 'true' : 'false');
+    res.setHeader('Content-Disposition', `attachment; filename="${getExportFileName(format, view)}"`);
+    if (format === 'json') {
+      return res.status(200).json(data);
+    }
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    return res.status(200).send(toCsv(data, view));
+  } catch (error) {
+    console.error('[Trade Export API] Error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to export trades',
+    });
+  }
+}
@@ -2,6 +2,7 @@
 export const RELAYER_URL = "https://relayer-v2.polymarket.com/";
 export const CLOB_API_URL = "https://clob.polymarket.com";
 export const GAMMA_API_URL = "https://gamma-api.polymarket.com";
+export const DATA_API_URL = "https://data-api.polymarket.com";
 export const POLYGON_RPC_URL = process.env.POLYGON_RPC_URL || "https://polygon-rpc.com";
 export const POLYGON_CHAIN_ID = 137;
 
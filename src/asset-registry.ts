@@ -0,0 +1,89 @@
+/**
+ * Asset registry: the underlyings we stream prices for and trade Up/Down markets on.
+ * Defaults come from constants/assets.json; the bot config can register more (e.g. DOGE, BNB) at startup.
+ * The RTDS subscription, event slugs, slug parsing and the multi-asset managers all read from here.
+ */
+
+import DEFAULT_ASSETS from '../constants/assets.json';
+
+export interface AssetDefinition {
+  id: string; // Registry key, e.g. "btc"
+  name: string; // "Bitcoin"
+  displayName: string; // "BTC"
+  symbol: string; // Chainlink symbol on RTDS price updates, e.g. "btc/usd"
+  rtdsFilter?: string; // RTDS subscription filter (default {"symbol":"<symbol>"})
+  exchangeSymbol?: string; // Exchange symbol on the RTDS crypto_prices topic, e.g. "btcusdt" (unset = Chainlink only)
+  slugPrefix: string; // Timestamp slugs: {slugPrefix}-updown-15m-{ts}
+  slugName: string; // Dated slugs: {slugName}-up-or-down-october-18-3pm-et
+  tickSize: number; // Default price increment (decimal 0-1); entry limit prices are rounded to it
+}
+
+const ASSETS: Map<string, AssetDefinition> = new Map();
+
+export function registerAsset(definition: AssetDefinition): void {
+  ASSETS.set(definition.id, definition);
+}
+
+/** Validate asset definitions from a config file and register them. Throws with a readable message on bad input. */
+export function registerAssets(raw: unknown): void {
+  if (!Array.isArray(raw)) {
+    throw new Error('assets must be an array of asset definitions');
+  }
+  const definitions = raw.map((entry, index) => {
+    const value = (entry ?? {}) as Partial<AssetDefinition>;
+    for (const field of ['id', 'name', 'displayName', 'symbol', 'slugPrefix', 'slugName'] as const) {
+      if (typeof value[field] !== 'string' || value[field] === '') {
+        throw new Error(`assets[${index}].${field} must be a non-empty string`);
+      }
+    }
+    if (value.exchangeSymbol !== undefined && (typeof value.exchangeSymbol !== 'string' || value.exchangeSymbol === '')) {
+      throw new Error(`assets[${index}].exchangeSymbol must be a non-empty string`);
+    }
+    if (value.tickSize !== undefined && !(typeof value.tickSize === 'number' && value.tickSize > 0 && value.tickSize < 1)) {
+      throw new Error(`assets[${index}].tickSize must be a number between 0 and 1`);
+    }
+    return { ...value, tickSize: value.tickSize ?? 0.01 } as AssetDefinition;
+  });
+  definitions.forEach(registerAsset);
+}
+
+/** Asset by id; throws on an unknown id (config and CLI input). */
+export function getAsset(id: string): AssetDefinition {
+  const asset = ASSETS.get(id);
+  if (!asset) throw new Error(`Unknown asset "${id}" (available: ${getAssetIds().join(', ')})`);
+  return asset;
+}
+
+export function hasAsset(id: string): boolean {
+  return ASSETS.has(id);
+}
+
+export function getAssetIds(): string[] {
+  return [...ASSETS.keys()];
+}
+
+export function listAssets(): AssetDefinition[] {
+  return [...ASSETS.values()];
+}
+
+export function getRtdsFilter(asset: AssetDefinition): string {
+  return asset.rtdsFilter ?? JSON.stringify({ symbol: asset.symbol });
+}
+
+/** Asset whose RTDS symbol matches a price update. */
+export function findAssetBySymbol(symbol: string): AssetDefinition | undefined {
+  return listAssets().find((a) => a.symbol === symbol);
+}
+
+/** Asset whose exchange symbol matches a crypto_prices update (case-insensitive). */
+export function findAssetByExchangeSymbol(symbol: string): AssetDefinition | undefined {
+  const lower = symbol.toLowerCase();
+  return listAssets().find((a) => a.exchangeSymbol?.toLowerCase() === lower);
+}
+
+/** Asset an event slug belongs to, from either slug style. */
+export function findAssetBySlug(slug: string): AssetDefinition | undefined {
+  return listAssets().find((a) => slug.startsWith(`${a.slugPrefix}-updown-`) || slug.startsWith(`${a.slugName}-up-or-down-`));
+}
+
+registerAssets(DEFAULT_ASSETS);
@@ -0,0 +1,395 @@
+/**
+ * Backtester
+ * Replays recorded Chainlink ticks and UP/DOWN books through the real TradingManager logic (replay mode)
+ * with a simulated clock and the paper trading engine, then reports per-event PnL and fill statistics.
+ * Same inputs + same StrategyConfig always produce the same report.
+ */
+
+import type { StrategyConfig, Trade } from './trading-types';
+import type { EventDisplayData } from './event-manager';
+import type { EventRecord, MarketDataRecord } from './market-data';
+import { toBookSnapshot } from './market-data';
+import { TradingManager } from './trading-manager';
+import { PaperTradingEngine, StaticBookSource } from './paper-trading';
+import type { PaperOrder } from './paper-trading';
+import { SimulatedClock } from './clock';
+import { MemoryStore } from './storage';
+import { createStrategy } from './strategy';
+import { formatTimestamp, formatTimestampForTitle } from './event-utils';
+import { findMarketSeriesByDuration } from './market-series';
+
+export interface BacktestOptions {
+  strategy: Partial<StrategyConfig>;
+  strategyName?: string; // Entry strategy from the registry (default 'late-favourite')
+  initialBalance: number;
+  takerFeeBps?: number;
+  fillOnTouch?: boolean;
+  stepMs?: number; // Simulated interval between strategy evaluations (default 1000)
+  resolutionWaitMs?: number; // How long after the end to wait for a resolution record before settling on ticks (default 15 min)
+}
+
+export interface BacktestEventResult {
+  slug: string;
+  startTs: number;
+  priceToBeat: number | null;
+  finalPrice: number | null;
+  winner: 'UP' | 'DOWN' | null;
+  winnerSource: 'resolution' | 'ticks' | null; // Official resolution record, or last tick vs price to beat
+  pnl: number;
+  traded: boolean;
+  entryOrders: number;
+  entryFills: number;
+  profitTargetFills: number;
+  marketExits: number;
+  sharesSettled: number; // Shares still held at resolution (settled at 1 or 0)
+}
+
+export interface BacktestReport {
+  startBalance: number;
+  endBalance: number;
+  totalPnl: number;
+  events: BacktestEventResult[];
+  eventsTraded: number;
+  wins: number;
+  losses: number;
+  winRate: number | null; // wins / traded events
+  maxDrawdown: number; // Peak-to-trough of the per-event equity curve, USD
+  maxDrawdownPct: number;
+  fills: {
+    entryOrders: number;
+    entryFills: number;
+    entryFillRate: number | null;
+    profitTargetOrders: number;
+    profitTargetFills: number;
+    marketExits: number;
+    feesPaid: number;
+  };
+  trades: Trade[];
+}
+
+interface ReplayEvent {
+  record: EventRecord;
+  display: EventDisplayData;
+  priceToBeat: number | null;
+  lastTick: number | null;
+  resolution: 'UP' | 'DOWN' | null;
+  settled: boolean;
+}
+
+/** Aggregate stats over a sequence of event results (one backtest, or several concatenated). */
+export interface EventResultSummary {
+  events: number;
+  eventsTraded: number;
+  wins: number;
+  losses: number;
+  winRate: number | null; // wins / traded events
+  totalPnl: number;
+  expectancy: number | null; // Average PnL per traded event
+  maxDrawdown: number; // Peak-to-trough of the per-event equity curve, USD
+  maxDrawdownPct: number;
+}
+
+const DEFAULT_STEP_MS = 1000;
+const DEFAULT_RESOLUTION_WAIT_MS = 15 * 60 * 1000;
+
+export class Backtester {
+  private options: BacktestOptions;
+  private stepMs: number;
+  private resolutionWaitMs: number;
+  private clock = new SimulatedClock();
+  private books = new StaticBookSource();
+  private engine: PaperTradingEngine;
+  private tradingManager: TradingManager;
+  private events: Map<string, ReplayEvent> = new Map();
+  private results: BacktestEventResult[] = [];
+  private currentPrice: number | null = null;
+  private currentPriceTs: number | null = null; // Record ts of the last tick (feed-halt age)
+  private nextEvalMs: number | null = null;
+
+  constructor(options: BacktestOptions) {
+    this.options = options;
+    this.stepMs = options.stepMs ?? DEFAULT_STEP_MS;
+    this.resolutionWaitMs = options.resolutionWaitMs ?? DEFAULT_RESOLUTION_WAIT_MS;
+    this.engine = new PaperTradingEngine({
+      initialBalance: options.initialBalance,
+      books: this.books,
+      takerFeeBps: options.takerFeeBps,
+      fillOnTouch: options.fillOnTouch,
+      clock: this.clock,
+    });
+    this.tradingManager = new TradingManager({
+      storage: new MemoryStore(),
+      clock: this.clock,
+      mode: 'replay',
+      strategy: createStrategy(options.strategyName),
+    });
+    this.tradingManager.setStrategyConfig({ ...options.strategy, enabled: true });
+    this.tradingManager.setBrowserClobClient(this.engine);
+    this.tradingManager.setBookSource(this.books); // Same books the engine fills against, as the live socket would
+    this.tradingManager.setWalletBalance(options.initialBalance);
+    this.engine.setOnBalanceChange((balance) => this.tradingManager.setWalletBalance(balance));
+  }
+
+  /** Replay records (must be sorted by ts) and return the report. A Backtester instance runs once. */
+  async run(records: Iterable<MarketDataRecord> | AsyncIterable<MarketDataRecord>): Promise<BacktestReport> {
+    this.tradingManager.startTrading();
+    let lastTs: number | null = null;
+    for await (const record of records) {
+      if (lastTs !== null && record.ts < lastTs) {
+        throw new Error(`Market data out of order: ${record.ts} after ${lastTs}`);
+      }
+      await this.advanceTo(record.ts);
+      this.apply(record);
+      lastTs = record.ts;
+    }
+    if (lastTs !== null) {
+      await this.advanceTo(lastTs + 1);
+      this.settleEndedEvents(lastTs + 1, true);
+    }
+    this.tradingManager.stopTrading();
+    return this.buildReport();
+  }
+
+  /** Run strategy evaluations on the step grid up to (not including) ts, using data seen so far. */
+  private async advanceTo(ts: number): Promise<void> {
+    if (this.nextEvalMs === null) {
+      this.nextEvalMs = ts;
+      return;
+    }
+    while (this.nextEvalMs < ts) {
+      const now: number = this.nextEvalMs;
+      this.clock.set(now);
+      this.settleEndedEvents(now);
+
+      const active = this.getActiveEvent(now);
+      if (active) {
+        this.tradingManager.updateMarketData(this.currentPrice, active.priceToBeat, active.display, 'confirmed', this.currentPriceTs ?? undefined);
+        await this.tradingManager.evaluate();
+        this.nextEvalMs = now + this.stepMs;
+      } else {
+        // Nothing to trade: jump to the next known event start (or the next record)
+        const nextStart = this.getNextEventStartMs(now);
+        this.nextEvalMs = Math.max(now + this.stepMs, Math.min(ts, nextStart ?? ts));
+      }
+    }
+  }
+
+  private apply(record: MarketDataRecord): void {
+    switch (record.type) {
+      case 'tick': {
+        this.currentPrice = record.value;
+        this.currentPriceTs = record.ts;
+        const active = this.getActiveEvent(record.ts);
+        if (active) {
+          if (active.priceToBeat === null) active.priceToBeat = record.value;
+          active.lastTick = record.value;
+        }
+        break;
+      }
+      case 'book':
+      case 'quote':
+        this.books.setBook(record.tokenId, toBookSnapshot(record));
+        break;
+      case 'event': {
+        const existing = this.events.get(record.slug);
+        if (existing) {
+          if (record.priceToBeat != null) existing.priceToBeat = record.priceToBeat;
+        } else {
+          this.events.set(record.slug, {
+            record,
+            display: toEventDisplayData(record),
+            priceToBeat: record.priceToBeat ?? null,
+            lastTick: null,
+            resolution: null,
+            settled: false,
+          });
+        }
+        break;
+      }
+      case 'resolution': {
+        const event = this.events.get(record.slug);
+        if (event) event.resolution = record.winner;
+        break;
+      }
+    }
+  }
+
+  private getActiveEvent(nowMs: number): ReplayEvent | null {
+    for (const event of this.events.values()) {
+      if (!event.settled && event.record.startTs * 1000 <= nowMs && nowMs < event.record.endTs * 1000) return event;
+    }
+    return null;
+  }
+
+  private getNextEventStartMs(nowMs: number): number | null {
+    let next: number | null = null;
+    for (const event of this.events.values()) {
+      const startMs = event.record.startTs * 1000;
+      if (!event.settled && startMs > nowMs && (next === null || startMs < next)) next = startMs;
+    }
+    return next;
+  }
+
+  /**
+   * Resolve ended events once their resolution record arrives (or resolutionWaitMs passes, or the data ends):
+   * pay out shares, drop their positions, record the result. Until then shares stay held, as they do live before redemption.
+   */
+  private settleEndedEvents(nowMs: number, force: boolean = false): void {
+    for (const event of this.events.values()) {
+      const endMs = event.record.endTs * 1000;
+      if (event.settled || nowMs < event.record.startTs * 1000) continue;
+      // force (end of data) also settles events the data stops in the middle of
+      if (!force && (nowMs < endMs || (!event.resolution && nowMs < endMs + this.resolutionWaitMs))) continue;
+      event.settled = true;
+      const { record } = event;
+
+      let winner: 'UP' | 'DOWN' | null = event.resolution;
+      let winnerSource: BacktestEventResult['winnerSource'] = winner ? 'resolution' : null;
+      if (!winner && event.priceToBeat !== null && event.lastTick !== null) {
+        winner = event.lastTick >= event.priceToBeat ? 'UP' : 'DOWN';
+        winnerSource = 'ticks';
+      }
+
+      const sharesHeld = this.engine.getShares(record.upTokenId) + this.engine.getShares(record.downTokenId);
+      // Unknown outcome: held shares are written off (conservative)
+      const payout =
+        this.engine.settle(record.upTokenId, winner === 'UP' ? 1 : 0) + this.engine.settle(record.downTokenId, winner === 'DOWN' ? 1 : 0);
+
+      // Settle TradingManager's positions and ledger the same way, token by token
+      for (const [tokenId, won] of [[record.upTokenId, winner === 'UP'], [record.downTokenId, winner === 'DOWN']] as const) {
+        const positionIds = this.tradingManager.getPositions().filter((p) => p.tokenId === tokenId).map((p) => p.id);
+        this.tradingManager.removePositionsByIds(positionIds, { eventSlug: record.slug, tokenId, payout: won ? 1 : 0 });
+      }
+
+      const orders = this.engine.getOrders().filter((o) => o.tokenId === record.upTokenId || o.tokenId === record.downTokenId);
+      const stats = summarizeOrders(orders);
+      // Cash flows of this event's own orders, so overlapping events do not leak into each other's PnL
+      const tradingCash = orders.reduce((sum, o) => sum + (o.side === 'SELL' ? 1 : -1) * o.sizeMatched * o.price - o.fee, 0);
+      this.results.push({
+        slug: record.slug,
+        startTs: record.startTs,
+        priceToBeat: event.priceToBeat,
+        finalPrice: event.lastTick,
+        winner,
+        winnerSource,
+        pnl: tradingCash + payout,
+        traded: stats.entryFills > 0,
+        entryOrders: stats.entryOrders,
+        entryFills: stats.entryFills,
+        profitTargetFills: stats.profitTargetFills,
+        marketExits: stats.marketExits,
+        sharesSettled: sharesHeld,
+      });
+    }
+  }
+
+  private buildReport(): BacktestReport {
+    const events = [...this.results].sort((a, b) => a.startTs - b.startTs);
+    const summary = summarizeEventResults(events, this.options.initialBalance);
+    const orderStats = summarizeOrders(this.engine.getOrders());
+
+    const endBalance = this.engine.getBalance();
+    return {
+      startBalance: this.options.initialBalance,
+      endBalance,
+      totalPnl: endBalance - this.options.initialBalance,
+      events,
+      eventsTraded: summary.eventsTraded,
+      wins: summary.wins,
+      losses: summary.losses,
+      winRate: summary.winRate,
+      maxDrawdown: summary.maxDrawdown,
+      maxDrawdownPct: summary.maxDrawdownPct,
+      fills: {
+        ...orderStats,
+        entryFillRate: orderStats.entryOrders > 0 ? orderStats.entryFills / orderStats.entryOrders : null,
+        feesPaid: this.engine.getFeesPaid(),
+      },
+      trades: this.tradingManager.getTrades(),
+    };
+  }
+}
+
+export function summarizeEventResults(events: BacktestEventResult[], initialBalance: number): EventResultSummary {
+  const traded = events.filter((e) => e.traded);
+  const wins = traded.filter((e) => e.pnl > 0).length;
+  const totalPnl = events.reduce((sum, e) => sum + e.pnl, 0);
+
+  let equity = initialBalance;
+  let peak = equity;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+  for (const event of events) {
+    equity += event.pnl;
+    peak = Math.max(peak, equity);
+    if (peak - equity > maxDrawdown) {
+      maxDrawdown = peak - equity;
+      maxDrawdownPct = peak > 0 ? (maxDrawdown / peak) * 100 : 0;
+    }
+  }
+
+  return {
+    events: events.length,
+    eventsTraded: traded.length,
+    wins,
+    losses: traded.length - wins,
+    winRate: traded.length > 0 ? wins / traded.length : null,
+    totalPnl,
+    expectancy: traded.length > 0 ? totalPnl / traded.length : null,
+    maxDrawdown,
+    maxDrawdownPct,
+  };
+}
+
+function summarizeOrders(orders: PaperOrder[]) {
+  const isMarket = (o: PaperOrder) => o.orderType === 'FAK' || o.orderType === 'FOK';
+  const entries = orders.filter((o) => o.side === 'BUY' && !isMarket(o));
+  const profitTargets = orders.filter((o) => o.side === 'SELL' && !isMarket(o));
+  return {
+    entryOrders: entries.length,
+    entryFills: entries.filter((o) => o.sizeMatched > 0).length,
+    profitTargetOrders: profitTargets.length,
+    profitTargetFills: profitTargets.filter((o) => o.status === 'MATCHED').length,
+    marketExits: orders.filter((o) => o.side === 'SELL' && isMarket(o)).length,
+  };
+}
+
+function toEventDisplayData(record: EventRecord): EventDisplayData {
+  const durationSeconds = record.endTs - record.startTs;
+  const seriesLabel = findMarketSeriesByDuration(durationSeconds)?.label ?? `${Math.round(durationSeconds / 60)}m`;
+  return {
+    slug: record.slug,
+    title: `Up/Down ${seriesLabel} - ${formatTimestampForTitle(record.startTs)}`,
+    startDate: new Date(record.startTs * 1000).toISOString(),
+    endDate: new Date(record.endTs * 1000).toISOString(),
+    status: 'active',
+    conditionId: record.conditionId,
+    clobTokenIds: [record.upTokenId, record.downTokenId],
+    formattedStartDate: formatTimestamp(record.startTs),
+    formattedEndDate: formatTimestamp(record.endTs),
+    timestamp: record.startTs,
+  };
+}
+
+/** Plain-text summary for the CLI. */
+export function formatBacktestReport(report: BacktestReport): string {
+  const pct = (v: number | null) => (v === null ? '--' : `${(v * 100).toFixed(1)}%`);
+  const lines = [
+    `Events: ${report.events.length} (traded ${report.eventsTraded})`,
+    `PnL: ${report.totalPnl.toFixed(2)} USDC (${report.startBalance.toFixed(2)} -> ${report.endBalance.toFixed(2)})`,
+    `Win rate: ${pct(report.winRate)} (${report.wins}W / ${report.losses}L)`,
+    `Max drawdown: ${report.maxDrawdown.toFixed(2)} USDC (${report.maxDrawdownPct.toFixed(1)}%)`,
+    `Entry orders: ${report.fills.entryOrders}, filled ${report.fills.entryFills} (${pct(report.fills.entryFillRate)})`,
+    `Profit target sells: ${report.fills.profitTargetOrders}, filled ${report.fills.profitTargetFills}`,
+    `Market exits (stop loss / flip guard): ${report.fills.marketExits}`,
+    `Taker fees: ${report.fills.feesPaid.toFixed(2)} USDC`,
+    '',
+    'slug                              winner  pnl       entries  fills  pt  mkt',
+  ];
+  for (const e of report.events.filter((ev) => ev.traded)) {
+    lines.push(
+      `${e.slug.padEnd(34)}${(e.winner ?? '?').padEnd(8)}${e.pnl.toFixed(2).padStart(8)}  ${String(e.entryOrders).padStart(7)}  ${String(e.entryFills).padStart(5)}  ${String(e.profitTargetFills).padStart(2)}  ${String(e.marketExits).padStart(3)}`
+    );
+  }
+  return lines.join('\n');
+}
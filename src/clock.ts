@@ -0,0 +1,35 @@
+/**
+ * Time source for trading logic.
+ * Live trading uses the wall clock; backtests drive a SimulatedClock so every run over the same data is identical.
+ */
+export interface Clock {
+  now(): number; // epoch ms
+  sleep(ms: number): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms: number) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+/** Manually advanced clock. sleep() resolves immediately: in a replay, time only moves with the data. */
+export class SimulatedClock implements Clock {
+  private currentMs: number;
+
+  constructor(startMs: number = 0) {
+    this.currentMs = startMs;
+  }
+
+  now(): number {
+    return this.currentMs;
+  }
+
+  /** Move time forward (never backwards). */
+  set(ms: number): void {
+    if (ms > this.currentMs) this.currentMs = ms;
+  }
+
+  async sleep(_ms: number): Promise<void> {
+    // No-op: retries inside a replay run against the same market snapshot
+  }
+}
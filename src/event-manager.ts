@@ -1,7 +1,9 @@
 import { PolymarketAPI, type PolymarketEvent } from './polymarket-api';
-import { getNext15MinIntervals, getPrevious15MinInterval, generateEventSlug, formatTimestamp, formatTimestampForTitle, extractTimestampFromSlug } from './event-utils';
+import { formatTimestamp, formatTimestampForTitle, extractTimestampFromSlug } from './event-utils';
+import type { MarketSeries } from './market-series';
+import { MARKET_SERIES, DEFAULT_MARKET_SERIES_ID, getSeriesIntervals, getPreviousSeriesInterval, getIntervalEnd, generateSeriesSlug } from './market-series';
 import type { AssetType } from './types';
-import { ASSET_CONFIG } from './types';
+import { getAsset } from './asset-registry';
 
 export interface EventDisplayData {
   slug: string;
@@ -22,12 +24,22 @@ export interface EventDisplayData {
 export class EventManager {
   private events: EventDisplayData[] = [];
   private currentEventIndex: number = -1;
-  private refreshInterval: number | null = null;
+  private refreshInterval: ReturnType<typeof setInterval> | null = null;
   private onEventsUpdated: (() => void) | null = null;
   private asset: AssetType;
+  private series: MarketSeries;
 
-  constructor(asset: AssetType = 'btc') {
+  constructor(asset: AssetType = 'btc', series: MarketSeries = MARKET_SERIES[DEFAULT_MARKET_SERIES_ID]) {
     this.asset = asset;
+    this.series = series;
+  }
+
+  getAsset(): AssetType {
+    return this.asset;
+  }
+
+  getSeries(): MarketSeries {
+    return this.series;
   }
 
   setOnEventsUpdated(callback: () => void): void {
@@ -35,9 +47,9 @@ export class EventManager {
   }
 
   private createEventFromTimestamp(timestamp: number, event?: PolymarketEvent | null): EventDisplayData {
-    const slug = event?.slug || generateEventSlug(timestamp, this.asset);
+    const slug = event?.slug || generateSeriesSlug(this.series, timestamp, this.asset);
     const startTimestamp = extractTimestampFromSlug(slug) || timestamp;
-    const endTimestamp = startTimestamp + 900; // 15 minutes = 900 seconds
+    const endTimestamp = getIntervalEnd(this.series, startTimestamp);
     
     // Calculate dates from timestamp (in GMT+6 / Dhaka time)
     const startDate = new Date(startTimestamp * 1000).toISOString();
@@ -61,8 +73,8 @@ export class EventManager {
     
     // Format title with Dhaka time (GMT+6)
     const titleTime = formatTimestampForTitle(startTimestamp);
-    const assetConfig = ASSET_CONFIG[this.asset];
-    const title = event?.title || `${assetConfig.displayName} Up/Down 15m - ${titleTime}`;
+    const assetConfig = getAsset(this.asset);
+    const title = event?.title || `${assetConfig.displayName} Up/Down ${this.series.label} - ${titleTime}`;
     
     // Extract IDs - handle both direct and nested structures
     // Note: API uses questionID (capital ID) not questionId
@@ -179,12 +191,12 @@ export class EventManager {
   async loadEvents(count: number = 10): Promise<void> {
     try {
       // Get one expired event (most recent expired)
-      const expiredTimestamp = getPrevious15MinInterval();
-      const expiredSlug = generateEventSlug(expiredTimestamp, this.asset);
+      const expiredTimestamp = getPreviousSeriesInterval(this.series);
+      const expiredSlug = generateSeriesSlug(this.series, expiredTimestamp, this.asset);
       
       // Get current and upcoming events (count - 1 to make room for expired)
-      const futureTimestamps = getNext15MinIntervals(count - 1);
-      const futureSlugs = futureTimestamps.map(ts => generateEventSlug(ts, this.asset));
+      const futureTimestamps = getSeriesIntervals(this.series, count - 1);
+      const futureSlugs = futureTimestamps.map(ts => generateSeriesSlug(this.series, ts, this.asset));
       
       // Fetch all events
       const allSlugs = [expiredSlug, ...futureSlugs];
@@ -230,8 +242,8 @@ export class EventManager {
     } catch (error) {
       console.error('Error loading events:', error);
       // Even on error, create placeholder events
-      const expiredTimestamp = getPrevious15MinInterval();
-      const futureTimestamps = getNext15MinIntervals(count - 1);
+      const expiredTimestamp = getPreviousSeriesInterval(this.series);
+      const futureTimestamps = getSeriesIntervals(this.series, count - 1);
       
       const expiredEvent = this.createEventFromTimestamp(expiredTimestamp, null);
       const futureEvents = futureTimestamps
@@ -261,7 +273,7 @@ export class EventManager {
 
   startAutoRefresh(intervalMs: number = 60000): void {
     this.stopAutoRefresh();
-    this.refreshInterval = window.setInterval(() => {
+    this.refreshInterval = setInterval(() => {
       this.loadEvents().catch(console.error);
     }, intervalMs);
   }
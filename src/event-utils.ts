@@ -1,4 +1,5 @@
 import type { AssetType } from './types';
+import { findAssetBySlug, getAsset } from './asset-registry';
 
 /**
  * Calculate 15-minute interval timestamps for up/down events
@@ -61,15 +62,16 @@ export function getPrevious15MinInterval(): number {
  * Format: {asset}-updown-15m-{timestamp}
  */
 export function generateEventSlug(timestamp: number, asset: AssetType = 'btc'): string {
-  return `${asset}-updown-15m-${timestamp}`;
+  return `${getAsset(asset).slugPrefix}-updown-15m-${timestamp}`;
 }
 
 /**
  * Extract timestamp from event slug
- * Supports: btc-updown-15m-{timestamp}, eth-updown-15m-{timestamp}, etc.
+ * Supports: btc-updown-15m-{timestamp}, eth-updown-5m-{timestamp}, sol-updown-4h-{timestamp}, etc.
+ * Date-style slugs (hourly, daily) carry no timestamp and return null.
  */
 export function extractTimestampFromSlug(slug: string): number | null {
-  const match = slug.match(/(?:btc|eth|sol|xrp)-updown-15m-(\d+)/);
+  const match = slug.match(/-updown-\d+[mhd]-(\d+)/);
   if (match && match[1]) {
     return parseInt(match[1], 10);
   }
@@ -77,14 +79,10 @@ export function extractTimestampFromSlug(slug: string): number | null {
 }
 
 /**
- * Extract asset type from event slug
+ * Extract asset id from event slug (either slug style, any registered asset)
  */
 export function extractAssetFromSlug(slug: string): AssetType | null {
-  const match = slug.match(/(btc|eth|sol|xrp)-updown-15m-/);
-  if (match && match[1]) {
-    return match[1] as AssetType;
-  }
-  return null;
+  return findAssetBySlug(slug)?.id ?? null;
 }
 
 export function formatTimestamp(timestamp: number): string {
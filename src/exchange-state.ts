@@ -0,0 +1,60 @@
+/**
+ * What the exchange says we hold: token balances and resting orders.
+ * TradingManager.syncWithExchange() checks restored positions and orders against it after a reload or restart.
+ */
+
+import type { OpenOrder } from '@polymarket/clob-client';
+
+export interface ExchangePosition {
+  tokenId: string;
+  shares: number;
+  avgPrice: number; // 0-100
+  eventSlug?: string;
+}
+
+export interface ExchangeState {
+  positions: ExchangePosition[];
+  openOrders: OpenOrder[];
+}
+
+export interface ExchangeStateSource {
+  fetchState(): Promise<ExchangeState>;
+}
+
+/** Rows from the Data API /positions endpoint (as returned by /api/positions); prices there are 0-1. */
+export function parseDataApiPositions(rows: any[]): ExchangePosition[] {
+  return rows
+    .map((row) => {
+      const avgPrice = Number(row.avgPrice ?? 0);
+      return {
+        tokenId: String(row.asset ?? ''),
+        shares: Number(row.size ?? 0),
+        avgPrice: avgPrice <= 1 ? avgPrice * 100 : avgPrice,
+        eventSlug: row.eventSlug ?? row.slug ?? undefined,
+      };
+    })
+    .filter((p) => p.tokenId !== '' && p.shares > 0);
+}
+
+/** Browser: read positions and open orders through the /api/positions and /api/orders routes. */
+export function createApiExchangeStateSource(
+  proxyAddress: string,
+  apiCredentials: { key: string; secret: string; passphrase: string }
+): ExchangeStateSource {
+  const getJson = async (url: string): Promise<any> => {
+    const response = await fetch(url);
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `${url.split('?')[0]} returned ${response.status}`);
+    return data;
+  };
+  return {
+    async fetchState() {
+      const [positions, orders] = await Promise.all([
+        getJson(`/api/positions?proxyAddress=${encodeURIComponent(proxyAddress)}`),
+        getJson(`/api/orders?apiCredentials=${encodeURIComponent(JSON.stringify(apiCredentials))}&proxyAddress=${encodeURIComponent(proxyAddress)}`),
+      ]);
+      const openOrders = ((orders.orders || []) as OpenOrder[]).filter((o) => (o.status || '').toUpperCase() === 'LIVE');
+      return { positions: parseDataApiPositions(positions.positions || []), openOrders };
+    },
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Fair value of the UP/DOWN tokens: the model probability that each side finishes in the money, from the distance
+ * to the price to beat, time remaining and realized volatility (same random-walk model as the Flip Guard thresholds
+ * in volatility.ts). Edge is fair value minus the market price; entries can require it to be positive.
+ */
+
+import { normalCdf } from './volatility';
+import type { Direction } from './strategy';
+
+/** Model probabilities on the 0-100 scale, like token prices. */
+export interface FairValue {
+  up: number; // UP resolves when the closing price is at or above the price to beat
+  down: number;
+  sigmaUsdPerSqrtSecond: number;
+  timeRemainingSeconds: number;
+}
+
+export function estimateFairValue(
+  price: number,
+  priceToBeat: number,
+  sigmaUsdPerSqrtSecond: number,
+  timeRemainingSeconds: number
+): FairValue {
+  const spread = sigmaUsdPerSqrtSecond * Math.sqrt(Math.max(0, timeRemainingSeconds));
+  const upProbability = spread > 0
+    ? normalCdf((price - priceToBeat) / spread)
+    : (price >= priceToBeat ? 1 : 0);
+  return {
+    up: upProbability * 100,
+    down: (1 - upProbability) * 100,
+    sigmaUsdPerSqrtSecond,
+    timeRemainingSeconds,
+  };
+}
+
+/** Fair value minus the market price for one side (0-100 points); positive means the token is cheap. */
+export function getEdge(fairValue: FairValue, direction: Direction, marketPrice: number): number {
+  return (direction === 'UP' ? fairValue.up : fairValue.down) - marketPrice;
+}
@@ -0,0 +1,95 @@
+/**
+ * Late-favourite strategy (the original entry logic).
+ * In the last entryTimeRemainingMaxSeconds of an event, when the UP or DOWN bid is at or above entryPrice,
+ * bid POST_ONLY at (entryPrice - 1). UP has priority if both qualify. With open positions, only add again
+ * after the favourite has dipped below entry.
+ */
+
+import type { Strategy, MarketSnapshot, OrderIntent, Direction } from './strategy';
+import { getEdge } from './fair-value';
+
+const DEFAULT_ENTRY_TIME_REMAINING_MAX_SECONDS = 180;
+
+export class LateFavouriteStrategy implements Strategy {
+  readonly name = 'late-favourite';
+  private priceBelowEntry: boolean = false; // Track if price dropped below entry after position
+
+  async evaluate(snapshot: MarketSnapshot): Promise<OrderIntent[]> {
+    const { config, positions } = snapshot;
+
+    // Price Difference: only enter when |current price - price to beat| >= configured value (USD)
+    if (config.priceDifference != null) {
+      const priceDiffUSD = snapshot.getPriceDistance(config.priceDifferenceSource ?? 'chainlink');
+      if (priceDiffUSD === null) {
+        console.log('[LateFavouriteStrategy] Entry skipped: price difference required but current price or price-to-beat not set (cannot compute distance)');
+        return [];
+      }
+      if (priceDiffUSD < config.priceDifference) {
+        console.log(`[LateFavouriteStrategy] Entry skipped: price diff $${priceDiffUSD.toFixed(2)} < required $${config.priceDifference} (need diff >= $${config.priceDifference} to enter)`);
+        return [];
+      }
+    }
+
+    // Entry only when time remaining is less than configured max (default 3 min)
+    const timeRemaining = snapshot.timeRemainingSeconds;
+    const maxTimeRemaining = config.entryTimeRemainingMaxSeconds ?? DEFAULT_ENTRY_TIME_REMAINING_MAX_SECONDS;
+    if (timeRemaining === null || timeRemaining >= maxTimeRemaining) {
+      if (timeRemaining === null) {
+        console.log('[LateFavouriteStrategy] Entry skipped: event end date not set or invalid — time remaining unknown (need valid activeEvent.endDate)');
+      } else {
+        console.log(`[LateFavouriteStrategy] Entry skipped: time remaining ${timeRemaining.toFixed(0)}s >= max ${maxTimeRemaining}s (enter only in last ${maxTimeRemaining}s)`);
+      }
+      return [];
+    }
+
+    const [upPrice, downPrice] = await Promise.all([snapshot.getBestBid('UP'), snapshot.getBestBid('DOWN')]);
+    if (!upPrice || !downPrice) {
+      console.warn('[LateFavouriteStrategy] Entry skipped: price fetch failed (upPrice=' + (upPrice != null) + ', downPrice=' + (downPrice != null) + ')');
+      return [];
+    }
+
+    const entryPrice = config.entryPrice;
+    let direction: Direction;
+    if (upPrice >= entryPrice) {
+      direction = 'UP';
+    } else if (downPrice >= entryPrice) {
+      direction = 'DOWN';
+    } else {
+      if (positions.length > 0 && Math.max(upPrice, downPrice) < entryPrice) this.priceBelowEntry = true;
+      console.log(`[LateFavouriteStrategy] Entry skipped: neither side >= entry (UP=${upPrice.toFixed(2)}, DOWN=${downPrice.toFixed(2)}, entry=${entryPrice})`);
+      return [];
+    }
+
+    if (positions.length > 0) {
+      if (!this.priceBelowEntry) {
+        console.log('[LateFavouriteStrategy] Entry skipped: have positions, waiting for price to go below entry before adding');
+        return [];
+      }
+      this.priceBelowEntry = false;
+    }
+
+    const limitPrice = Math.max(0, entryPrice - 1);
+
+    // Edge: only bid when the model says the token is worth more than we pay for it
+    if (config.minEdge != null) {
+      if (snapshot.fairValue === null) {
+        console.log('[LateFavouriteStrategy] Entry skipped: min edge required but fair value unavailable (not enough ticks or price to beat not set)');
+        return [];
+      }
+      const edge = getEdge(snapshot.fairValue, direction, limitPrice);
+      if (edge < config.minEdge) {
+        console.log(`[LateFavouriteStrategy] Entry skipped: edge ${edge.toFixed(2)} < required ${config.minEdge} (${direction} fair ${(direction === 'UP' ? snapshot.fairValue.up : snapshot.fairValue.down).toFixed(2)} vs limit ${limitPrice.toFixed(2)})`);
+        return [];
+      }
+    }
+    return [
+      {
+        type: 'entry',
+        direction,
+        limitPrice,
+        postOnly: true,
+        reason: `POST_ONLY limit entry at ${limitPrice.toFixed(2)} (${direction})`,
+      },
+    ];
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Loss limits behind the kill switch: realized loss today (UTC) and over a rolling window, losing events in a row,
+ * and drawdown from peak realized equity. Only PnL realized after the last manual reset counts, so resetting a
+ * tripped kill switch does not immediately trip it again on the same losses.
+ */
+
+import type { StrategyConfig } from './trading-types';
+import type { LedgerEntry } from './pnl-ledger';
+import { startOfUtcDay } from './position-sizing';
+
+const DEFAULT_ROLLING_LOSS_WINDOW_HOURS = 24;
+
+/** Realized PnL booked at one point in time (an exit, or a resolution). */
+export interface RealizedPnl {
+  eventSlug: string;
+  timestamp: number;
+  pnl: number;
+}
+
+/** Realized PnL from the ledger: sells, fees and resolutions (pnl-ledger.ts). */
+export function getRealizedPnlFromLedger(entries: LedgerEntry[]): RealizedPnl[] {
+  return entries
+    .filter((e) => e.realized !== 0)
+    .map((e) => ({ eventSlug: e.eventSlug, timestamp: e.timestamp, pnl: e.realized }));
+}
+
+/** Which limit is breached, as a readable reason, or null when trading may continue. */
+export function checkLossLimits(config: StrategyConfig, realized: RealizedPnl[], now: number, since: number = 0): string | null {
+  const entries = realized.filter((r) => r.timestamp >= since).sort((a, b) => a.timestamp - b.timestamp);
+  const lossSince = (from: number): number => -entries.filter((r) => r.timestamp >= from).reduce((sum, r) => sum + r.pnl, 0);
+
+  if (config.maxDailyLossUsd != null) {
+    const loss = lossSince(startOfUtcDay(now));
+    if (loss >= config.maxDailyLossUsd) {
+      return `daily realized loss $${loss.toFixed(2)} >= $${config.maxDailyLossUsd}`;
+    }
+  }
+
+  if (config.maxRollingLossUsd != null) {
+    const hours = config.rollingLossWindowHours ?? DEFAULT_ROLLING_LOSS_WINDOW_HOURS;
+    const loss = lossSince(now - hours * 3600 * 1000);
+    if (loss >= config.maxRollingLossUsd) {
+      return `realized loss over ${hours}h $${loss.toFixed(2)} >= $${config.maxRollingLossUsd}`;
+    }
+  }
+
+  if (config.maxConsecutiveLosingEvents != null) {
+    // Event result = sum of its realized PnL, ordered by when it was last booked
+    const events = new Map<string, { pnl: number; last: number }>();
+    for (const r of entries) {
+      const event = events.get(r.eventSlug) ?? { pnl: 0, last: 0 };
+      events.set(r.eventSlug, { pnl: event.pnl + r.pnl, last: r.timestamp });
+    }
+    const ordered = [...events.values()].sort((a, b) => a.last - b.last);
+    let streak = 0;
+    for (let i = ordered.length - 1; i >= 0 && ordered[i].pnl < 0; i--) streak++;
+    if (streak >= config.maxConsecutiveLosingEvents) {
+      return `${streak} losing events in a row >= ${config.maxConsecutiveLosingEvents}`;
+    }
+  }
+
+  if (config.maxDrawdownUsd != null) {
+    let equity = 0;
+    let peak = 0;
+    for (const r of entries) {
+      equity += r.pnl;
+      peak = Math.max(peak, equity);
+    }
+    if (peak - equity >= config.maxDrawdownUsd) {
+      return `drawdown $${(peak - equity).toFixed(2)} from peak realized equity >= $${config.maxDrawdownUsd}`;
+    }
+  }
+
+  return null;
+}
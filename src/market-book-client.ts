@@ -0,0 +1,254 @@
+/**
+ * CLOB market-channel WebSocket client: keeps a local L2 order book per outcome token from `book` snapshots
+ * and `price_change` deltas, so best bid/ask and depth are available without polling /price or /book.
+ * Runs alongside WebSocketClient (Chainlink prices); the owner points it at the active event's clobTokenIds.
+ */
+
+import { getReconnectDelay, type WebSocketConstructor } from './websocket-client';
+import type { BookSnapshot, BookSource } from './paper-trading';
+
+const WS_ENDPOINT = 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
+const PING_INTERVAL = 10000; // Server drops idle connections; it answers the text "PING" with "PONG"
+
+export interface MarketBookStatus {
+  connected: boolean;
+  assetIds: string[];
+  lastUpdate: number | null;
+  error: string | null;
+}
+
+interface RawLevel {
+  price: string;
+  size: string;
+}
+
+interface LocalBook {
+  bids: Map<number, number>; // price (0-1) -> size (shares)
+  asks: Map<number, number>;
+  updatedAt: number; // local receive time (ms)
+}
+
+export class MarketBookClient implements BookSource {
+  private ws: WebSocket | null = null;
+  private WebSocketImpl: WebSocketConstructor;
+  private pingInterval: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private assetIds: string[] = [];
+  private books: Map<string, LocalBook> = new Map(); // tokenId -> book; only tokens that got a snapshot on this connection
+  private onBookUpdate: ((tokenId: string) => void) | null = null;
+  private onStatusChange: ((status: MarketBookStatus) => void) | null = null;
+
+  constructor(webSocketImpl?: WebSocketConstructor) {
+    this.WebSocketImpl = webSocketImpl ?? globalThis.WebSocket;
+  }
+
+  setCallbacks(onBookUpdate: (tokenId: string) => void, onStatusChange: (status: MarketBookStatus) => void): void {
+    this.onBookUpdate = onBookUpdate;
+    this.onStatusChange = onStatusChange;
+  }
+
+  /**
+   * Subscribe to these tokens (replacing the previous set). Reconnects when the set changes, because the
+   * market channel takes its asset list at subscription time. An empty list closes the socket.
+   */
+  setAssetIds(assetIds: string[]): void {
+    const next = [...new Set(assetIds.filter(Boolean))].sort();
+    if (next.join(',') === this.assetIds.join(',')) return;
+    this.assetIds = next;
+    this.disconnect();
+    if (next.length > 0) {
+      this.connect();
+    }
+  }
+
+  getAssetIds(): string[] {
+    return [...this.assetIds];
+  }
+
+  connect(): void {
+    if (this.ws?.readyState === this.WebSocketImpl.OPEN || this.assetIds.length === 0) {
+      return;
+    }
+
+    this.closeSocket();
+    try {
+      this.ws = new this.WebSocketImpl(WS_ENDPOINT);
+      this.setupWebSocketHandlers(this.ws);
+    } catch (error) {
+      this.handleError(`Failed to connect: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.attemptReconnect();
+    }
+  }
+
+  private setupWebSocketHandlers(ws: WebSocket): void {
+    ws.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.startPingInterval();
+      ws.send(JSON.stringify({ assets_ids: this.assetIds, type: 'market' }));
+      this.updateStatus(null);
+    };
+
+    ws.onmessage = (event) => {
+      const text = String(event.data);
+      if (text === 'PONG') return;
+      try {
+        const data = JSON.parse(text);
+        for (const message of Array.isArray(data) ? data : [data]) {
+          this.handleMessage(message);
+        }
+      } catch (error) {
+        console.error('[MarketBookClient] Error parsing message:', error);
+      }
+    };
+
+    ws.onerror = () => {
+      if (ws !== this.ws) return;
+      this.handleError('WebSocket error occurred');
+    };
+
+    ws.onclose = () => {
+      if (ws !== this.ws) return; // Replaced by setAssetIds/disconnect; nothing to reconnect
+      this.stopPingInterval();
+      this.books.clear();
+      this.updateStatus(null);
+      this.attemptReconnect();
+    };
+  }
+
+  private handleMessage(message: any): void {
+    switch (message?.event_type) {
+      case 'book': {
+        const book: LocalBook = { bids: new Map(), asks: new Map(), updatedAt: Date.now() };
+        this.applyLevels(book.bids, message.bids ?? message.buys ?? []);
+        this.applyLevels(book.asks, message.asks ?? message.sells ?? []);
+        this.books.set(message.asset_id, book);
+        this.onBookUpdate?.(message.asset_id);
+        break;
+      }
+      case 'price_change': {
+        // Current schema: one message per market with `price_changes`; older one: per asset with `changes`
+        const changes: Array<RawLevel & { asset_id?: string; side: string }> = message.price_changes ?? message.changes ?? [];
+        const touched = new Set<string>();
+        for (const change of changes) {
+          const tokenId = change.asset_id ?? message.asset_id;
+          const book = this.books.get(tokenId);
+          if (!book) continue; // Deltas before the snapshot are covered by it
+          this.applyLevels(change.side.toUpperCase() === 'BUY' ? book.bids : book.asks, [change]);
+          book.updatedAt = Date.now();
+          touched.add(tokenId);
+        }
+        touched.forEach((tokenId) => this.onBookUpdate?.(tokenId));
+        break;
+      }
+      default:
+        break; // tick_size_change, last_trade_price
+    }
+  }
+
+  private applyLevels(side: Map<number, number>, levels: RawLevel[]): void {
+    for (const level of levels) {
+      const price = Number(level.price);
+      const size = Number(level.size);
+      if (!Number.isFinite(price) || !Number.isFinite(size)) continue;
+      if (size > 0) {
+        side.set(price, size);
+      } else {
+        side.delete(price);
+      }
+    }
+  }
+
+  /** Sorted book for a subscribed token (top `depth` levels per side), or null until its snapshot arrives. */
+  getSnapshot(tokenId: string, depth: number = Infinity): BookSnapshot | null {
+    const book = this.books.get(tokenId);
+    if (!book || !this.isConnected()) return null;
+    const toLevels = (side: Map<number, number>, descending: boolean) =>
+      [...side.entries()]
+        .sort((a, b) => (descending ? b[0] - a[0] : a[0] - b[0]))
+        .slice(0, depth)
+        .map(([price, size]) => ({ price, size }));
+    return { bids: toLevels(book.bids, true), asks: toLevels(book.asks, false), timestamp: book.updatedAt };
+  }
+
+  /** BookSource: the live socket book, or null when the token is not subscribed or the socket is down. */
+  async getBook(tokenId: string): Promise<BookSnapshot | null> {
+    return this.getSnapshot(tokenId);
+  }
+
+  /** Best bid / ask (decimal 0-1); null for an empty side. Null overall when there is no live book. */
+  getBestBidAsk(tokenId: string): { bid: number | null; ask: number | null } | null {
+    const book = this.books.get(tokenId);
+    if (!book || !this.isConnected()) return null;
+    const bid = book.bids.size > 0 ? Math.max(...book.bids.keys()) : null;
+    const ask = book.asks.size > 0 ? Math.min(...book.asks.keys()) : null;
+    return { bid, ask };
+  }
+
+  private startPingInterval(): void {
+    this.stopPingInterval();
+    this.pingInterval = setInterval(() => {
+      if (this.ws?.readyState === this.WebSocketImpl.OPEN) {
+        this.ws.send('PING');
+      }
+    }, PING_INTERVAL);
+  }
+
+  private stopPingInterval(): void {
+    if (this.pingInterval !== null) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+  }
+
+  /** Retry forever with the price feed's jittered exponential backoff (websocket-client.ts). */
+  private attemptReconnect(): void {
+    if (this.assetIds.length === 0 || this.reconnectTimer !== null) return; // Disconnected on purpose, or already scheduled
+
+    this.reconnectAttempts++;
+    const delay = getReconnectDelay(this.reconnectAttempts);
+    console.log(`[MarketBookClient] Reconnecting in ${(delay / 1000).toFixed(1)}s (attempt ${this.reconnectAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private handleError(message: string): void {
+    console.warn('[MarketBookClient]', message);
+    this.updateStatus(message);
+  }
+
+  private updateStatus(error: string | null): void {
+    this.onStatusChange?.({
+      connected: this.isConnected(),
+      assetIds: [...this.assetIds],
+      lastUpdate: Math.max(0, ...[...this.books.values()].map((b) => b.updatedAt)) || null,
+      error,
+    });
+  }
+
+  /** Close without reconnecting; books are dropped (callers fall back to HTTP prices). */
+  private closeSocket(): void {
+    this.stopPingInterval();
+    const ws = this.ws;
+    this.ws = null;
+    this.books.clear();
+    ws?.close();
+  }
+
+  disconnect(): void {
+    const wasOpen = this.ws !== null;
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.closeSocket();
+    this.reconnectAttempts = 0;
+    if (wasOpen) this.updateStatus(null);
+  }
+
+  isConnected(): boolean {
+    return this.ws?.readyState === this.WebSocketImpl.OPEN;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Recorded market data format (one JSON record per line, NDJSON).
+ * Shared by the recorder, the backtester and any importer. Timestamps are epoch ms; prices are decimal 0-1
+ * for outcome tokens and USD for the Chainlink feed. Book levels are stored as [price, size] tuples to keep files small.
+ */
+
+import type { BookSnapshot } from './paper-trading';
+
+/** crypto_prices_chainlink tick (RTDS payload.value). */
+export interface TickRecord {
+  type: 'tick';
+  ts: number;
+  value: number;
+  sourceTs?: number; // RTDS payload.timestamp, when recorded live (ts is the local receive time)
+}
+
+/** Full (or truncated) order book for one outcome token. */
+export interface BookRecord {
+  type: 'book';
+  ts: number;
+  tokenId: string;
+  bids: Array<[number, number]>;
+  asks: Array<[number, number]>;
+}
+
+/** Top of book only (e.g. imported price history); replayed as a single deep level per side. */
+export interface QuoteRecord {
+  type: 'quote';
+  ts: number;
+  tokenId: string;
+  bid: number | null;
+  ask: number | null;
+}
+
+/** An Up/Down market (any series). startTs/endTs are epoch seconds, matching the slug timestamp. May repeat; later copies add priceToBeat. */
+export interface EventRecord {
+  type: 'event';
+  ts: number;
+  slug: string;
+  startTs: number;
+  endTs: number;
+  upTokenId: string;
+  downTokenId: string;
+  conditionId?: string;
+  priceToBeat?: number; // When known (otherwise the first tick at/after start is used)
+}
+
+/** Official outcome once the market resolves. */
+export interface ResolutionRecord {
+  type: 'resolution';
+  ts: number;
+  slug: string;
+  winner: 'UP' | 'DOWN';
+}
+
+export type MarketDataRecord = TickRecord | BookRecord | QuoteRecord | EventRecord | ResolutionRecord;
+
+/** Size used for each side of a QuoteRecord, i.e. quotes are treated as effectively unlimited depth. */
+export const QUOTE_LEVEL_SIZE = 1_000_000;
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isLevels(value: unknown): value is Array<[number, number]> {
+  return Array.isArray(value) && value.every((l) => Array.isArray(l) && isFiniteNumber(l[0]) && isFiniteNumber(l[1]));
+}
+
+/** Parse and validate one NDJSON line. Returns null for blank lines; throws on malformed records. */
+export function parseMarketDataLine(line: string): MarketDataRecord | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+  const raw = JSON.parse(trimmed) as Record<string, unknown>;
+  if (!isFiniteNumber(raw.ts)) throw new Error(`Record missing numeric ts: ${trimmed.slice(0, 80)}`);
+
+  switch (raw.type) {
+    case 'tick':
+      if (isFiniteNumber(raw.value)) return raw as unknown as TickRecord;
+      break;
+    case 'book':
+      if (typeof raw.tokenId === 'string' && isLevels(raw.bids) && isLevels(raw.asks)) return raw as unknown as BookRecord;
+      break;
+    case 'quote':
+      if (typeof raw.tokenId === 'string' && (raw.bid === null || isFiniteNumber(raw.bid)) && (raw.ask === null || isFiniteNumber(raw.ask))) {
+        return raw as unknown as QuoteRecord;
+      }
+      break;
+    case 'event':
+      if (
+        typeof raw.slug === 'string' &&
+        isFiniteNumber(raw.startTs) &&
+        isFiniteNumber(raw.endTs) &&
+        typeof raw.upTokenId === 'string' &&
+        typeof raw.downTokenId === 'string'
+      ) {
+        return raw as unknown as EventRecord;
+      }
+      break;
+    case 'resolution':
+      if (typeof raw.slug === 'string' && (raw.winner === 'UP' || raw.winner === 'DOWN')) return raw as unknown as ResolutionRecord;
+      break;
+  }
+  throw new Error(`Invalid ${String(raw.type)} record: ${trimmed.slice(0, 80)}`);
+}
+
+/** Convert a book or quote record into the snapshot shape the paper engine matches against. */
+export function toBookSnapshot(record: BookRecord | QuoteRecord): BookSnapshot {
+  if (record.type === 'quote') {
+    return {
+      bids: record.bid != null ? [{ price: record.bid, size: QUOTE_LEVEL_SIZE }] : [],
+      asks: record.ask != null ? [{ price: record.ask, size: QUOTE_LEVEL_SIZE }] : [],
+      timestamp: record.ts,
+    };
+  }
+  return {
+    bids: record.bids.map(([price, size]) => ({ price, size })).sort((a, b) => b.price - a.price),
+    asks: record.asks.map(([price, size]) => ({ price, size })).sort((a, b) => a.price - b.price),
+    timestamp: record.ts,
+  };
+}
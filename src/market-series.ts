@@ -0,0 +1,151 @@
+/**
+ * Polymarket crypto Up/Down market series: how often a new market starts and how its event slug is built.
+ * EventManager generates event slugs and start/end times from a series; everything downstream (countdown,
+ * TradingManager time-remaining gating, recorder, backtester) works from the event's start and end dates.
+ */
+
+import type { AssetType } from './types';
+import { getAsset } from './asset-registry';
+
+export type MarketSeriesId = '5m' | '15m' | '1h' | '4h' | '1d';
+
+export interface MarketSeries {
+  id: MarketSeriesId;
+  label: string; // Shown in titles, e.g. "Up/Down 15m"
+  durationSeconds: number; // Nominal length; intervals aligned to a time zone can be an hour off across DST changes
+  /**
+   * Event slug with placeholders: {asset} (the asset's slugPrefix, btc), {assetName} (its slugName, bitcoin), {ts} (start, epoch seconds), and the start
+   * {month} (october), {day} (18) and {hour} (3pm), or end {endMonth} / {endDay}, in `timeZone`.
+   */
+  slugTemplate: string;
+  timeZone?: string; // Intervals are aligned to midnight in this zone (default: UTC epoch)
+  anchorSeconds?: number; // Interval boundaries are offset this far from midnight (e.g. 12h for daily markets that end at noon)
+}
+
+export const MARKET_SERIES: Record<MarketSeriesId, MarketSeries> = {
+  '5m': { id: '5m', label: '5m', durationSeconds: 300, slugTemplate: '{asset}-updown-5m-{ts}' },
+  '15m': { id: '15m', label: '15m', durationSeconds: 900, slugTemplate: '{asset}-updown-15m-{ts}' },
+  '1h': {
+    id: '1h',
+    label: '1h',
+    durationSeconds: 3600,
+    slugTemplate: '{assetName}-up-or-down-{month}-{day}-{hour}-et',
+    timeZone: 'America/New_York',
+  },
+  '4h': {
+    id: '4h',
+    label: '4h',
+    durationSeconds: 14400,
+    slugTemplate: '{asset}-updown-4h-{ts}',
+    timeZone: 'America/New_York',
+  },
+  '1d': {
+    id: '1d',
+    label: 'Daily',
+    durationSeconds: 86400,
+    slugTemplate: '{assetName}-up-or-down-on-{endMonth}-{endDay}',
+    timeZone: 'America/New_York',
+    anchorSeconds: 12 * 3600,
+  },
+};
+
+export const DEFAULT_MARKET_SERIES_ID: MarketSeriesId = '15m';
+
+export function isMarketSeriesId(id: string): id is MarketSeriesId {
+  return id in MARKET_SERIES;
+}
+
+/** Series by id; throws on an unknown id (config and CLI input). */
+export function getMarketSeries(id: string = DEFAULT_MARKET_SERIES_ID): MarketSeries {
+  if (!isMarketSeriesId(id)) {
+    throw new Error(`Unknown market series "${id}" (available: ${Object.keys(MARKET_SERIES).join(', ')})`);
+  }
+  return MARKET_SERIES[id];
+}
+
+/** Series whose nominal duration matches (recorded events only carry start and end). */
+export function findMarketSeriesByDuration(durationSeconds: number): MarketSeries | undefined {
+  return Object.values(MARKET_SERIES).find((s) => {
+    const tolerance = s.timeZone && s.durationSeconds > 3600 ? 3600 : 0; // DST days are 23 or 25 hours
+    return Math.abs(s.durationSeconds - durationSeconds) <= tolerance;
+  });
+}
+
+/** Offset of `timeZone` from UTC at the given instant, in seconds (e.g. -14400 for New York in summer). */
+function getTimeZoneOffsetSeconds(timeZone: string, timestamp: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(timestamp * 1000));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) / 1000;
+  return asUtc - timestamp;
+}
+
+/** Start (epoch seconds) of the series interval containing `timestamp`. */
+export function getIntervalStart(series: MarketSeries, timestamp: number): number {
+  const duration = series.durationSeconds;
+  const anchor = series.anchorSeconds ?? 0;
+  if (!series.timeZone) {
+    return Math.floor((timestamp - anchor) / duration) * duration + anchor;
+  }
+  const offset = getTimeZoneOffsetSeconds(series.timeZone, timestamp);
+  const localStart = Math.floor((timestamp + offset - anchor) / duration) * duration + anchor;
+  // Re-read the offset at the boundary itself so intervals that straddle a DST change start at local time
+  return localStart - getTimeZoneOffsetSeconds(series.timeZone, localStart - offset);
+}
+
+/** End of the interval starting at `start` (the next interval's start). */
+export function getIntervalEnd(series: MarketSeries, start: number): number {
+  return getIntervalStart(series, start + Math.floor(series.durationSeconds * 1.5));
+}
+
+/** The interval containing `now` followed by the next count - 1 intervals (start timestamps). */
+export function getSeriesIntervals(series: MarketSeries, count: number, now: number = Math.floor(Date.now() / 1000)): number[] {
+  const intervals: number[] = [];
+  let start = getIntervalStart(series, now);
+  for (let i = 0; i < count; i++) {
+    intervals.push(start);
+    start = getIntervalEnd(series, start);
+  }
+  return intervals;
+}
+
+/** Start of the interval before the one containing `now`. */
+export function getPreviousSeriesInterval(series: MarketSeries, now: number = Math.floor(Date.now() / 1000)): number {
+  return getIntervalStart(series, getIntervalStart(series, now) - Math.floor(series.durationSeconds / 2));
+}
+
+/** Event slug for the interval starting at `start`. */
+export function generateSeriesSlug(series: MarketSeries, start: number, asset: AssetType = 'btc'): string {
+  const dateParts = (timestamp: number) => {
+    const date = new Date(timestamp * 1000);
+    const format = (options: Intl.DateTimeFormatOptions) =>
+      new Intl.DateTimeFormat('en-US', { timeZone: series.timeZone ?? 'UTC', ...options }).format(date);
+    return {
+      month: format({ month: 'long' }).toLowerCase(),
+      day: format({ day: 'numeric' }),
+      hour: format({ hour: 'numeric', hour12: true }).replace(/\s+/g, '').toLowerCase(), // "3pm"
+    };
+  };
+  const startParts = dateParts(start);
+  const endParts = dateParts(getIntervalEnd(series, start));
+  const { slugPrefix, slugName } = getAsset(asset);
+  const values: Record<string, string> = {
+    asset: slugPrefix,
+    assetName: slugName,
+    ts: String(start),
+    month: startParts.month,
+    day: startParts.day,
+    hour: startParts.hour,
+    endMonth: endParts.month,
+    endDay: endParts.day,
+  };
+  return series.slugTemplate.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
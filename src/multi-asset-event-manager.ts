@@ -2,6 +2,7 @@ import { EventManager } from './event-manager';
 import type { EventDisplayData } from './event-manager';
 import type { AssetType } from './types';
 import { generateEventSlug } from './event-utils';
+import { getAssetIds } from './asset-registry';
 
 /**
  * Multi-Asset Event Manager
@@ -14,7 +15,7 @@ export class MultiAssetEventManager {
 
   constructor() {
     // Initialize event managers for each asset
-    const assets: AssetType[] = ['btc', 'eth', 'sol', 'xrp'];
+    const assets: AssetType[] = getAssetIds();
     for (const asset of assets) {
       const manager = new EventManager(asset);
       this.managers.set(asset, manager);
@@ -2,7 +2,7 @@ import { WebSocketClient } from './websocket-client';
 import { MultiAssetEventManager } from './multi-asset-event-manager';
 import { MultiAssetTradingManager } from './multi-asset-trading-manager';
 import type { PriceUpdate, ConnectionStatus, AssetType } from './types';
-import { ASSET_CONFIG } from './types';
+import { findAssetBySymbol, getAsset, getAssetIds } from './asset-registry';
 
 /**
  * Multi-Asset Streaming Platform
@@ -21,7 +21,10 @@ export class MultiAssetStreamingPlatform {
     connected: false,
     source: null,
     lastUpdate: null,
-    error: null
+    error: null,
+    stale: true,
+    lastMessageAt: null,
+    reconnectAttempt: 0
   };
   private eventPriceToBeat: Map<string, number> = new Map(); // Map of event slug to price to beat
   private eventLastPrice: Map<string, number> = new Map(); // Map of event slug to last price
@@ -60,7 +63,7 @@ export class MultiAssetStreamingPlatform {
     this.tradingManager = new MultiAssetTradingManager();
     
     // Initialize price maps and session state for all assets
-    const assets: AssetType[] = ['btc', 'eth', 'sol', 'xrp'];
+    const assets: AssetType[] = getAssetIds();
     for (const asset of assets) {
       this.assetPrices.set(asset, null);
       this.assetPriceHistory.set(asset, []);
@@ -126,13 +129,7 @@ export class MultiAssetStreamingPlatform {
     const symbol = update.payload.symbol.toLowerCase();
     
     // Determine which asset this price update is for
-    let asset: AssetType | null = null;
-    for (const [assetType, config] of Object.entries(ASSET_CONFIG)) {
-      if (config.symbol.toLowerCase() === symbol) {
-        asset = assetType as AssetType;
-        break;
-      }
-    }
+    const asset: AssetType | null = findAssetBySymbol(symbol)?.id ?? null;
 
     if (!asset) {
       console.warn(`Unknown price symbol: ${symbol}`);
@@ -231,7 +228,7 @@ export class MultiAssetStreamingPlatform {
     });
 
     // Asset tab switching
-    const assets: AssetType[] = ['btc', 'eth', 'sol', 'xrp'];
+    const assets: AssetType[] = getAssetIds();
     for (const asset of assets) {
       const tabBtn = document.getElementById(`asset-tab-${asset}`);
       tabBtn?.addEventListener('click', () => {
@@ -299,7 +296,7 @@ export class MultiAssetStreamingPlatform {
     this.currentAsset = asset;
     
     // Update active tab styling
-    const assets: AssetType[] = ['btc', 'eth', 'sol', 'xrp'];
+    const assets: AssetType[] = getAssetIds();
     for (const a of assets) {
       const tab = document.getElementById(`asset-tab-${a}`);
       if (tab) {
@@ -330,27 +327,27 @@ export class MultiAssetStreamingPlatform {
     // Update all section headers to show current asset
     const eventsHeader = document.querySelector('.events-section-header h2');
     if (eventsHeader) {
-      eventsHeader.textContent = `${ASSET_CONFIG[this.currentAsset].displayName} Up/Down 15m Events`;
+      eventsHeader.textContent = `${getAsset(this.currentAsset).displayName} Up/Down 15m Events`;
     }
 
     const tradingHeader = document.querySelector('.trading-section h2');
     if (tradingHeader) {
-      tradingHeader.textContent = `Trading Configuration - ${ASSET_CONFIG[this.currentAsset].displayName}`;
+      tradingHeader.textContent = `Trading Configuration - ${getAsset(this.currentAsset).displayName}`;
     }
 
     const ordersHeader = document.querySelector('.orders-section h2');
     if (ordersHeader) {
-      ordersHeader.textContent = `Orders & Positions - ${ASSET_CONFIG[this.currentAsset].displayName}`;
+      ordersHeader.textContent = `Orders & Positions - ${getAsset(this.currentAsset).displayName}`;
     }
 
     const tradesHeader = document.querySelector('.trades-section h2');
     if (tradesHeader) {
-      tradesHeader.textContent = `Trade History - ${ASSET_CONFIG[this.currentAsset].displayName}`;
+      tradesHeader.textContent = `Trade History - ${getAsset(this.currentAsset).displayName}`;
     }
 
     const sessionHeader = document.querySelector('.wallet-section h3');
     if (sessionHeader) {
-      sessionHeader.textContent = `Trading Session Initialization - ${ASSET_CONFIG[this.currentAsset].displayName}`;
+      sessionHeader.textContent = `Trading Session Initialization - ${getAsset(this.currentAsset).displayName}`;
     }
   }
 
@@ -370,9 +367,9 @@ export class MultiAssetStreamingPlatform {
 
         <!-- Asset Tabs -->
         <div class="asset-tabs">
-          ${['btc', 'eth', 'sol', 'xrp'].map(asset => `
+          ${getAssetIds().map(asset => `
             <button id="asset-tab-${asset}" class="asset-tab ${asset === this.currentAsset ? 'active' : ''}">
-              ${ASSET_CONFIG[asset as AssetType].displayName}
+              ${getAsset(asset).displayName}
             </button>
           `).join('')}
         </div>
@@ -393,7 +390,7 @@ export class MultiAssetStreamingPlatform {
         </div>
 
         <div class="price-display">
-          <div class="price-label">Current ${ASSET_CONFIG[this.currentAsset].displayName} Price</div>
+          <div class="price-label">Current ${getAsset(this.currentAsset).displayName} Price</div>
           <div id="current-price" class="price-value">--</div>
           <div class="price-meta">
             <span>Last Update: <span id="price-timestamp">--</span></span>
@@ -409,7 +406,7 @@ export class MultiAssetStreamingPlatform {
 
         <div class="events-section">
           <div class="events-section-header" id="events-section-header" style="cursor: pointer;">
-            <h2>${ASSET_CONFIG[this.currentAsset].displayName} Up/Down 15m Events</h2>
+            <h2>${getAsset(this.currentAsset).displayName} Up/Down 15m Events</h2>
             <span class="events-chevron" id="events-chevron">▶</span>
           </div>
           <div class="events-section-content collapsed" id="events-section-content">
@@ -435,7 +432,7 @@ export class MultiAssetStreamingPlatform {
         </div>
 
         <div class="trading-section">
-          <h2>Trading Configuration - ${ASSET_CONFIG[this.currentAsset].displayName}</h2>
+          <h2>Trading Configuration - ${getAsset(this.currentAsset).displayName}</h2>
           <div id="trading-config"></div>
           <div id="trading-status"></div>
           <div id="trading-controls"></div>
@@ -444,18 +441,18 @@ export class MultiAssetStreamingPlatform {
         <div class="wallet-section">
           <h2>Wallet Connection (Shared Across All Assets)</h2>
           <div id="wallet-display"></div>
-          <h3>Trading Session Initialization - ${ASSET_CONFIG[this.currentAsset].displayName}</h3>
+          <h3>Trading Session Initialization - ${getAsset(this.currentAsset).displayName}</h3>
           <p class="session-note">Each asset requires its own trading session initialization. Initialize sessions for each asset you want to trade.</p>
           <div id="session-display"></div>
         </div>
 
         <div class="orders-section">
-          <h2>Orders & Positions - ${ASSET_CONFIG[this.currentAsset].displayName}</h2>
+          <h2>Orders & Positions - ${getAsset(this.currentAsset).displayName}</h2>
           <div id="orders-display"></div>
         </div>
 
         <div class="trades-section">
-          <h2>Trade History - ${ASSET_CONFIG[this.currentAsset].displayName}</h2>
+          <h2>Trade History - ${getAsset(this.currentAsset).displayName}</h2>
           <div id="trades-display"></div>
         </div>
       </div>
@@ -544,7 +541,7 @@ export class MultiAssetStreamingPlatform {
     if (!activeEvent) {
       activeEventContainer.innerHTML = `
         <div class="active-event-empty">
-          <p>No active event for ${ASSET_CONFIG[this.currentAsset].displayName}</p>
+          <p>No active event for ${getAsset(this.currentAsset).displayName}</p>
         </div>
       `;
       return;
@@ -568,7 +565,7 @@ export class MultiAssetStreamingPlatform {
             <span class="info-value">${priceToBeatDisplay}</span>
           </div>
           <div class="info-row">
-            <span class="info-label">Current ${ASSET_CONFIG[this.currentAsset].displayName} Price:</span>
+            <span class="info-label">Current ${getAsset(this.currentAsset).displayName} Price:</span>
             <span class="info-value">${currentPrice !== null ? `$${currentPrice.toFixed(2)}` : 'Loading...'}</span>
           </div>
           <div class="info-row">
@@ -713,7 +710,7 @@ export class MultiAssetStreamingPlatform {
           <label>
             Price Difference (USD):
             <input type="number" id="price-difference" value="${config.priceDifference || ''}" placeholder="Optional">
-            <small>Only trade when |Price to Beat - Current ${ASSET_CONFIG[this.currentAsset].displayName} Price| equals this value. Leave empty to disable.</small>
+            <small>Only trade when |Price to Beat - Current ${getAsset(this.currentAsset).displayName} Price| equals this value. Leave empty to disable.</small>
           </label>
         </div>
         <button id="save-strategy-config" class="btn btn-primary">Save Configuration</button>
@@ -755,10 +752,10 @@ export class MultiAssetStreamingPlatform {
     controlsDiv.innerHTML = `
       <div class="trading-controls">
         <button id="start-trading" class="btn btn-success" ${!canStartTrading ? 'disabled' : ''}>
-          Start ${ASSET_CONFIG[this.currentAsset].displayName} Trading
+          Start ${getAsset(this.currentAsset).displayName} Trading
         </button>
         <button id="stop-trading" class="btn btn-danger" ${!status.isActive ? 'disabled' : ''}>
-          Stop ${ASSET_CONFIG[this.currentAsset].displayName} Trading
+          Stop ${getAsset(this.currentAsset).displayName} Trading
         </button>
         ${!sessionState?.isInitialized ? `
           <p class="trading-warning">⚠️ Trading session not initialized. Please initialize session first.</p>
@@ -769,7 +766,7 @@ export class MultiAssetStreamingPlatform {
     // Render trades
     if (tradesDiv) {
       if (trades.length === 0) {
-        tradesDiv.innerHTML = '<p class="no-trades">No trades yet for ' + ASSET_CONFIG[this.currentAsset].displayName + '</p>';
+        tradesDiv.innerHTML = '<p class="no-trades">No trades yet for ' + getAsset(this.currentAsset).displayName + '</p>';
       } else {
         tradesDiv.innerHTML = `
           <table class="trades-table">
@@ -836,6 +833,7 @@ export class MultiAssetStreamingPlatform {
               <span class="value">$${this.walletState.balance.toFixed(2)}</span>
             </div>
           ` : ''}
+          ${this.renderPortfolioExposure()}
           <div class="wallet-controls">
             ${!this.walletState.isConnected ? `
               <button id="connect-wallet" class="btn btn-primary" ${this.walletState.isLoading ? 'disabled' : ''}>Connect Wallet</button>
@@ -855,7 +853,7 @@ export class MultiAssetStreamingPlatform {
       sessionDiv.innerHTML = `
         <div class="session-info">
           <div class="session-status">
-            <span class="status-label">${ASSET_CONFIG[this.currentAsset].displayName} Session:</span>
+            <span class="status-label">${getAsset(this.currentAsset).displayName} Session:</span>
             <span class="status-value">${sessionState.isInitialized ? 'Initialized' : 'Not Initialized'}</span>
           </div>
           ${sessionState.error ? `
@@ -864,7 +862,7 @@ export class MultiAssetStreamingPlatform {
           <div class="session-controls">
             <button id="initialize-session" class="btn btn-primary" 
               ${!this.walletState.isConnected || sessionState.isInitialized || sessionState.isLoading ? 'disabled' : ''}>
-              ${sessionState.isLoading ? 'Initializing...' : `Initialize ${ASSET_CONFIG[this.currentAsset].displayName} Trading Session`}
+              ${sessionState.isLoading ? 'Initializing...' : `Initialize ${getAsset(this.currentAsset).displayName} Trading Session`}
             </button>
           </div>
         </div>
@@ -875,7 +873,7 @@ export class MultiAssetStreamingPlatform {
   private async startTrading(): Promise<void> {
     const sessionState = this.assetSessions.get(this.currentAsset);
     if (!sessionState?.isInitialized) {
-      alert(`Please initialize ${ASSET_CONFIG[this.currentAsset].displayName} trading session first!`);
+      alert(`Please initialize ${getAsset(this.currentAsset).displayName} trading session first!`);
       return;
     }
 
@@ -910,7 +908,7 @@ export class MultiAssetStreamingPlatform {
       priceDifference,
     });
 
-    alert(`Strategy configuration saved for ${ASSET_CONFIG[this.currentAsset].displayName}!`);
+    alert(`Strategy configuration saved for ${getAsset(this.currentAsset).displayName}!`);
   }
 
   private updateConnectionStatus(): void {
@@ -992,7 +990,7 @@ export class MultiAssetStreamingPlatform {
     if (!sessionState?.isInitialized || !this.walletState.apiCredentials || !this.walletState.proxyAddress) {
       ordersDiv.innerHTML = `
         <div class="orders-empty">
-          <p>${ASSET_CONFIG[this.currentAsset].displayName} trading session not initialized. Please initialize session first.</p>
+          <p>${getAsset(this.currentAsset).displayName} trading session not initialized. Please initialize session first.</p>
         </div>
       `;
       return;
@@ -1177,6 +1175,20 @@ export class MultiAssetStreamingPlatform {
     }
   }
 
+  /**
+   * Shared exposure across assets against the portfolio risk caps
+   */
+  private renderPortfolioExposure(): string {
+    const { total, caps } = this.tradingManager.getPortfolioExposure();
+    if (!caps) return '';
+    return `
+      <div class="wallet-balance">
+        <span class="label">Exposure:</span>
+        <span class="value">$${total.toFixed(2)} / $${caps.total.toFixed(2)}</span>
+      </div>
+    `;
+  }
+
   private async fetchBalance(): Promise<void> {
     if (!this.walletState.isConnected) {
       return;
@@ -1191,14 +1203,8 @@ export class MultiAssetStreamingPlatform {
 
       if (response.ok && data.balance !== null && data.balance !== undefined) {
         this.walletState.balance = data.balance;
-        // Update trading managers with balance
-        const assets: AssetType[] = ['btc', 'eth', 'sol', 'xrp'];
-        for (const asset of assets) {
-          const manager = this.tradingManager.getManager(asset);
-          if (manager) {
-            (manager as any).setWalletBalance?.(data.balance);
-          }
-        }
+        // Update trading managers and the shared portfolio risk budget with balance
+        this.tradingManager.setWalletBalance(data.balance);
       }
     } catch (error) {
       console.error('Balance fetch error:', error);
@@ -1223,7 +1229,7 @@ export class MultiAssetStreamingPlatform {
     this.walletState.error = null;
 
     // Reset all asset sessions
-    const assets: AssetType[] = ['btc', 'eth', 'sol', 'xrp'];
+    const assets: AssetType[] = getAssetIds();
     for (const asset of assets) {
       this.assetSessions.set(asset, {
         isInitialized: false,
@@ -1295,7 +1301,7 @@ export class MultiAssetStreamingPlatform {
       await this.fetchAndDisplayOrders();
 
       this.renderWalletSection();
-      alert(`${ASSET_CONFIG[this.currentAsset].displayName} trading session initialized successfully!`);
+      alert(`${getAsset(this.currentAsset).displayName} trading session initialized successfully!`);
     } catch (error) {
       console.error(`[Session] ${this.currentAsset.toUpperCase()} initialization error:`, error);
       sessionState.error = error instanceof Error ? error.message : 'Failed to initialize trading session';
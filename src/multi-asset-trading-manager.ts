@@ -1,27 +1,69 @@
 import { TradingManager } from './trading-manager';
-import type { StrategyConfig, Trade, TradingStatus, Position } from './trading-types';
+import type { StrategyConfig, Trade, TradingStatus, Position, EntryExposure } from './trading-types';
 import type { EventDisplayData } from './event-manager';
 import type { AssetType } from './types';
+import { getAsset, getAssetIds } from './asset-registry';
+import { PortfolioRiskManager, type PortfolioExposure, type PortfolioRiskLimits } from './portfolio-risk';
 
 /**
  * Multi-Asset Trading Manager
  * Wraps multiple TradingManager instances (one per asset)
  * Keeps existing BTC code intact by using individual managers
+ * Entries on every asset go through one PortfolioRiskManager, so the assets share a single exposure budget
  */
 export class MultiAssetTradingManager {
   private managers: Map<AssetType, TradingManager> = new Map();
+  private risk: PortfolioRiskManager;
   private onStatusUpdate: ((asset: AssetType, status: TradingStatus) => void) | null = null;
   private onTradeUpdate: ((asset: AssetType, trade: Trade) => void) | null = null;
 
   constructor() {
     // Initialize trading managers for each asset
-    const assets: AssetType[] = ['btc', 'eth', 'sol', 'xrp'];
+    this.risk = new PortfolioRiskManager(() => this.getAllExposures());
+    const assets: AssetType[] = getAssetIds();
     for (const asset of assets) {
-      const manager = new TradingManager();
+      const manager = new TradingManager({ tickSize: getAsset(asset).tickSize });
+      manager.setEntryRiskCheck((request) => this.risk.approveEntry(asset, request));
       this.managers.set(asset, manager);
     }
   }
 
+  /**
+   * Wallet balance for every asset's manager and the shared risk budget
+   */
+  setWalletBalance(balance: number): void {
+    this.risk.setWalletBalance(balance);
+    for (const manager of this.managers.values()) {
+      manager.setWalletBalance(balance);
+    }
+  }
+
+  /**
+   * Portfolio caps as fractions of wallet balance (total, per asset, per window and direction)
+   */
+  setRiskLimits(limits: Partial<PortfolioRiskLimits>): void {
+    this.risk.setLimits(limits);
+  }
+
+  getRiskLimits(): PortfolioRiskLimits {
+    return this.risk.getLimits();
+  }
+
+  /**
+   * Exposure across all assets against the portfolio caps
+   */
+  getPortfolioExposure(): PortfolioExposure {
+    return this.risk.getExposure();
+  }
+
+  private getAllExposures(): Map<AssetType, EntryExposure[]> {
+    const exposures = new Map<AssetType, EntryExposure[]>();
+    for (const [asset, manager] of this.managers.entries()) {
+      exposures.set(asset, manager.getEntryExposure());
+    }
+    return exposures;
+  }
+
   /**
    * Set status update callback for all assets
    */
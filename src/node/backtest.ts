@@ -0,0 +1,58 @@
+/**
+ * Backtest CLI: replays recorded market data through the strategy from a bot config.
+ *
+ * Usage: npm run backtest -- --data data --from 2025-01-01 --to 2025-01-07 [--config bot.config.json] [--json report.json]
+ */
+import { writeFileSync } from 'node:fs';
+import { loadBotConfig } from './bot-config';
+import { listMarketDataFiles, readMarketDataFiles } from './market-data-files';
+import { Backtester, formatBacktestReport } from '../backtester';
+
+const DEFAULT_INITIAL_BALANCE = 1000;
+
+function getArg(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(`--${name}`);
+  return index !== -1 ? argv[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  const configPath = getArg(argv, 'config') ?? process.env.BOT_CONFIG ?? 'bot.config.json';
+  const dataPath = getArg(argv, 'data') ?? 'data';
+  const asset = getArg(argv, 'asset') ?? 'btc';
+  const jsonPath = getArg(argv, 'json');
+
+  const config = loadBotConfig(configPath);
+  const files = listMarketDataFiles(dataPath, asset, getArg(argv, 'from'), getArg(argv, 'to'));
+  if (files.length === 0) {
+    throw new Error(`No market data files for ${asset} in ${dataPath}`);
+  }
+  console.log('[Backtest] Replaying %d file(s) with strategy from %s', files.length, configPath);
+
+  // TradingManager logs every decision; keep the report readable
+  const log = console.log;
+  console.log = () => {};
+  let report;
+  try {
+    const backtester = new Backtester({
+      strategy: config.strategy,
+      strategyName: config.strategyName,
+      initialBalance: config.paper?.initialBalance ?? DEFAULT_INITIAL_BALANCE,
+      takerFeeBps: config.paper?.takerFeeBps,
+    });
+    report = await backtester.run(readMarketDataFiles(files));
+  } finally {
+    console.log = log;
+  }
+
+  console.log(formatBacktestReport(report));
+  if (jsonPath) {
+    writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+    console.log('[Backtest] Wrote %s', jsonPath);
+  }
+}
+
+main().catch((error) => {
+  console.error('[Backtest] Fatal:', error);
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+/**
+ * Bot config file for the headless runner.
+ * `strategy` uses the same StrategyConfig shape the UI saves, so a config exported from the browser works as-is.
+ */
+import { readFileSync } from 'node:fs';
+import type { StrategyConfig } from '../trading-types';
+import { getStrategyNames } from '../strategy';
+import { isMarketSeriesId, MARKET_SERIES, type MarketSeriesId } from '../market-series';
+import { getAssetIds, hasAsset, registerAssets, type AssetDefinition } from '../asset-registry';
+import { isPriceSource, PRICE_SOURCES } from '../price-consensus';
+
+export interface BotConfig {
+  strategy: Partial<StrategyConfig>;
+  strategyName?: string; // Entry strategy (default 'late-favourite')
+  series?: MarketSeriesId; // Up/Down market cadence: 5m, 15m (default), 1h, 4h or 1d
+  asset?: string; // Asset id from the registry to trade (default 'btc')
+  assets?: AssetDefinition[]; // Extra asset definitions (e.g. DOGE), registered on load on top of constants/assets.json
+  stateFile: string; // JSON file that replaces localStorage (strategy + trade history)
+  eventRefreshMs: number; // How often to reload the event list
+  balanceRefreshMs: number; // How often to refresh USDC balance (drives max position size)
+  autoRedeem: boolean; // Redeem winning tokens on-chain once markets resolve
+  paper?: { initialBalance: number; takerFeeBps?: number }; // Paper trade against live books instead of placing real orders
+}
+
+const DEFAULT_BOT_CONFIG: Omit<BotConfig, 'strategy'> = {
+  stateFile: 'data/bot-state.json',
+  eventRefreshMs: 60_000,
+  balanceRefreshMs: 60_000,
+  autoRedeem: true,
+};
+
+const NUMERIC_STRATEGY_FIELDS: Array<keyof StrategyConfig> = [
+  'entryPrice',
+  'profitTargetPrice',
+  'stopLossPrice',
+  'tradeSize',
+  'kellyFraction',
+  'maxEventSizeUsd',
+  'maxDailySizeUsd',
+  'maxPositionFraction',
+  'priceDifference',
+  'minEdge',
+  'flipGuardPendingDistanceUsd',
+  'flipGuardFilledDistanceUsd',
+  'flipGuardPendingFlipProbability',
+  'flipGuardFilledFlipProbability',
+  'flipGuardVolatilityWindowSeconds',
+  'entryTimeRemainingMaxSeconds',
+  'staleFeedBlockEntriesSeconds',
+  'staleFeedCancelBidsSeconds',
+  'staleFeedFlattenSeconds',
+  'maxDailyLossUsd',
+  'maxRollingLossUsd',
+  'rollingLossWindowHours',
+  'maxConsecutiveLosingEvents',
+  'maxDrawdownUsd',
+];
+
+/** Read and validate a bot config file. Throws with a readable message on bad input. */
+export function loadBotConfig(filePath: string): BotConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read bot config ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Bot config ${filePath} must be a JSON object`);
+  }
+
+  const input = raw as Partial<BotConfig>;
+  const strategy = (input.strategy ?? {}) as Partial<StrategyConfig>;
+  for (const field of NUMERIC_STRATEGY_FIELDS) {
+    const value = strategy[field];
+    if (value !== undefined && value !== null && (typeof value !== 'number' || !Number.isFinite(value))) {
+      throw new Error(`strategy.${field} must be a number`);
+    }
+  }
+  if (strategy.tradeSizeUnit !== undefined && !['USD', 'shares', 'kelly'].includes(strategy.tradeSizeUnit)) {
+    throw new Error("strategy.tradeSizeUnit must be 'USD', 'shares' or 'kelly'");
+  }
+  if (strategy.flipGuardMode !== undefined && strategy.flipGuardMode !== 'fixed' && strategy.flipGuardMode !== 'volatility') {
+    throw new Error("strategy.flipGuardMode must be 'fixed' or 'volatility'");
+  }
+  for (const field of ['flipGuardPendingFlipProbability', 'flipGuardFilledFlipProbability'] as const) {
+    const value = strategy[field];
+    if (value !== undefined && !(value > 0 && value < 0.5)) {
+      throw new Error(`strategy.${field} must be between 0 and 0.5`);
+    }
+  }
+  if (strategy.killSwitchFlatten !== undefined && typeof strategy.killSwitchFlatten !== 'boolean') {
+    throw new Error('strategy.killSwitchFlatten must be true or false');
+  }
+  for (const field of ['priceDifferenceSource', 'flipGuardPriceSource'] as const) {
+    if (strategy[field] !== undefined && !isPriceSource(strategy[field])) {
+      throw new Error(`strategy.${field} must be one of: ${PRICE_SOURCES.join(', ')}`);
+    }
+  }
+
+  if (input.strategyName !== undefined && !getStrategyNames().includes(input.strategyName)) {
+    throw new Error(`strategyName must be one of: ${getStrategyNames().join(', ')}`);
+  }
+
+  if (input.series !== undefined && !isMarketSeriesId(input.series)) {
+    throw new Error(`series must be one of: ${Object.keys(MARKET_SERIES).join(', ')}`);
+  }
+
+  if (input.assets !== undefined) {
+    registerAssets(input.assets);
+  }
+  if (input.asset !== undefined && (typeof input.asset !== 'string' || !hasAsset(input.asset))) {
+    throw new Error(`asset must be one of: ${getAssetIds().join(', ')}`);
+  }
+
+  if (input.paper !== undefined) {
+    if (typeof input.paper?.initialBalance !== 'number' || !(input.paper.initialBalance > 0)) {
+      throw new Error('paper.initialBalance must be a positive number');
+    }
+  }
+
+  return {
+    ...DEFAULT_BOT_CONFIG,
+    ...input,
+    strategy,
+  };
+}
@@ -0,0 +1,211 @@
+/**
+ * Headless bot runner: wires WebSocketClient, EventManager, TradingManager and RedemptionService
+ * together in Node so the strategy can run without the browser UI.
+ *
+ * Usage: npm run bot -- --config bot.config.json [--reset-kill-switch]
+ */
+import { existsSync } from 'node:fs';
+import WebSocket from 'ws';
+import { installStructuredLogger } from './logger';
+import { FileStore } from './file-store';
+import { loadBotConfig } from './bot-config';
+import { createClobExchangeStateSource, createClobSession, fetchUsdcBalance, redeemPositions } from './clob-session';
+import { WebSocketClient, type WebSocketConstructor } from '../websocket-client';
+import { MarketBookClient } from '../market-book-client';
+import { UserChannelClient } from '../user-channel-client';
+import { EventManager } from '../event-manager';
+import { PriceToBeatTracker } from '../price-to-beat';
+import { getMarketSeries } from '../market-series';
+import { TradingManager } from '../trading-manager';
+import { createStrategy } from '../strategy';
+import { RedemptionService, type RedeemFn } from '../redemption-service';
+import { PaperTradingEngine, LiveBookSource, createPaperRedeem, createPaperExchangeStateSource } from '../paper-trading';
+import type { ExchangeStateSource } from '../exchange-state';
+import { PolymarketAPI } from '../polymarket-api';
+import { getAsset } from '../asset-registry';
+import type { PriceUpdate } from '../types';
+import { GAMMA_API_URL } from '../../constants/polymarket';
+
+function getConfigPath(argv: string[]): string {
+  const index = argv.indexOf('--config');
+  if (index !== -1 && argv[index + 1]) return argv[index + 1];
+  return process.env.BOT_CONFIG || 'bot.config.json';
+}
+
+async function main(): Promise<void> {
+  installStructuredLogger();
+  if (existsSync('.env')) {
+    process.loadEnvFile('.env');
+  }
+
+  const configPath = getConfigPath(process.argv.slice(2));
+  const config = loadBotConfig(configPath);
+  console.log('[Bot] Loaded config from %s', configPath);
+
+  PolymarketAPI.setBaseUrl(GAMMA_API_URL);
+
+  const asset = getAsset(config.asset ?? 'btc');
+  const tradingManager = new TradingManager({
+    storage: new FileStore(config.stateFile),
+    storageNamespace: config.paper ? 'paper' : undefined, // Paper trades, positions and orders stay apart from live state
+    strategy: createStrategy(config.strategyName),
+    tickSize: asset.tickSize,
+  });
+  tradingManager.loadStrategyConfig();
+  tradingManager.loadTrades();
+  tradingManager.setStrategyConfig(config.strategy); // File config wins over persisted state
+  tradingManager.setOnTradeUpdate((trade) => {
+    console.log('[Bot] Trade %s %s %s @ %s: %s', trade.status, trade.side, trade.direction ?? '', trade.price, trade.reason);
+  });
+  await tradingManager.restoreState(); // Positions, orders and active event from the last run (same stateFile and mode)
+  if (process.argv.includes('--reset-kill-switch')) {
+    tradingManager.resetKillSwitch();
+  } else if (tradingManager.getStatus().killSwitch) {
+    console.warn('[Bot] Kill switch is tripped (%s); no new entries until restarted with --reset-kill-switch', tradingManager.getStatus().killSwitch!.reason);
+  }
+
+  // UP/DOWN books stream over the CLOB market socket; book changes trigger an evaluation
+  const marketBooks = new MarketBookClient(WebSocket as unknown as WebSocketConstructor);
+  marketBooks.setCallbacks(
+    (tokenId) => tradingManager.handleBookUpdate(tokenId),
+    (status) => {
+      if (status.error) {
+        console.warn('[Bot] Book feed error: %s', status.error);
+      } else {
+        console.log('[Bot] Book feed %s (%s token(s))', status.connected ? 'connected' : 'disconnected', status.assetIds.length);
+      }
+    }
+  );
+  tradingManager.setBookSource(marketBooks);
+
+  let fetchBalance: () => Promise<number>;
+  let redeem: RedeemFn;
+  let exchangeState: ExchangeStateSource;
+  let userChannel: UserChannelClient | null = null;
+  if (config.paper) {
+    const engine = new PaperTradingEngine({
+      initialBalance: config.paper.initialBalance,
+      takerFeeBps: config.paper.takerFeeBps,
+      books: new LiveBookSource(1000, marketBooks),
+    });
+    engine.setOnBalanceChange((balance) => tradingManager.setWalletBalance(balance));
+    tradingManager.setBrowserClobClient(engine);
+    fetchBalance = async () => engine.getBalance();
+    redeem = createPaperRedeem(engine);
+    exchangeState = createPaperExchangeStateSource(engine);
+    console.log('[Bot] Paper trading with %s virtual USDC', config.paper.initialBalance);
+  } else {
+    const privateKey = process.env.POLYMARKET_MAGIC_PK;
+    if (!privateKey) {
+      throw new Error('Wallet not configured. Set POLYMARKET_MAGIC_PK.');
+    }
+    const session = await createClobSession(privateKey);
+    tradingManager.setApiCredentials(session.apiCredentials);
+    tradingManager.setBrowserClobClient(session.clobClient);
+    fetchBalance = () => fetchUsdcBalance(session);
+    redeem = (conditionId, indexSet) => redeemPositions(session, conditionId, indexSet);
+    exchangeState = createClobExchangeStateSource(session);
+
+    // Fills and order status are pushed over the user channel; order polling slows to a safety net while it is up
+    userChannel = new UserChannelClient(WebSocket as unknown as WebSocketConstructor);
+    userChannel.setCallbacks(
+      (event) => tradingManager.handleUserChannelEvent(event),
+      (status) => {
+        if (status.error) console.warn('[Bot] User channel error: %s', status.error);
+        tradingManager.setUserChannelConnected(status.connected);
+      }
+    );
+    userChannel.connect(session.apiCredentials);
+  }
+  await tradingManager.syncWithExchange(exchangeState);
+
+  const eventManager = new EventManager(asset.id, getMarketSeries(config.series));
+  console.log('[Bot] Trading %s Up/Down %s markets', asset.displayName, eventManager.getSeries().label);
+  const priceToBeatTracker = new PriceToBeatTracker(); // Opening price per event; provisional (no entries) until confirmed
+  let currentPrice: number | null = null;
+
+  const onPriceUpdate = (update: PriceUpdate): void => {
+    if (update.payload.symbol !== asset.symbol) return;
+    currentPrice = update.payload.value;
+    priceToBeatTracker.recordTick(update.payload.timestamp, currentPrice);
+
+    const activeEvent = eventManager.getEvents().find((e) => e.status === 'active') ?? null;
+    const priceToBeat = activeEvent ? priceToBeatTracker.update(activeEvent, currentPrice) : null;
+    marketBooks.setAssetIds(activeEvent?.clobTokenIds ?? []);
+    tradingManager.updateMarketData(currentPrice, priceToBeat?.value ?? null, activeEvent, priceToBeat?.status);
+  };
+
+  const wsClient = new WebSocketClient(WebSocket as unknown as WebSocketConstructor);
+  wsClient.setCallbacks(onPriceUpdate, (status) => {
+    tradingManager.setPriceFeedStale(status.stale);
+    if (status.error) {
+      console.warn('[Bot] Price feed error: %s', status.error);
+    } else if (!status.lastUpdate) {
+      console.log('[Bot] Price feed %s', status.connected ? (status.stale ? 'stale' : 'connected') : 'disconnected');
+    }
+  });
+  wsClient.setOnConsensusUpdate((consensus) => {
+    if (consensus.asset === asset.id) tradingManager.updateReferencePrices(consensus);
+  });
+
+  const refreshBalance = async (): Promise<void> => {
+    try {
+      const balance = await fetchBalance();
+      tradingManager.setWalletBalance(balance);
+      console.log('[Bot] Wallet balance: %s USDC', balance.toFixed(2));
+    } catch (error) {
+      console.warn('[Bot] Balance fetch failed:', error);
+    }
+  };
+
+  const redemptionService = new RedemptionService({
+    getPositions: () => tradingManager.getPositions(),
+    removePositions: (ids, resolution) => tradingManager.removePositionsByIds(ids, resolution),
+    redeem,
+    onRedemptionSuccess: (eventSlug, positionIds) => {
+      console.log('[Redemption] Redeemed winning tokens:', eventSlug, positionIds.length, 'position(s)');
+      refreshBalance();
+    },
+    onRedemptionError: (eventSlug, error) => {
+      console.warn('[Redemption] Error for', eventSlug, error);
+    },
+  });
+
+  await eventManager.loadEvents();
+  eventManager.startAutoRefresh(config.eventRefreshMs);
+  await refreshBalance();
+  const balanceInterval = setInterval(refreshBalance, config.balanceRefreshMs);
+  wsClient.connect();
+  if (config.autoRedeem) {
+    redemptionService.start();
+  }
+
+  if (tradingManager.getStrategyConfig().enabled) {
+    tradingManager.startTrading();
+  } else {
+    console.warn('[Bot] strategy.enabled is false - streaming prices only, no orders will be placed');
+  }
+
+  const shutdown = (signal: string): void => {
+    console.log('[Bot] %s received, shutting down', signal);
+    tradingManager.stopTrading();
+    redemptionService.stop();
+    eventManager.stopAutoRefresh();
+    clearInterval(balanceInterval);
+    wsClient.disconnect();
+    marketBooks.disconnect();
+    userChannel?.disconnect();
+    const open = tradingManager.getPositions().length;
+    if (open > 0) {
+      console.warn('[Bot] Exiting with %s open position(s); they are not closed automatically', open);
+    }
+    process.exit(0);
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+main().catch((error) => {
+  console.error('[Bot] Fatal:', error);
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+/**
+ * CLOB + wallet setup for the headless runner.
+ * Same flow as /api/wallet/initialize and createBrowserClobClient, but in-process:
+ * derive (or create) user API credentials, then build an authenticated ClobClient funded by the proxy wallet.
+ */
+import { ClobClient } from '@polymarket/clob-client';
+import { BuilderConfig } from '@polymarket/builder-signing-sdk';
+import { Wallet, providers, Contract } from 'ethers';
+import { deriveProxyAddress } from '../../utils/proxyWallet';
+import { CLOB_API_URL, DATA_API_URL, POLYGON_CHAIN_ID, POLYGON_RPC_URL, USDC_E_ADDRESS } from '../../constants/polymarket';
+import { parseDataApiPositions, type ExchangeStateSource } from '../exchange-state';
+
+const CTF_ADDRESS = '0x4D97DCd97eC945f40cF65F87097ACe5EA0476045';
+const PARENT_COLLECTION_ID = '0x' + '0'.repeat(64);
+
+const ERC20_ABI = ['function balanceOf(address owner) view returns (uint256)'];
+const CTF_ABI = [
+  'function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)',
+];
+const PROXY_ABI = ['function execute(address destination, uint256 value, bytes memory data)'];
+
+export interface ApiCredentials {
+  key: string;
+  secret: string;
+  passphrase: string;
+}
+
+export interface ClobSession {
+  clobClient: ClobClient;
+  apiCredentials: ApiCredentials;
+  wallet: Wallet;
+  proxyAddress: string;
+}
+
+async function deriveOrCreateApiCredentials(wallet: Wallet): Promise<ApiCredentials> {
+  const l1Client = new ClobClient(CLOB_API_URL, POLYGON_CHAIN_ID, wallet);
+  try {
+    const derived = await l1Client.deriveApiKey();
+    if (derived?.key && derived?.secret && derived?.passphrase) {
+      console.log('[ClobSession] Derived existing User API Credentials');
+      return derived;
+    }
+  } catch {
+    console.log('[ClobSession] Failed to derive existing User API Credentials, creating new ones...');
+  }
+  const created = await l1Client.createApiKey();
+  if (!created?.key || !created?.secret || !created?.passphrase) {
+    throw new Error('Failed to create API credentials');
+  }
+  console.log('[ClobSession] Created new User API Credentials');
+  return created;
+}
+
+/** Builder attribution with local creds when POLYMARKET_BUILDER_* are set (no remote signing server in Node). */
+function getBuilderConfig(): BuilderConfig | undefined {
+  const key = process.env.POLYMARKET_BUILDER_API_KEY;
+  const secret = process.env.POLYMARKET_BUILDER_SECRET;
+  const passphrase = process.env.POLYMARKET_BUILDER_PASSPHRASE;
+  if (!key || !secret || !passphrase) return undefined;
+  return new BuilderConfig({ localBuilderCreds: { key, secret, passphrase } });
+}
+
+export async function createClobSession(privateKey: string): Promise<ClobSession> {
+  const provider = new providers.JsonRpcProvider(POLYGON_RPC_URL);
+  const wallet = new Wallet(privateKey, provider);
+  const proxyAddress = deriveProxyAddress(wallet.address);
+  const apiCredentials = await deriveOrCreateApiCredentials(wallet);
+
+  const clobClient = new ClobClient(
+    CLOB_API_URL,
+    POLYGON_CHAIN_ID,
+    wallet,
+    apiCredentials,
+    1, // signatureType = 1 for EOA
+    proxyAddress,
+    undefined,
+    false,
+    getBuilderConfig()
+  );
+
+  console.log('[ClobSession] Initialized:', { walletAddress: wallet.address, proxyAddress });
+  return { clobClient, apiCredentials, wallet, proxyAddress };
+}
+
+/** USDC.e balance of the proxy wallet, in USDC. */
+export async function fetchUsdcBalance(session: ClobSession): Promise<number> {
+  const usdc = new Contract(USDC_E_ADDRESS, ERC20_ABI, session.wallet.provider);
+  const raw = await usdc.balanceOf(session.proxyAddress);
+  return Number(raw.toString()) / 1e6;
+}
+
+/** Token balances from the Data API and open orders from the CLOB (the data behind /api/positions and /api/orders). */
+export function createClobExchangeStateSource(session: ClobSession): ExchangeStateSource {
+  return {
+    async fetchState() {
+      const response = await fetch(`${DATA_API_URL}/positions?user=${encodeURIComponent(session.proxyAddress)}&limit=500`);
+      if (!response.ok) throw new Error(`Data API positions returned ${response.status}`);
+      const rows = await response.json();
+      const openOrders = await session.clobClient.getOpenOrders();
+      return { positions: parseDataApiPositions(Array.isArray(rows) ? rows : []), openOrders };
+    },
+  };
+}
+
+/** Redeem one outcome (indexSet 1 = YES/UP, 2 = NO/DOWN) through the proxy wallet, like /api/redeem. */
+export async function redeemPositions(
+  session: ClobSession,
+  conditionId: string,
+  indexSet: number
+): Promise<{ success: boolean; transactionHash?: string }> {
+  const hex = conditionId.startsWith('0x') ? conditionId.slice(2) : conditionId;
+  const conditionIdBytes32 = '0x' + hex.padStart(64, '0').slice(-64);
+
+  const ctf = new Contract(CTF_ADDRESS, CTF_ABI, session.wallet.provider);
+  const redeemCalldata = ctf.interface.encodeFunctionData('redeemPositions', [
+    USDC_E_ADDRESS,
+    PARENT_COLLECTION_ID,
+    conditionIdBytes32,
+    [indexSet],
+  ]);
+
+  const proxy = new Contract(session.proxyAddress, PROXY_ABI, session.wallet);
+  const tx = await proxy.execute(CTF_ADDRESS, 0, redeemCalldata);
+  const receipt = await tx.wait();
+  return { success: receipt?.status === 1, transactionHash: receipt?.transactionHash };
+}
@@ -0,0 +1,51 @@
+/**
+ * File-backed KeyValueStore for the headless runner (stands in for localStorage).
+ * All keys live in one JSON file; writes go through a temp file + rename so a crash never leaves it half-written.
+ */
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { KeyValueStore } from '../storage';
+
+export class FileStore implements KeyValueStore {
+  private filePath: string;
+  private data: Map<string, string> = new Map();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  getItem(key: string): string | null {
+    return this.data.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.data.set(key, value);
+    this.flush();
+  }
+
+  removeItem(key: string): void {
+    if (this.data.delete(key)) {
+      this.flush();
+    }
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) return;
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, 'utf8')) as Record<string, string>;
+      for (const [key, value] of Object.entries(parsed)) {
+        if (typeof value === 'string') this.data.set(key, value);
+      }
+    } catch (error) {
+      console.warn('[FileStore] Failed to read %s, starting empty:', this.filePath, error);
+    }
+  }
+
+  private flush(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(this.data), null, 2));
+    renameSync(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Structured stdout logging for the headless runner.
+ * Core classes log with console.log('[Scope] message', ...args); this rewrites every console call
+ * into one JSON line so logs can be shipped to any collector without touching the shared code.
+ */
+import { format } from 'node:util';
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const SCOPE_PATTERN = /^\[([^\]]+)\]\s*/;
+
+function writeLine(level: LogLevel, args: unknown[]): void {
+  let message = format(...args);
+  let scope: string | undefined;
+  const match = SCOPE_PATTERN.exec(message);
+  if (match) {
+    scope = match[1];
+    message = message.slice(match[0].length);
+  }
+  const line = JSON.stringify({ ts: new Date().toISOString(), level, scope, msg: message });
+  if (level === 'error' || level === 'warn') {
+    process.stderr.write(line + '\n');
+  } else {
+    process.stdout.write(line + '\n');
+  }
+}
+
+/** Replace console.* with JSON-line writers. Call once at process start. */
+export function installStructuredLogger(): void {
+  console.debug = (...args: unknown[]) => writeLine('debug', args);
+  console.log = (...args: unknown[]) => writeLine('info', args);
+  console.info = (...args: unknown[]) => writeLine('info', args);
+  console.warn = (...args: unknown[]) => writeLine('warn', args);
+  console.error = (...args: unknown[]) => writeLine('error', args);
+}
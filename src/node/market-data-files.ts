@@ -0,0 +1,51 @@
+/**
+ * Node-side readers for recorded market data (NDJSON, optionally gzipped).
+ * Layout written by the recorder: <dataDir>/<asset>/<YYYY-MM-DD>.ndjson.gz
+ */
+import { createReadStream, existsSync, readdirSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+import { createGunzip } from 'node:zlib';
+import { parseMarketDataLine, type MarketDataRecord } from '../market-data';
+
+const DATA_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.(ndjson|jsonl)(\.gz)?$/;
+
+/** Stream records from one file. Throws with file:line context on malformed lines. */
+export async function* readMarketDataFile(path: string): AsyncGenerator<MarketDataRecord> {
+  const input = path.endsWith('.gz') ? createReadStream(path).pipe(createGunzip()) : createReadStream(path);
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    let record: MarketDataRecord | null;
+    try {
+      record = parseMarketDataLine(line);
+    } catch (error) {
+      throw new Error(`${path}:${lineNumber}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (record) yield record;
+  }
+}
+
+/**
+ * List daily files for an asset, oldest first. `from`/`to` are inclusive YYYY-MM-DD dates.
+ * A path to a single file is returned as-is.
+ */
+export function listMarketDataFiles(path: string, asset: string, from?: string, to?: string): string[] {
+  if (!existsSync(path)) throw new Error(`Market data path not found: ${path}`);
+  if (statSync(path).isFile()) return [path];
+
+  const assetDir = existsSync(join(path, asset)) ? join(path, asset) : path;
+  return readdirSync(assetDir)
+    .map((name) => ({ name, match: DATA_FILE_PATTERN.exec(name) }))
+    .filter(({ match }) => match && (!from || match[1] >= from) && (!to || match[1] <= to))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(({ name }) => join(assetDir, name));
+}
+
+/** Read several files back to back (daily files are already in time order). */
+export async function* readMarketDataFiles(paths: string[]): AsyncGenerator<MarketDataRecord> {
+  for (const path of paths) {
+    yield* readMarketDataFile(path);
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Appends market data records to <dataDir>/<asset>/<YYYY-MM-DD>.ndjson.gz (UTC day of the record ts).
+ * Restarting on the same day appends a new gzip member to the existing file; gunzip reads both.
+ */
+import { createWriteStream, mkdirSync, type WriteStream } from 'node:fs';
+import { join } from 'node:path';
+import { createGzip, type Gzip } from 'node:zlib';
+import type { MarketDataRecord } from '../market-data';
+
+interface OpenFile {
+  day: string;
+  path: string;
+  gzip: Gzip;
+  output: WriteStream;
+  lastTs: number;
+}
+
+export class MarketDataWriter {
+  private dataDir: string;
+  private files: Map<string, OpenFile> = new Map(); // asset -> current day file
+  private onFileOpened: ((asset: string, path: string) => void) | null = null;
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+  }
+
+  /** Called after a new day file is opened, before the record that triggered it is written. */
+  setOnFileOpened(callback: (asset: string, path: string) => void): void {
+    this.onFileOpened = callback;
+  }
+
+  /** Write one record. ts is clamped to be non-decreasing per asset so files stay replayable in order. */
+  write(asset: string, record: MarketDataRecord): void {
+    const day = new Date(record.ts).toISOString().slice(0, 10);
+    let file = this.files.get(asset);
+    if (!file || file.day !== day) {
+      const previous = file;
+      if (previous) this.closeFile(previous);
+      file = this.openFile(asset, day, previous?.lastTs ?? 0);
+      this.onFileOpened?.(asset, file.path);
+    }
+    if (record.ts < file.lastTs) record = { ...record, ts: file.lastTs };
+    file.lastTs = record.ts;
+    file.gzip.write(JSON.stringify(record) + '\n');
+  }
+
+  /** Push buffered data to disk so a crash loses at most one flush interval. */
+  flush(): void {
+    for (const file of this.files.values()) file.gzip.flush();
+  }
+
+  async close(): Promise<void> {
+    const files = [...this.files.values()];
+    this.files.clear();
+    await Promise.all(files.map((file) => this.closeFile(file)));
+  }
+
+  private openFile(asset: string, day: string, lastTs: number): OpenFile {
+    const dir = join(this.dataDir, asset);
+    mkdirSync(dir, { recursive: true });
+    const path = join(dir, `${day}.ndjson.gz`);
+    const gzip = createGzip();
+    const output = createWriteStream(path, { flags: 'a' });
+    gzip.pipe(output);
+    output.on('error', (error) => console.error('[MarketDataWriter] Write failed for %s:', path, error));
+    const file: OpenFile = { day, path, gzip, output, lastTs };
+    this.files.set(asset, file);
+    console.log('[MarketDataWriter] Writing %s', path);
+    return file;
+  }
+
+  private closeFile(file: OpenFile): Promise<void> {
+    return new Promise((resolve) => {
+      file.output.once('close', () => resolve());
+      file.gzip.end(); // Ends the piped file stream once compressed data is flushed
+    });
+  }
+}
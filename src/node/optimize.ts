@@ -0,0 +1,86 @@
+/**
+ * Optimizer CLI: sweeps StrategyConfig parameters over recorded market data with walk-forward validation.
+ *
+ * Usage: npm run optimize -- --grid grid.json --data data --from 2025-01-01 --to 2025-01-31
+ *          [--config bot.config.json] [--segments 4] [--top 20] [--json optimizer-report.json]
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { loadBotConfig } from './bot-config';
+import { listMarketDataFiles, readMarketDataFiles } from './market-data-files';
+import { VOLATILITY_SWEEP_PARAMETERS, formatOptimizerReport, parseParameterGrid, runOptimizer } from '../optimizer';
+import type { MarketDataRecord } from '../market-data';
+
+const DEFAULT_INITIAL_BALANCE = 1000;
+
+function getArg(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(`--${name}`);
+  return index !== -1 ? argv[index + 1] : undefined;
+}
+
+/** Integer option of at least `min`; throws on anything else (e.g. --segments 2.5 or --top abc). */
+function parseIntegerArg(argv: string[], name: string, fallback: number, min: number): number {
+  const raw = getArg(argv, name);
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`--${name} must be an integer >= ${min} (got "${raw}")`);
+  }
+  return value;
+}
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  const gridPath = getArg(argv, 'grid');
+  if (!gridPath) throw new Error('--grid <file> is required');
+  const configPath = getArg(argv, 'config') ?? process.env.BOT_CONFIG ?? 'bot.config.json';
+  const dataPath = getArg(argv, 'data') ?? 'data';
+  const asset = getArg(argv, 'asset') ?? 'btc';
+  const jsonPath = getArg(argv, 'json') ?? 'optimizer-report.json';
+  const segments = parseIntegerArg(argv, 'segments', 4, 2);
+  const top = parseIntegerArg(argv, 'top', 20, 1);
+
+  const config = loadBotConfig(configPath);
+  const grid = parseParameterGrid(JSON.parse(readFileSync(gridPath, 'utf8')));
+  const ignored = VOLATILITY_SWEEP_PARAMETERS.filter((key) => grid[key]);
+  if (ignored.length > 0 && config.strategy.flipGuardMode !== 'volatility') {
+    console.warn("[Optimize] Not sweeping %s: strategy.flipGuardMode is not 'volatility'", ignored.join(', '));
+  }
+  const files = listMarketDataFiles(dataPath, asset, getArg(argv, 'from'), getArg(argv, 'to'));
+  if (files.length === 0) {
+    throw new Error(`No market data files for ${asset} in ${dataPath}`);
+  }
+
+  // Every candidate replays the same data, so load it once
+  const records: MarketDataRecord[] = [];
+  for await (const record of readMarketDataFiles(files)) records.push(record);
+  console.log('[Optimize] Loaded %d records from %d file(s)', records.length, files.length);
+
+  const log = console.log;
+  console.log = () => {};
+  let report;
+  try {
+    report = await runOptimizer(records, {
+      baseStrategy: config.strategy,
+      strategyName: config.strategyName,
+      grid,
+      initialBalance: config.paper?.initialBalance ?? DEFAULT_INITIAL_BALANCE,
+      takerFeeBps: config.paper?.takerFeeBps,
+      segments,
+      onProgress: (done, total) => {
+        if (done % 10 === 0 || done === total) process.stderr.write(`\r[Optimize] ${done}/${total} backtests`);
+      },
+    });
+  } finally {
+    console.log = log;
+    process.stderr.write('\n');
+  }
+
+  console.log(formatOptimizerReport(report, top));
+  writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+  console.log('[Optimize] Wrote %s (use it as --config to run the best candidate)', jsonPath);
+}
+
+main().catch((error) => {
+  console.error('[Optimize] Fatal:', error);
+  process.exit(1);
+});
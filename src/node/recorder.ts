@@ -0,0 +1,253 @@
+/**
+ * Market data recorder: streams Chainlink ticks and polls UP/DOWN books for every event the EventManager knows about,
+ * writing the NDJSON format from src/market-data.ts so sessions can be replayed by the backtester.
+ *
+ * Usage: npm run record -- [--assets btc,eth] [--series 15m] [--data data] [--book-interval-ms 2000] [--depth 20]
+ */
+import WebSocket from 'ws';
+import { installStructuredLogger } from './logger';
+import { MarketDataWriter } from './market-data-writer';
+import { WebSocketClient, type WebSocketConstructor } from '../websocket-client';
+import { EventManager, type EventDisplayData } from '../event-manager';
+import { getMarketSeries, type MarketSeries } from '../market-series';
+import { CLOBClientWrapper } from '../clob-client';
+import { PolymarketAPI } from '../polymarket-api';
+import { normalizeBookLevels } from '../paper-trading';
+import { normalizeOutcomePrices } from '../redemption-service';
+import type { EventRecord } from '../market-data';
+import { getAsset } from '../asset-registry';
+import type { AssetType, PriceUpdate } from '../types';
+import { GAMMA_API_URL } from '../../constants/polymarket';
+
+const EVENT_REFRESH_MS = 60_000;
+const QUOTE_INTERVAL_MS = 30_000; // Upcoming events: top of book only, less often
+const RESOLUTION_CHECK_MS = 30_000;
+const RESOLUTION_GIVE_UP_MS = 2 * 60 * 60 * 1000; // Stop polling Gamma for an event 2h after it ends
+const FLUSH_INTERVAL_MS = 10_000;
+
+interface RecorderOptions {
+  assets: AssetType[];
+  series: MarketSeries;
+  dataDir: string;
+  bookIntervalMs: number;
+  depth: number;
+}
+
+interface TrackedEvent {
+  asset: AssetType;
+  record: EventRecord;
+  lastQuoteMs: number;
+}
+
+function getArg(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(`--${name}`);
+  return index !== -1 ? argv[index + 1] : undefined;
+}
+
+function parseOptions(argv: string[]): RecorderOptions {
+  const assets = (getArg(argv, 'assets') ?? 'btc').split(',').map((a) => a.trim()) as AssetType[];
+  assets.forEach(getAsset); // Throws on an unknown asset
+  const bookIntervalMs = Number(getArg(argv, 'book-interval-ms') ?? 2000);
+  const depth = Number(getArg(argv, 'depth') ?? 20);
+  if (!(bookIntervalMs > 0) || !(depth > 0)) throw new Error('--book-interval-ms and --depth must be positive');
+  const series = getMarketSeries(getArg(argv, 'series'));
+  return { assets, series, dataDir: getArg(argv, 'data') ?? 'data', bookIntervalMs, depth };
+}
+
+class MarketDataRecorder {
+  private options: RecorderOptions;
+  private writer: MarketDataWriter;
+  private clobClient = new CLOBClientWrapper();
+  private wsClient = new WebSocketClient(WebSocket as unknown as WebSocketConstructor);
+  private eventManagers: Map<AssetType, EventManager> = new Map();
+  private events: Map<string, TrackedEvent> = new Map(); // Slug -> event until its resolution is recorded
+  private assetBySymbol: Map<string, AssetType> = new Map();
+  private intervals: Array<ReturnType<typeof setInterval>> = [];
+  private polling = false;
+
+  constructor(options: RecorderOptions) {
+    this.options = options;
+    this.writer = new MarketDataWriter(options.dataDir);
+    // Every day file starts with the events still in play so it can be replayed on its own
+    this.writer.setOnFileOpened((asset) => {
+      for (const tracked of this.events.values()) {
+        if (tracked.asset === asset) this.writer.write(asset, { ...tracked.record, ts: Date.now() });
+      }
+    });
+    for (const asset of options.assets) {
+      this.assetBySymbol.set(getAsset(asset).symbol, asset);
+    }
+  }
+
+  async start(): Promise<void> {
+    for (const asset of this.options.assets) {
+      const eventManager = new EventManager(asset, this.options.series);
+      eventManager.setOnEventsUpdated(() => this.trackEvents(asset, eventManager.getEvents()));
+      this.eventManagers.set(asset, eventManager);
+      await eventManager.loadEvents();
+      this.trackEvents(asset, eventManager.getEvents());
+      eventManager.startAutoRefresh(EVENT_REFRESH_MS);
+    }
+
+    this.wsClient.setCallbacks(
+      (update) => this.onPriceUpdate(update),
+      (status) => {
+        if (status.error) console.warn('[Recorder] Price feed error: %s', status.error);
+        else if (!status.lastUpdate) console.log('[Recorder] Price feed %s', status.connected ? (status.stale ? 'stale' : 'connected') : 'disconnected');
+      }
+    );
+    this.wsClient.connect();
+
+    this.intervals.push(setInterval(() => this.pollBooks(), this.options.bookIntervalMs));
+    this.intervals.push(setInterval(() => this.checkResolutions(), RESOLUTION_CHECK_MS));
+    this.intervals.push(setInterval(() => this.writer.flush(), FLUSH_INTERVAL_MS));
+    console.log('[Recorder] Recording %s %s markets to %s', this.options.assets.join(', '), this.options.series.label, this.options.dataDir);
+  }
+
+  async stop(): Promise<void> {
+    for (const interval of this.intervals) clearInterval(interval);
+    this.intervals = [];
+    for (const eventManager of this.eventManagers.values()) eventManager.stopAutoRefresh();
+    this.wsClient.disconnect();
+    await this.writer.close();
+  }
+
+  /** Start tracking events with token IDs; write their metadata once. */
+  private trackEvents(asset: AssetType, events: EventDisplayData[]): void {
+    for (const event of events) {
+      if (this.events.has(event.slug) || event.status === 'expired') continue;
+      const [upTokenId, downTokenId] = event.clobTokenIds ?? [];
+      if (!upTokenId || !downTokenId) continue;
+      const record: EventRecord = {
+        type: 'event',
+        ts: Date.now(),
+        slug: event.slug,
+        startTs: event.timestamp,
+        endTs: Math.floor(new Date(event.endDate).getTime() / 1000),
+        upTokenId,
+        downTokenId,
+        conditionId: event.conditionId,
+      };
+      this.events.set(event.slug, { asset, record, lastQuoteMs: 0 });
+      this.writer.write(asset, record);
+    }
+  }
+
+  private onPriceUpdate(update: PriceUpdate): void {
+    const asset = this.assetBySymbol.get(update.payload.symbol);
+    if (!asset) return;
+    const now = Date.now();
+    const { value, timestamp } = update.payload;
+    this.writer.write(asset, { type: 'tick', ts: now, value, sourceTs: timestamp });
+
+    // Price to beat: first tick stamped at or after the start, only for events we were already tracking before they started
+    for (const tracked of this.events.values()) {
+      const { record } = tracked;
+      if (tracked.asset !== asset || record.priceToBeat !== undefined || record.ts > record.startTs * 1000) continue;
+      if (timestamp >= record.startTs * 1000 && timestamp < record.endTs * 1000) {
+        tracked.record = { ...record, ts: now, priceToBeat: value };
+        this.writer.write(asset, tracked.record);
+        console.log('[Recorder] Price to beat for %s: %s', record.slug, value);
+      }
+    }
+  }
+
+  /** Full books for active events every tick of the poll; best bid/ask for upcoming ones every QUOTE_INTERVAL_MS. */
+  private async pollBooks(): Promise<void> {
+    if (this.polling) return; // Previous poll still running (slow API)
+    this.polling = true;
+    try {
+      const now = Date.now();
+      const jobs: Array<Promise<void>> = [];
+      for (const tracked of this.events.values()) {
+        const { record } = tracked;
+        const endMs = record.endTs * 1000;
+        if (now >= endMs) continue;
+        const active = now >= record.startTs * 1000;
+        if (!active && now - tracked.lastQuoteMs < QUOTE_INTERVAL_MS) continue;
+        tracked.lastQuoteMs = now;
+        for (const tokenId of [record.upTokenId, record.downTokenId]) {
+          jobs.push(this.recordBook(tracked.asset, tokenId, active));
+        }
+      }
+      await Promise.all(jobs);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async recordBook(asset: AssetType, tokenId: string, full: boolean): Promise<void> {
+    try {
+      const book = await this.clobClient.getOrderBook(tokenId);
+      const ts = Date.now();
+      const snapshot = normalizeBookLevels(book?.bids ?? [], book?.asks ?? [], ts);
+      if (full) {
+        const depth = this.options.depth;
+        this.writer.write(asset, {
+          type: 'book',
+          ts,
+          tokenId,
+          bids: snapshot.bids.slice(0, depth).map((l) => [l.price, l.size]),
+          asks: snapshot.asks.slice(0, depth).map((l) => [l.price, l.size]),
+        });
+      } else {
+        this.writer.write(asset, {
+          type: 'quote',
+          ts,
+          tokenId,
+          bid: snapshot.bids[0]?.price ?? null,
+          ask: snapshot.asks[0]?.price ?? null,
+        });
+      }
+    } catch (error) {
+      console.warn('[Recorder] Book fetch failed for %s:', tokenId.slice(0, 10) + '...', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /** Record the official winner of ended events once Gamma reports a 1/0 outcome. */
+  private async checkResolutions(): Promise<void> {
+    const now = Date.now();
+    for (const [slug, tracked] of this.events.entries()) {
+      const endMs = tracked.record.endTs * 1000;
+      if (now < endMs) continue;
+      if (now - endMs > RESOLUTION_GIVE_UP_MS) {
+        console.warn('[Recorder] No resolution for %s after %s min, giving up', slug, RESOLUTION_GIVE_UP_MS / 60_000);
+        this.events.delete(slug);
+        continue;
+      }
+      try {
+        const event = await PolymarketAPI.fetchEventBySlug(slug);
+        if (!event?.closed) continue;
+        const market = event.markets?.[0] as { outcomePrices?: unknown } | undefined;
+        const prices = normalizeOutcomePrices(event.outcomePrices ?? market?.outcomePrices);
+        if (!prices || Math.max(prices[0], prices[1]) !== 1) continue;
+        this.writer.write(tracked.asset, { type: 'resolution', ts: Date.now(), slug, winner: prices[0] === 1 ? 'UP' : 'DOWN' });
+        this.events.delete(slug);
+        console.log('[Recorder] Resolved %s: %s', slug, prices[0] === 1 ? 'UP' : 'DOWN');
+      } catch (error) {
+        console.warn('[Recorder] Resolution check failed for %s:', slug, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  installStructuredLogger();
+  PolymarketAPI.setBaseUrl(GAMMA_API_URL);
+
+  const recorder = new MarketDataRecorder(parseOptions(process.argv.slice(2)));
+  await recorder.start();
+
+  const shutdown = async (signal: string): Promise<void> => {
+    console.log('[Recorder] %s received, closing files', signal);
+    await recorder.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+}
+
+main().catch((error) => {
+  console.error('[Recorder] Fatal:', error);
+  process.exit(1);
+});
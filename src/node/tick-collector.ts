@@ -0,0 +1,72 @@
+/**
+ * Tick collector: streams RTDS Chainlink ticks for every registered asset into the rolling tick store that
+ * /api/ticks reads. Run it as a long-lived process next to the app so the window covers events that started
+ * before any page loaded.
+ *
+ * Usage: npm run ticks -- [--dir data/ticks] [--port 8787]
+ *   --port also serves GET /api/ticks from this process, for deployments (e.g. Vercel) whose API routes cannot
+ *   read the collector's files; point the browser at it with VITE_TICKS_API_URL.
+ */
+import { createServer, type Server } from 'node:http';
+import { installStructuredLogger } from './logger';
+import { TickStore, queryTicks, startTickCollector } from './tick-store';
+
+function getArg(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(`--${name}`);
+  return index !== -1 ? argv[index + 1] : undefined;
+}
+
+function serveTicks(store: TickStore, port: number): Server {
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(200).end();
+      return;
+    }
+    let status = 404;
+    let body: Record<string, unknown> = { error: 'Not found' };
+    if (req.method !== 'GET') {
+      status = 405;
+      body = { error: 'Method not allowed' };
+    } else if (url.pathname === '/api/ticks') {
+      ({ status, body } = queryTicks(store, Object.fromEntries(url.searchParams)));
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  });
+  server.listen(port, () => console.log('[TickCollector] Serving /api/ticks on port %d', port));
+  return server;
+}
+
+async function main(): Promise<void> {
+  installStructuredLogger();
+  const argv = process.argv.slice(2);
+  const dir = getArg(argv, 'dir') ?? process.env.TICKS_DIR ?? 'data/ticks';
+  const portArg = getArg(argv, 'port');
+  const port = portArg !== undefined ? Number(portArg) : null;
+  if (port !== null && (!Number.isInteger(port) || port <= 0 || port > 65535)) {
+    throw new Error(`--port must be a TCP port (got "${portArg}")`);
+  }
+
+  const store = new TickStore(dir);
+  const stop = startTickCollector(store);
+  const server = port !== null ? serveTicks(store, port) : null;
+  console.log('[TickCollector] Collecting Chainlink ticks into %s', dir);
+
+  const shutdown = (signal: string): void => {
+    console.log('[TickCollector] %s received, stopping', signal);
+    stop();
+    store.compact();
+    server?.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+main().catch((error) => {
+  console.error('[TickCollector] Fatal:', error);
+  process.exit(1);
+});
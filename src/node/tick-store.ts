@@ -0,0 +1,148 @@
+/**
+ * Rolling window of RTDS Chainlink ticks per asset, persisted to <dir>/<asset>.ndjson so a restart keeps the window.
+ * The tick collector (`npm run ticks`) writes it; /api/ticks reads it: pages that load after an event started ask
+ * for the opening tick (price to beat, last price).
+ */
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import WebSocket from 'ws';
+import { WebSocketClient, type WebSocketConstructor } from '../websocket-client';
+import { findAssetBySymbol, hasAsset } from '../asset-registry';
+import { findOpeningTick, type TickPoint } from '../price-to-beat';
+import type { TickLookup } from '../tick-history';
+
+const DEFAULT_WINDOW_MS = 6 * 60 * 60 * 1000; // Covers the 4h series with room to spare
+const COMPACT_INTERVAL_MS = 10 * 60 * 1000; // Rewrite files without expired ticks this often
+const MAX_RANGE_TICKS = 5000;
+
+export class TickStore {
+  private dir: string;
+  private windowMs: number;
+  private ticks: Map<string, TickPoint[]> = new Map(); // asset -> ticks by source timestamp
+
+  constructor(dir: string, windowMs: number = DEFAULT_WINDOW_MS) {
+    this.dir = dir;
+    this.windowMs = windowMs;
+  }
+
+  /** Append a tick (source timestamp in ms). Duplicates and out-of-order ticks are dropped. */
+  add(asset: string, timestamp: number, value: number): void {
+    const ticks = this.load(asset);
+    const last = ticks[ticks.length - 1];
+    if (last && timestamp <= last.timestamp) return;
+    const tick = { timestamp, value };
+    ticks.push(tick);
+    mkdirSync(this.dir, { recursive: true });
+    appendFileSync(this.getPath(asset), JSON.stringify(tick) + '\n');
+  }
+
+  /** Tick at `timestamp` (first at/after it) and the one before it. */
+  lookup(asset: string, timestamp: number): TickLookup {
+    const ticks = this.load(asset);
+    const index = ticks.findIndex((t) => t.timestamp >= timestamp);
+    const tick = index === -1 ? null : ticks[index];
+    const previous = index === -1 ? ticks[ticks.length - 1] ?? null : ticks[index - 1] ?? null;
+    return { tick, previous, opening: findOpeningTick(ticks, timestamp) };
+  }
+
+  /** Ticks in [from, to]. */
+  range(asset: string, from: number, to: number): TickPoint[] {
+    return this.load(asset).filter((t) => t.timestamp >= from && t.timestamp <= to);
+  }
+
+  /** Oldest and newest tick held for an asset. */
+  getCoverage(asset: string): { from: number; to: number } | null {
+    const ticks = this.load(asset);
+    return ticks.length > 0 ? { from: ticks[0].timestamp, to: ticks[ticks.length - 1].timestamp } : null;
+  }
+
+  /** Drop ticks older than the window and rewrite the files (temp file + rename). */
+  compact(now: number = Date.now()): void {
+    const cutoff = now - this.windowMs;
+    for (const [asset, ticks] of this.ticks) {
+      const kept = ticks.filter((t) => t.timestamp >= cutoff);
+      this.ticks.set(asset, kept);
+      const path = this.getPath(asset);
+      writeFileSync(`${path}.tmp`, kept.map((t) => JSON.stringify(t) + '\n').join(''));
+      renameSync(`${path}.tmp`, path);
+    }
+  }
+
+  private load(asset: string): TickPoint[] {
+    let ticks = this.ticks.get(asset);
+    if (ticks) return ticks;
+    ticks = [];
+    const path = this.getPath(asset);
+    if (existsSync(path)) {
+      const cutoff = Date.now() - this.windowMs;
+      for (const line of readFileSync(path, 'utf8').split('\n')) {
+        if (!line) continue;
+        try {
+          const tick = JSON.parse(line) as TickPoint;
+          const last = ticks[ticks.length - 1];
+          if (tick.timestamp >= cutoff && (!last || tick.timestamp > last.timestamp)) ticks.push(tick);
+        } catch {
+          // Torn last line after a crash
+        }
+      }
+    }
+    this.ticks.set(asset, ticks);
+    return ticks;
+  }
+
+  private getPath(asset: string): string {
+    return join(this.dir, `${asset}.ndjson`);
+  }
+}
+
+/** Stream RTDS Chainlink ticks for every registered asset into `store`. Returns a stop function. */
+export function startTickCollector(store: TickStore): () => void {
+  const client = new WebSocketClient(WebSocket as unknown as WebSocketConstructor);
+  client.setCallbacks(
+    (update) => {
+      const asset = findAssetBySymbol(update.payload.symbol);
+      if (asset) store.add(asset.id, update.payload.timestamp, update.payload.value);
+    },
+    (status) => {
+      if (status.error) console.warn('[TickCollector] Price feed error: %s', status.error);
+    }
+  );
+  client.connect();
+  const compactInterval = setInterval(() => store.compact(), COMPACT_INTERVAL_MS);
+  return () => {
+    clearInterval(compactInterval);
+    client.disconnect();
+  };
+}
+
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value !== 'string' || value === '') return null;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) return null;
+  return n < 1e12 ? n * 1000 : n; // Accept epoch seconds (slug timestamps) or ms
+}
+
+/**
+ * Answer a /api/ticks query (`asset` plus `at`, or `from` and optional `to`) from `store`.
+ * Shared by the Vercel route and the collector's own HTTP server.
+ */
+export function queryTicks(store: TickStore, query: Record<string, unknown>): { status: number; body: Record<string, unknown> } {
+  const asset = typeof query.asset === 'string' ? query.asset : 'btc';
+  if (!hasAsset(asset)) {
+    return { status: 400, body: { error: `Unknown asset: ${asset}` } };
+  }
+  const coverage = store.getCoverage(asset);
+
+  const at = parseTimestamp(query.at);
+  if (at !== null) {
+    return { status: 200, body: { success: true, asset, at, coverage, ...store.lookup(asset, at) } };
+  }
+
+  const from = parseTimestamp(query.from);
+  const to = parseTimestamp(query.to) ?? Date.now();
+  if (from !== null) {
+    return { status: 200, body: { success: true, asset, coverage, ticks: store.range(asset, from, to).slice(-MAX_RANGE_TICKS) } };
+  }
+
+  return { status: 400, body: { error: 'Missing at or from query parameter' } };
+}
@@ -0,0 +1,329 @@
+/**
+ * Strategy parameter sweep with walk-forward validation.
+ * Recorded data is cut into consecutive segments of events; every candidate StrategyConfig is backtested on each segment.
+ * Each walk-forward fold picks its best candidate on the preceding segments (in-sample) and tests that choice on the
+ * next one. Only fold winners are ranked, on the segments they were tested on, so the preset never comes from data it
+ * was picked on.
+ */
+
+import type { StrategyConfig } from './trading-types';
+import type { EventRecord, MarketDataRecord } from './market-data';
+import { Backtester, summarizeEventResults, type BacktestEventResult, type EventResultSummary } from './backtester';
+
+export const SWEEP_PARAMETERS = [
+  'entryPrice',
+  'profitTargetPrice',
+  'stopLossPrice',
+  'priceDifference',
+  'minEdge',
+  'kellyFraction',
+  'flipGuardPendingDistanceUsd',
+  'flipGuardFilledDistanceUsd',
+  'flipGuardPendingFlipProbability',
+  'flipGuardFilledFlipProbability',
+  'entryTimeRemainingMaxSeconds',
+] as const;
+
+export type SweepParameter = (typeof SWEEP_PARAMETERS)[number];
+
+/** Only used by volatility-mode Flip Guard; in 'fixed' mode every value would replay the same backtest. */
+export const VOLATILITY_SWEEP_PARAMETERS: readonly SweepParameter[] = ['flipGuardPendingFlipProbability', 'flipGuardFilledFlipProbability'];
+export type ParameterGrid = Partial<Record<SweepParameter, Array<number | null>>>;
+export type ParameterSet = Partial<Record<SweepParameter, number | null>>;
+
+export interface OptimizerOptions {
+  baseStrategy: Partial<StrategyConfig>;
+  strategyName?: string;
+  grid: ParameterGrid;
+  initialBalance: number;
+  takerFeeBps?: number;
+  segments?: number; // Number of consecutive event segments (default 4, i.e. 3 walk-forward folds)
+  stepMs?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface DataSegment {
+  fromMs: number; // Start of the first event
+  toMs: number; // End of the last event
+  events: number;
+  records: MarketDataRecord[];
+}
+
+/** A candidate picked by at least one walk-forward fold. */
+export interface CandidateResult {
+  params: ParameterSet;
+  strategy: Partial<StrategyConfig>;
+  folds: number; // Folds that picked it
+  inSample: EventResultSummary; // Training segments of the latest fold that picked it
+  outOfSample: EventResultSummary; // Test segments of the folds that picked it
+}
+
+/** A candidate on every segment: in-sample for all of them, for reference only. */
+export interface SweepResult {
+  params: ParameterSet;
+  fullSample: EventResultSummary;
+}
+
+export interface WalkForwardFold {
+  trainFromMs: number;
+  trainToMs: number;
+  testFromMs: number;
+  testToMs: number;
+  params: ParameterSet; // Best in-sample candidate
+  inSample: EventResultSummary;
+  outOfSample: EventResultSummary;
+}
+
+export interface OptimizerReport {
+  strategy: Partial<StrategyConfig>; // Best walk-forward out-of-sample candidate; the report file can be passed as --config
+  strategyName?: string;
+  generatedAt: string;
+  candidates: number;
+  segments: Array<Omit<DataSegment, 'records'>>;
+  walkForward: {
+    folds: WalkForwardFold[];
+    combined: EventResultSummary; // Out-of-sample results of the fold-by-fold choices, concatenated
+  };
+  ranking: CandidateResult[]; // Fold winners, best out-of-sample first
+  sweep: SweepResult[]; // Every candidate, best full-sample first
+}
+
+const DEFAULT_SEGMENTS = 4;
+const SEGMENT_LEAD_MS = 60_000; // Books/ticks just before the first event starts
+
+/** Accepts per-parameter arrays or { from, to, step } ranges; throws on unknown keys or bad values. */
+export function parseParameterGrid(raw: unknown): ParameterGrid {
+  if (!raw || typeof raw !== 'object') throw new Error('Parameter grid must be a JSON object');
+  const grid: ParameterGrid = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!(SWEEP_PARAMETERS as readonly string[]).includes(key)) {
+      throw new Error(`Unknown sweep parameter: ${key} (expected one of ${SWEEP_PARAMETERS.join(', ')})`);
+    }
+    let values: unknown[];
+    if (Array.isArray(value)) {
+      values = value;
+    } else if (value && typeof value === 'object') {
+      const { from, to, step } = value as { from?: unknown; to?: unknown; step?: unknown };
+      if (typeof from !== 'number' || typeof to !== 'number' || typeof step !== 'number' || !(step > 0) || to < from) {
+        throw new Error(`${key}: range must be { from, to, step } with step > 0 and to >= from`);
+      }
+      values = [];
+      // Index-based so float steps do not drift past `to`
+      for (let i = 0; from + i * step <= to + 1e-9; i++) values.push(Number((from + i * step).toFixed(6)));
+    } else {
+      throw new Error(`${key}: expected an array or a { from, to, step } range`);
+    }
+    const allowNull = key === 'priceDifference' || key === 'minEdge'; // null disables the price difference / edge filter
+    if (values.length === 0 || !values.every((v) => (v === null && allowNull) || (typeof v === 'number' && Number.isFinite(v)))) {
+      throw new Error(`${key}: values must be numbers${allowNull ? ' (or null to disable)' : ''}`);
+    }
+    grid[key as SweepParameter] = values as Array<number | null>;
+  }
+  return grid;
+}
+
+function toStrategy(baseStrategy: Partial<StrategyConfig>, params: ParameterSet): Partial<StrategyConfig> {
+  return { ...baseStrategy, ...params } as Partial<StrategyConfig>; // Only priceDifference and minEdge can be null (see parseParameterGrid)
+}
+
+/**
+ * Cartesian product of the grid, dropping combinations the strategy cannot use (e.g. stop loss above entry).
+ * Flip probabilities are only swept when the base strategy uses volatility-mode Flip Guard.
+ */
+export function expandGrid(baseStrategy: Partial<StrategyConfig>, grid: ParameterGrid): ParameterSet[] {
+  let sets: ParameterSet[] = [{}];
+  for (const key of SWEEP_PARAMETERS) {
+    const values = grid[key];
+    if (!values) continue;
+    if (VOLATILITY_SWEEP_PARAMETERS.includes(key) && baseStrategy.flipGuardMode !== 'volatility') continue;
+    sets = sets.flatMap((set) => values.map((value) => ({ ...set, [key]: value })));
+  }
+  return sets.filter((params) => {
+    const config = toStrategy(baseStrategy, params);
+    const { entryPrice, profitTargetPrice, stopLossPrice, flipGuardPendingDistanceUsd, flipGuardFilledDistanceUsd } = config;
+    if (entryPrice != null && stopLossPrice != null && stopLossPrice >= entryPrice) return false;
+    if (entryPrice != null && profitTargetPrice != null && profitTargetPrice <= entryPrice) return false;
+    if (flipGuardPendingDistanceUsd != null && flipGuardFilledDistanceUsd != null && flipGuardFilledDistanceUsd > flipGuardPendingDistanceUsd) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Split time-ordered records into `count` segments with the same number of events each.
+ * Every segment is replayable on its own: it starts with the (merged) event records it needs.
+ */
+export function splitIntoSegments(records: MarketDataRecord[], count: number): DataSegment[] {
+  const events = new Map<string, EventRecord>();
+  for (const record of records) {
+    if (record.type !== 'event') continue;
+    const existing = events.get(record.slug);
+    events.set(record.slug, existing ? { ...existing, priceToBeat: record.priceToBeat ?? existing.priceToBeat } : record);
+  }
+  const ordered = [...events.values()].sort((a, b) => a.startTs - b.startTs);
+  if (ordered.length < count) {
+    throw new Error(`Not enough events for ${count} segments (found ${ordered.length})`);
+  }
+
+  const segments: DataSegment[] = [];
+  for (let i = 0; i < count; i++) {
+    const group = ordered.slice(Math.floor((i * ordered.length) / count), Math.floor(((i + 1) * ordered.length) / count));
+    const slugs = new Set(group.map((e) => e.slug));
+    const fromMs = group[0].startTs * 1000;
+    const toMs = group[group.length - 1].endTs * 1000;
+    const body = records.filter((r) => {
+      if (r.type === 'event') return false;
+      if (r.type === 'resolution') return slugs.has(r.slug);
+      return r.ts >= fromMs - SEGMENT_LEAD_MS && r.ts < toMs;
+    });
+    const headTs = Math.min(fromMs - SEGMENT_LEAD_MS, body[0]?.ts ?? fromMs);
+    segments.push({ fromMs, toMs, events: group.length, records: [...group.map((e) => ({ ...e, ts: headTs })), ...body] });
+  }
+  return segments;
+}
+
+/** Higher expectancy first, then smaller drawdown, then total PnL; candidates that never traded go last. */
+export function compareSummaries(a: EventResultSummary, b: EventResultSummary): number {
+  if ((a.expectancy === null) !== (b.expectancy === null)) return a.expectancy === null ? 1 : -1;
+  const expectancyDiff = (b.expectancy ?? 0) - (a.expectancy ?? 0);
+  if (Math.abs(expectancyDiff) > 1e-9) return expectancyDiff;
+  if (Math.abs(a.maxDrawdown - b.maxDrawdown) > 1e-9) return a.maxDrawdown - b.maxDrawdown;
+  return b.totalPnl - a.totalPnl;
+}
+
+export async function runOptimizer(records: MarketDataRecord[], options: OptimizerOptions): Promise<OptimizerReport> {
+  const segmentCount = options.segments ?? DEFAULT_SEGMENTS;
+  if (segmentCount < 2) throw new Error('Walk-forward needs at least 2 segments');
+  const segments = splitIntoSegments(records, segmentCount);
+  const candidates = expandGrid(options.baseStrategy, options.grid);
+  if (candidates.length === 0) throw new Error('Parameter grid has no valid combinations');
+
+  // results[c][s] = event results of candidate c on segment s
+  const results: BacktestEventResult[][][] = [];
+  const total = candidates.length * segments.length;
+  let done = 0;
+  for (const params of candidates) {
+    const perSegment: BacktestEventResult[][] = [];
+    for (const segment of segments) {
+      const backtester = new Backtester({
+        strategy: toStrategy(options.baseStrategy, params),
+        strategyName: options.strategyName,
+        initialBalance: options.initialBalance,
+        takerFeeBps: options.takerFeeBps,
+        stepMs: options.stepMs,
+      });
+      perSegment.push((await backtester.run(segment.records)).events);
+      options.onProgress?.(++done, total);
+    }
+    results.push(perSegment);
+  }
+
+  const summarize = (c: number, from: number, to: number) =>
+    summarizeEventResults(results[c].slice(from, to).flat(), options.initialBalance);
+
+  // Anchored walk-forward: fold k trains on segments [0, k) and tests on segment k
+  const folds: WalkForwardFold[] = [];
+  const chosenResults: BacktestEventResult[] = [];
+  const testedOn = new Map<number, number[]>(); // candidate -> segments it was tested on
+  for (let k = 1; k < segments.length; k++) {
+    let best = 0;
+    for (let c = 1; c < candidates.length; c++) {
+      if (compareSummaries(summarize(c, 0, k), summarize(best, 0, k)) < 0) best = c;
+    }
+    chosenResults.push(...results[best][k]);
+    testedOn.set(best, [...(testedOn.get(best) ?? []), k]);
+    folds.push({
+      trainFromMs: segments[0].fromMs,
+      trainToMs: segments[k - 1].toMs,
+      testFromMs: segments[k].fromMs,
+      testToMs: segments[k].toMs,
+      params: candidates[best],
+      inSample: summarize(best, 0, k),
+      outOfSample: summarize(best, k, k + 1),
+    });
+  }
+
+  const ranking: CandidateResult[] = [...testedOn.entries()]
+    .map(([c, tested]) => ({
+      params: candidates[c],
+      strategy: toStrategy(options.baseStrategy, candidates[c]),
+      folds: tested.length,
+      inSample: summarize(c, 0, tested[tested.length - 1]),
+      outOfSample: summarizeEventResults(tested.flatMap((k) => results[c][k]), options.initialBalance),
+    }))
+    .sort((a, b) => compareSummaries(a.outOfSample, b.outOfSample) || b.folds - a.folds);
+
+  const sweep: SweepResult[] = candidates
+    .map((params, c) => ({ params, fullSample: summarize(c, 0, segments.length) }))
+    .sort((a, b) => compareSummaries(a.fullSample, b.fullSample));
+
+  return {
+    strategy: ranking[0].strategy,
+    strategyName: options.strategyName,
+    generatedAt: new Date().toISOString(),
+    candidates: candidates.length,
+    segments: segments.map(({ fromMs, toMs, events }) => ({ fromMs, toMs, events })),
+    walkForward: { folds, combined: summarizeEventResults(chosenResults, options.initialBalance) },
+    ranking,
+    sweep,
+  };
+}
+
+const PARAM_LABELS: Record<SweepParameter, string> = {
+  entryPrice: 'entry',
+  profitTargetPrice: 'target',
+  stopLossPrice: 'stop',
+  priceDifference: 'diff',
+  minEdge: 'edge',
+  kellyFraction: 'kelly',
+  flipGuardPendingDistanceUsd: 'fgPend',
+  flipGuardFilledDistanceUsd: 'fgFill',
+  flipGuardPendingFlipProbability: 'fgPendP',
+  flipGuardFilledFlipProbability: 'fgFillP',
+  entryTimeRemainingMaxSeconds: 'maxSec',
+};
+
+function formatParams(params: ParameterSet): string {
+  return SWEEP_PARAMETERS.filter((key) => key in params)
+    .map((key) => `${PARAM_LABELS[key]}=${params[key] ?? 'off'}`)
+    .join(' ');
+}
+
+/** Plain-text walk-forward folds and ranking, plus the full-sample sweep table. */
+export function formatOptimizerReport(report: OptimizerReport, top: number = 20): string {
+  const num = (v: number | null, digits = 2) => (v === null ? '--' : v.toFixed(digits));
+  const pct = (v: number | null) => (v === null ? '--' : `${(v * 100).toFixed(0)}%`);
+  const day = (ms: number) => new Date(ms).toISOString().slice(0, 16).replace('T', ' ');
+  const lines = [
+    `Candidates: ${report.candidates}, segments: ${report.segments.length} (${report.segments.map((s) => s.events).join('/')} events)`,
+    '',
+    'Walk-forward (train on earlier segments, test on the next):',
+  ];
+  for (const fold of report.walkForward.folds) {
+    lines.push(
+      `  test ${day(fold.testFromMs)} -> ${day(fold.testToMs)}: IS exp ${num(fold.inSample.expectancy)}, OOS exp ${num(fold.outOfSample.expectancy)}, OOS pnl ${num(fold.outOfSample.totalPnl)}  [${formatParams(fold.params)}]`
+    );
+  }
+  const combined = report.walkForward.combined;
+  lines.push(
+    `  combined OOS: pnl ${num(combined.totalPnl)}, exp ${num(combined.expectancy)}, win ${pct(combined.winRate)}, max dd ${num(combined.maxDrawdown)} (${combined.maxDrawdownPct.toFixed(1)}%)`,
+    '',
+    'Fold winners, ranked on the segments they were tested on (#1 is the preset):',
+    ' #  folds  OOS exp   OOS pnl  OOS dd  OOS win  trades  IS exp  params',
+  );
+  report.ranking.forEach((r, i) => {
+    const o = r.outOfSample;
+    lines.push(
+      `${String(i + 1).padStart(2)}  ${String(r.folds).padStart(5)}  ${num(o.expectancy).padStart(7)}  ${num(o.totalPnl).padStart(8)}  ${num(o.maxDrawdown).padStart(6)}  ${pct(o.winRate).padStart(7)}  ${String(o.eventsTraded).padStart(6)}  ${num(r.inSample.expectancy).padStart(6)}  ${formatParams(r.params)}`
+    );
+  });
+  lines.push('', `Full-sample sweep (in-sample, not used for the preset; top ${top}):`, ' #      exp       pnl      dd      win  trades  params');
+  report.sweep.slice(0, top).forEach((r, i) => {
+    const f = r.fullSample;
+    lines.push(
+      `${String(i + 1).padStart(2)}  ${num(f.expectancy).padStart(7)}  ${num(f.totalPnl).padStart(8)}  ${num(f.maxDrawdown).padStart(6)}  ${pct(f.winRate).padStart(7)}  ${String(f.eventsTraded).padStart(6)}  ${formatParams(r.params)}`
+    );
+  });
+  return lines.join('\n');
+}
@@ -0,0 +1,490 @@
+/**
+ * Order lifecycle tracking.
+ * Every order TradingManager posts is followed from creation to a terminal state:
+ *
+ *   created -> submitted -> live -> partially_filled -> filled
+ *                  |          |            |
+ *                  |          +------------+--> cancelled / expired
+ *                  +--> rejected
+ *
+ * reconcile() brings tracked orders in line with the CLOB open-orders, order and trades endpoints, so fills
+ * that happened during a submit timeout, a missed poll or a page reload are still picked up.
+ * applyUserEvent() applies pushed user-channel events in between polls.
+ * Persistence is up to the owner: save getOrders() on updates and restore() them on startup.
+ * Prices are on the 0-100 scale, sizes in shares.
+ */
+
+import type { OpenOrder, Trade as ClobTrade } from '@polymarket/clob-client';
+import type { TradingClobClient } from './trading-types';
+import type { Clock } from './clock';
+import type { Direction } from './strategy';
+import type { UserChannelEvent } from './user-channel-client';
+
+export type OrderState = 'created' | 'submitted' | 'live' | 'partially_filled' | 'filled' | 'cancelled' | 'rejected' | 'expired';
+
+export type OrderPurpose = 'entry' | 'profit_target' | 'exit';
+
+export interface TrackedOrder {
+  id: string; // Local id (exists before the CLOB assigns one)
+  orderId: string | null; // CLOB order id once acknowledged
+  purpose: OrderPurpose;
+  eventSlug: string;
+  tokenId: string;
+  side: 'BUY' | 'SELL';
+  direction: Direction;
+  price: number; // Limit price 0-100 (expected price for market orders)
+  size: number; // shares
+  sizeMatched: number; // shares
+  positionIds: string[]; // Positions opened (entry) or closed (profit_target / exit) by this order
+  reason: string;
+  state: OrderState;
+  createdAt: number;
+  updatedAt: number;
+  submittedAt?: number;
+  cancelRequestedAt?: number;
+  error?: string;
+}
+
+export type NewOrder = Pick<TrackedOrder, 'purpose' | 'eventSlug' | 'tokenId' | 'side' | 'direction' | 'price' | 'size' | 'reason'> & {
+  positionIds?: string[];
+};
+
+/** A state or fill change, reported through setOnOrderUpdate. */
+export interface OrderUpdate {
+  order: TrackedOrder;
+  previousState: OrderState;
+  filledShares: number; // Newly matched since the previous update
+}
+
+export interface OrderFilter {
+  purpose?: OrderPurpose;
+  eventSlug?: string;
+  tokenId?: string;
+}
+
+export type ReconcileClient = Pick<TradingClobClient, 'getOpenOrders' | 'getOrder' | 'getTrades'>;
+
+export interface OrderTrackerOptions {
+  clock: Clock;
+  submitTimeoutMs?: number; // Stop waiting for a post response after this long (default 15s); reconcile finds the order later
+  unknownOrderGraceMs?: number; // How long an order may be missing from every endpoint before it is expired (default 60s)
+}
+
+const TRANSITIONS: Record<OrderState, OrderState[]> = {
+  created: ['submitted', 'rejected'],
+  submitted: ['live', 'partially_filled', 'filled', 'cancelled', 'rejected', 'expired'],
+  live: ['partially_filled', 'filled', 'cancelled', 'expired'],
+  partially_filled: ['filled', 'cancelled', 'expired'],
+  filled: [],
+  cancelled: [],
+  rejected: [],
+  expired: [],
+};
+
+const OPEN_STATES: ReadonlySet<OrderState> = new Set(['created', 'submitted', 'live', 'partially_filled']);
+const MAX_CLOSED_ORDERS = 200; // Closed orders kept for display and persistence
+const DEFAULT_SUBMIT_TIMEOUT_MS = 15000;
+const DEFAULT_UNKNOWN_ORDER_GRACE_MS = 60000;
+const EPSILON = 1e-6;
+
+export function isOpenOrderState(state: OrderState): boolean {
+  return OPEN_STATES.has(state);
+}
+
+/** Order id from a createAndPostOrder / createAndPostMarketOrder response (the field name varies). */
+export function getResponseOrderId(response: any): string | undefined {
+  return response?.orderID || response?.order_id || response?.id || undefined;
+}
+
+function getResponseError(response: any): string {
+  return response?.errorMsg || response?.error || 'No order ID';
+}
+
+/**
+ * Whether the CLOB explicitly turned the order down: an errorMsg / success: false body, or a 4xx status on a
+ * returned or thrown error. No answer, a network error or a 5xx leave it unknown: the order may have been placed.
+ */
+function isExplicitRejection(responseOrError: any): boolean {
+  if (responseOrError?.errorMsg || responseOrError?.success === false) return true;
+  const status = Number(responseOrError?.status ?? responseOrError?.response?.status);
+  return status >= 400 && status < 500;
+}
+
+export class OrderTracker {
+  private clock: Clock;
+  private submitTimeoutMs: number;
+  private unknownOrderGraceMs: number;
+  private orders: Map<string, TrackedOrder> = new Map(); // local id -> order, in creation order
+  private nextId = 1;
+  private reconciling: Promise<void> | null = null; // Shared by concurrent reconcile() callers
+  private tradeFills: Map<string, Map<string, number>> = new Map(); // local id -> user-channel trade id -> shares
+  private onOrderUpdate: ((update: OrderUpdate) => void) | null = null;
+
+  constructor(options: OrderTrackerOptions) {
+    this.clock = options.clock;
+    this.submitTimeoutMs = options.submitTimeoutMs ?? DEFAULT_SUBMIT_TIMEOUT_MS;
+    this.unknownOrderGraceMs = options.unknownOrderGraceMs ?? DEFAULT_UNKNOWN_ORDER_GRACE_MS;
+  }
+
+  setOnOrderUpdate(callback: (update: OrderUpdate) => void): void {
+    this.onOrderUpdate = callback;
+  }
+
+  /** Copies of every tracked order, oldest first. */
+  getOrders(): TrackedOrder[] {
+    return [...this.orders.values()].map((o) => ({ ...o, positionIds: [...o.positionIds] }));
+  }
+
+  /** Orders not yet in a terminal state (live objects: read, do not mutate). */
+  getOpenOrders(filter: OrderFilter = {}): TrackedOrder[] {
+    return [...this.orders.values()].filter((o) => isOpenOrderState(o.state) && this.matches(o, filter));
+  }
+
+  hasOpenOrders(filter: OrderFilter = {}): boolean {
+    return this.getOpenOrders(filter).length > 0;
+  }
+
+  findByOrderId(orderId: string): TrackedOrder | undefined {
+    return [...this.orders.values()].find((o) => o.orderId === orderId);
+  }
+
+  /** Replace the tracked orders with a persisted list (startup). Open ones are settled by the next reconcile(). */
+  restore(orders: TrackedOrder[]): void {
+    this.orders.clear();
+    for (const order of orders) {
+      // Never reached the CLOB before the reload
+      if (order.state === 'created') Object.assign(order, { state: 'rejected', error: 'Not submitted before restart' });
+      this.orders.set(order.id, { ...order, positionIds: [...order.positionIds] });
+    }
+    const open = this.getOpenOrders().length;
+    if (open > 0) console.log(`[OrderTracker] Restored ${open} open order(s); they will be reconciled with the CLOB`);
+  }
+
+  /** Start tracking a resting CLOB order that was placed outside this tracker (e.g. before a crash that lost it). */
+  adopt(params: NewOrder & { orderId: string; sizeMatched: number; createdAt: number }): TrackedOrder {
+    const order = this.create(params);
+    Object.assign(order, {
+      orderId: params.orderId,
+      sizeMatched: params.sizeMatched,
+      state: params.sizeMatched > EPSILON ? 'partially_filled' : 'live',
+      createdAt: params.createdAt,
+      submittedAt: params.createdAt,
+    });
+    console.log(`[OrderTracker] Adopted ${order.purpose} ${order.side} ${params.orderId.substring(0, 8)}... as ${order.id}`);
+    return order;
+  }
+
+  create(params: NewOrder): TrackedOrder {
+    const now = this.clock.now();
+    const order: TrackedOrder = {
+      ...params,
+      id: `order-${now}-${this.nextId++}`,
+      orderId: null,
+      sizeMatched: 0,
+      positionIds: params.positionIds ?? [],
+      state: 'created',
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.orders.set(order.id, order);
+    return order;
+  }
+
+  /**
+   * Post an order and record the response: an order id makes it live, an explicit CLOB error rejects it.
+   * Errors from post are rethrown. A network error, a 5xx or a response without an order id leaves the order
+   * submitted, as does no response within submitTimeoutMs (this throws); a late response or reconcile() settles it.
+   */
+  async submit<T>(order: TrackedOrder, post: () => Promise<T>): Promise<T> {
+    this.transition(order, 'submitted', { submittedAt: this.clock.now() });
+    const posting = post().then(
+      (response) => {
+        const orderId = getResponseOrderId(response);
+        if (orderId) {
+          if (order.orderId === null) this.transition(order, 'live', { orderId });
+        } else if (isExplicitRejection(response)) {
+          this.transition(order, 'rejected', { error: getResponseError(response) });
+        } else if (order.state === 'submitted') {
+          order.error = getResponseError(response);
+          console.warn(`[OrderTracker] No order id for ${order.purpose} ${order.side} ${order.id} (${order.error}); it will be reconciled against open orders`);
+        }
+        return response;
+      },
+      (error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        if (isExplicitRejection(error)) {
+          this.transition(order, 'rejected', { error: message });
+        } else if (order.state === 'submitted') {
+          order.error = message; // No verdict from the CLOB: reconcile() finds or expires the order
+        }
+        throw error;
+      }
+    );
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`order submission timed out after ${this.submitTimeoutMs}ms`)), this.submitTimeoutMs);
+    });
+    try {
+      return await Promise.race([posting, timeout]);
+    } catch (error) {
+      if (order.state === 'submitted') {
+        console.warn(`[OrderTracker] No response for ${order.purpose} ${order.side} ${order.id} yet; it will be reconciled against open orders`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /** Mark an order that was never sent (e.g. it failed validation) as rejected. No-op once submitted. */
+  abandon(order: TrackedOrder, error: string): void {
+    if (order.state === 'created') this.transition(order, 'rejected', { error });
+  }
+
+  /** Note that a cancel was sent; the final state (and any partial fill) is confirmed by the next reconcile(). */
+  markCancelRequested(order: TrackedOrder): void {
+    order.cancelRequestedAt = this.clock.now();
+  }
+
+  /** Record positions opened or closed by this order. */
+  attachPositions(order: TrackedOrder, positionIds: string[]): void {
+    order.positionIds = [...new Set([...order.positionIds, ...positionIds])];
+  }
+
+  /**
+   * Apply a user-channel event. Order events carry the cumulative size_matched; trade events are summed per
+   * trade id, so MINED / CONFIRMED resends are not counted twice. A placement for an order still waiting for
+   * its post response is matched to it the same way reconcile() does.
+   */
+  applyUserEvent(event: UserChannelEvent): void {
+    if (event.event_type === 'order') {
+      const order = this.findByOrderId(event.id) ?? this.matchUnacknowledged(event);
+      if (!order || !isOpenOrderState(order.state)) return;
+      const status = event.type === 'CANCELLATION' ? 'CANCELED' : 'LIVE';
+      this.applyRemoteOrder(order, { status, size_matched: event.size_matched } as OpenOrder);
+      return;
+    }
+
+    if (event.status === 'FAILED') {
+      console.warn(`[OrderTracker] Trade ${event.id.substring(0, 8)}... failed on chain; fills are re-checked by reconcile`);
+      return;
+    }
+    const orderIds = new Set([event.taker_order_id, ...event.maker_orders.map((m) => m.order_id)]);
+    for (const orderId of orderIds) {
+      const order = this.findByOrderId(orderId);
+      if (!order || !isOpenOrderState(order.state)) continue;
+      const fills = this.tradeFills.get(order.id) ?? new Map<string, number>();
+      fills.set(event.id, this.getMatchedShares(event, orderId));
+      this.tradeFills.set(order.id, fills);
+      const matched = [...fills.values()].reduce((sum, shares) => sum + shares, 0);
+      this.applyRemoteOrder(order, { status: 'LIVE', size_matched: matched.toString() } as OpenOrder);
+    }
+  }
+
+  /** A submitted order with no id yet that has the same token, side, price and size as `remote`. */
+  private matchUnacknowledged(remote: Pick<OpenOrder, 'id' | 'asset_id' | 'side' | 'price' | 'original_size'>): TrackedOrder | undefined {
+    const order = this.getOpenOrders().find((o) => o.orderId === null && o.state === 'submitted' && this.isSameOrder(o, remote));
+    if (order) {
+      console.log(`[OrderTracker] Matched unacknowledged ${order.purpose} order ${order.id} to placement ${remote.id.substring(0, 8)}...`);
+      order.orderId = remote.id;
+    }
+    return order;
+  }
+
+  private isSameOrder(order: TrackedOrder, remote: Pick<OpenOrder, 'asset_id' | 'side' | 'price' | 'original_size'>): boolean {
+    return (
+      remote.asset_id === order.tokenId &&
+      remote.side.toUpperCase() === order.side &&
+      Math.abs(parseFloat(remote.price) * 100 - order.price) < 0.01 &&
+      Math.abs(parseFloat(remote.original_size) - order.size) < 0.01
+    );
+  }
+
+  /**
+   * Bring every open order in line with the CLOB. Orders on the open-orders list take its size_matched;
+   * orders missing from it are looked up individually, then in the trade history, and expire when no
+   * endpoint knows them after unknownOrderGraceMs. Concurrent calls share one pass.
+   */
+  async reconcile(client: ReconcileClient): Promise<void> {
+    if (!this.reconciling) {
+      this.reconciling = this.runReconcile(client).finally(() => {
+        this.reconciling = null;
+      });
+    }
+    return this.reconciling;
+  }
+
+  private async runReconcile(client: ReconcileClient): Promise<void> {
+    const pending = this.getOpenOrders().filter((o) => o.state !== 'created');
+    if (pending.length === 0) return;
+
+    const openOrders = (await client.getOpenOrders()) ?? [];
+    const openById = new Map<string, OpenOrder>();
+    for (const remote of openOrders) openById.set(remote.id, remote);
+
+    for (const order of pending) {
+      if (!isOpenOrderState(order.state)) continue; // A late submit response settled it meanwhile
+      if (order.orderId === null) {
+        await this.reconcileUnacknowledged(order, openOrders, client);
+        continue;
+      }
+      const remote = openById.get(order.orderId);
+      if (remote) {
+        this.applyRemoteOrder(order, remote);
+      } else {
+        await this.reconcileClosedOrder(order, client);
+      }
+    }
+  }
+
+  /** Order is no longer on the open list: ask for it directly, fall back to the trade history. */
+  private async reconcileClosedOrder(order: TrackedOrder, client: ReconcileClient): Promise<void> {
+    try {
+      const res = await client.getOrder(order.orderId!);
+      const remote = ((res as any)?.order ?? res) as OpenOrder | null;
+      if (remote?.status) {
+        this.applyRemoteOrder(order, remote, true);
+        return;
+      }
+    } catch (e) {
+      console.warn(`[OrderTracker] getOrder failed for ${order.orderId!.substring(0, 12)}..., checking trades:`, e);
+    }
+
+    const trades = await this.fetchTrades(order, client);
+    if (trades === null) return; // Try again next pass
+    const matched = trades.reduce((sum, t) => sum + this.getMatchedShares(t, order.orderId!), 0);
+    const sizeMatched = Math.max(order.sizeMatched, matched);
+    if (sizeMatched >= order.size - EPSILON) {
+      this.transition(order, 'filled', { sizeMatched: order.size });
+    } else if (this.isPastGrace(order)) {
+      this.transition(order, 'expired', { sizeMatched, error: 'Order not found on the CLOB' });
+    } else if (sizeMatched > order.sizeMatched) {
+      this.transition(order, 'partially_filled', { sizeMatched });
+    }
+  }
+
+  /**
+   * The post timed out before an order id came back. Adopt a matching open order (same token, side, price and
+   * size, created after submission) or a matching trade; otherwise expire it after the grace period.
+   */
+  private async reconcileUnacknowledged(order: TrackedOrder, openOrders: OpenOrder[], client: ReconcileClient): Promise<void> {
+    const knownIds = new Set([...this.orders.values()].map((o) => o.orderId).filter((id): id is string => id !== null));
+    const submittedSec = Math.floor((order.submittedAt ?? order.createdAt) / 1000);
+    const remote = openOrders.find((o) => !knownIds.has(o.id) && this.isSameOrder(order, o) && o.created_at >= submittedSec - 5);
+    if (remote) {
+      console.log(`[OrderTracker] Matched unacknowledged ${order.purpose} order ${order.id} to open order ${remote.id.substring(0, 8)}...`);
+      order.orderId = remote.id;
+      this.applyRemoteOrder(order, remote);
+      return;
+    }
+
+    const trades = await this.fetchTrades(order, client);
+    const fillOrderId = trades ? this.findUnknownFillOrderId(order, trades, knownIds) : null;
+    if (fillOrderId) {
+      console.log(`[OrderTracker] Matched unacknowledged ${order.purpose} order ${order.id} to filled order ${fillOrderId.substring(0, 8)}...`);
+      order.orderId = fillOrderId;
+      await this.reconcileClosedOrder(order, client);
+      return;
+    }
+    if (trades !== null && this.isPastGrace(order)) {
+      this.transition(order, 'expired', { error: 'Submission timed out and no matching order was found' });
+    }
+  }
+
+  /** Apply the CLOB view of an order. `closed` means it is known to be off the open-orders list. */
+  private applyRemoteOrder(order: TrackedOrder, remote: OpenOrder, closed: boolean = false): void {
+    const status = remote.status.toLowerCase();
+    const sizeMatched = Math.min(order.size, Math.max(order.sizeMatched, parseFloat(remote.size_matched) || 0));
+    if (status === 'matched' || sizeMatched >= order.size - EPSILON) {
+      this.transition(order, 'filled', { sizeMatched: order.size });
+    } else if (status.startsWith('canceled') || status.startsWith('cancelled')) {
+      this.transition(order, 'cancelled', { sizeMatched });
+    } else if (closed && this.isPastGrace(order)) {
+      // Reported live but missing from the open list for the whole grace period
+      this.transition(order, 'expired', { sizeMatched, error: `Order status ${status} but not open` });
+    } else if (sizeMatched > EPSILON) {
+      this.transition(order, 'partially_filled', { sizeMatched });
+    } else {
+      this.transition(order, 'live', {});
+    }
+  }
+
+  /** Trades on the order's token since it was submitted; null when the endpoint failed. */
+  private async fetchTrades(order: TrackedOrder, client: ReconcileClient): Promise<ClobTrade[] | null> {
+    try {
+      const after = Math.floor((order.submittedAt ?? order.createdAt) / 1000) - 60;
+      return (await client.getTrades({ asset_id: order.tokenId, after: after.toString() })) ?? [];
+    } catch (e) {
+      console.warn(`[OrderTracker] getTrades failed for ${order.id}:`, e);
+      return null;
+    }
+  }
+
+  /** Shares of `orderId` matched in one trade, as taker or as one of the makers. */
+  private getMatchedShares(
+    trade: { taker_order_id: string; size: string; maker_orders?: Array<{ order_id: string; matched_amount: string }> },
+    orderId: string
+  ): number {
+    if (trade.taker_order_id === orderId) return parseFloat(trade.size) || 0;
+    return (trade.maker_orders ?? [])
+      .filter((m) => m.order_id === orderId)
+      .reduce((sum, m) => sum + (parseFloat(m.matched_amount) || 0), 0);
+  }
+
+  private findUnknownFillOrderId(order: TrackedOrder, trades: ClobTrade[], knownIds: Set<string>): string | null {
+    const samePrice = (price: string) => Math.abs(parseFloat(price) * 100 - order.price) < 0.01;
+    for (const trade of trades) {
+      if (trade.trader_side === 'TAKER' && !knownIds.has(trade.taker_order_id) && trade.side.toUpperCase() === order.side && samePrice(trade.price)) {
+        return trade.taker_order_id;
+      }
+      const maker = (trade.maker_orders ?? []).find(
+        (m) => !knownIds.has(m.order_id) && m.asset_id === order.tokenId && m.side.toUpperCase() === order.side && samePrice(m.price)
+      );
+      if (trade.trader_side === 'MAKER' && maker) return maker.order_id;
+    }
+    return null;
+  }
+
+  private isPastGrace(order: TrackedOrder): boolean {
+    return this.clock.now() - (order.submittedAt ?? order.createdAt) > this.unknownOrderGraceMs;
+  }
+
+  private transition(order: TrackedOrder, next: OrderState, patch: Partial<TrackedOrder>): void {
+    const previousState = order.state;
+    const filledShares = Math.max(0, (patch.sizeMatched ?? order.sizeMatched) - order.sizeMatched);
+    if (next === previousState && filledShares <= EPSILON) return;
+    if (next !== previousState && !TRANSITIONS[previousState].includes(next)) {
+      console.warn(`[OrderTracker] Ignoring ${previousState} -> ${next} for ${order.id}`);
+      return;
+    }
+
+    Object.assign(order, patch, { state: next, updatedAt: this.clock.now() });
+    if (next !== previousState) {
+      const fill = order.sizeMatched > 0 ? ` (${order.sizeMatched.toFixed(2)}/${order.size.toFixed(2)} shares)` : '';
+      const error = order.error && next === 'rejected' ? `: ${order.error}` : '';
+      console.log(`[OrderTracker] ${order.purpose} ${order.side} ${order.id} ${previousState} -> ${next}${fill}${error}`);
+    }
+    if (!isOpenOrderState(next)) {
+      this.tradeFills.delete(order.id);
+      this.pruneClosedOrders();
+    }
+    this.onOrderUpdate?.({ order, previousState, filledShares });
+  }
+
+  private matches(order: TrackedOrder, filter: OrderFilter): boolean {
+    return (
+      (filter.purpose === undefined || order.purpose === filter.purpose) &&
+      (filter.eventSlug === undefined || order.eventSlug === filter.eventSlug) &&
+      (filter.tokenId === undefined || order.tokenId === filter.tokenId)
+    );
+  }
+
+  /** Drop the oldest closed orders so memory and persisted state stay bounded. */
+  private pruneClosedOrders(): void {
+    const closed = [...this.orders.values()].filter((o) => !isOpenOrderState(o.state));
+    for (const order of closed.slice(0, Math.max(0, closed.length - MAX_CLOSED_ORDERS))) {
+      this.orders.delete(order.id);
+    }
+  }
+}
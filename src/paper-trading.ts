@@ -0,0 +1,542 @@
+/**
+ * Paper Trading Engine
+ * Simulates the CLOB order endpoints TradingManager uses (POST_ONLY GTC limits, FAK/FOK market orders,
+ * open-order and trade polling, cancels) against live or recorded order books, with a virtual USDC balance.
+ * TradingManager drives it exactly like the real ClobClient, so Trade/Position records and stats are unchanged.
+ */
+
+import { OrderType, Side } from '@polymarket/clob-client';
+import type { CreateOrderOptions, OpenOrder, OpenOrdersResponse, OrderPayload, Trade, TradeParams, UserMarketOrder, UserOrder } from '@polymarket/clob-client';
+import { CLOBClientWrapper } from './clob-client';
+import type { TradingClobClient } from './trading-types';
+import type { RedeemFn } from './redemption-service';
+import type { ExchangeStateSource } from './exchange-state';
+import type { Clock } from './clock';
+import { systemClock } from './clock';
+
+/** One price level; price is decimal 0-1, size is in shares. */
+export interface BookLevel {
+  price: number;
+  size: number;
+}
+
+/** Order book snapshot. Bids sorted best (highest) first, asks best (lowest) first. */
+export interface BookSnapshot {
+  bids: BookLevel[];
+  asks: BookLevel[];
+  timestamp: number;
+}
+
+export interface BookSource {
+  getBook(tokenId: string): Promise<BookSnapshot | null>;
+}
+
+/** Normalize raw levels (any order, string or number fields) into sorted numeric levels. */
+export function normalizeBookLevels(
+  bids: Array<{ price: string | number; size: string | number }>,
+  asks: Array<{ price: string | number; size: string | number }>,
+  timestamp: number
+): BookSnapshot {
+  const toLevels = (levels: Array<{ price: string | number; size: string | number }>) =>
+    levels
+      .map((l) => ({ price: Number(l.price), size: Number(l.size) }))
+      .filter((l) => Number.isFinite(l.price) && Number.isFinite(l.size) && l.size > 0);
+  return {
+    bids: toLevels(bids).sort((a, b) => b.price - a.price),
+    asks: toLevels(asks).sort((a, b) => a.price - b.price),
+    timestamp,
+  };
+}
+
+/**
+ * Live books from the public CLOB API, cached briefly so the 100ms monitoring loop does not hammer the API.
+ * When a streaming source is given (market socket), its books are used and the API is only polled when it has none.
+ */
+export class LiveBookSource implements BookSource {
+  private clobClient: CLOBClientWrapper;
+  private cache: Map<string, BookSnapshot> = new Map();
+  private maxAgeMs: number;
+  private stream: BookSource | null;
+
+  constructor(maxAgeMs: number = 1000, stream: BookSource | null = null) {
+    this.clobClient = new CLOBClientWrapper();
+    this.maxAgeMs = maxAgeMs;
+    this.stream = stream;
+  }
+
+  async getBook(tokenId: string): Promise<BookSnapshot | null> {
+    const streamed = await this.stream?.getBook(tokenId);
+    if (streamed) return streamed;
+    const cached = this.cache.get(tokenId);
+    if (cached && Date.now() - cached.timestamp < this.maxAgeMs) return cached;
+    try {
+      const book = await this.clobClient.getOrderBook(tokenId);
+      const snapshot = normalizeBookLevels(book?.bids ?? [], book?.asks ?? [], Date.now());
+      this.cache.set(tokenId, snapshot);
+      return snapshot;
+    } catch {
+      return cached ?? null;
+    }
+  }
+}
+
+/** Books pushed in by the caller (recorded data, replays). */
+export class StaticBookSource implements BookSource {
+  private books: Map<string, BookSnapshot> = new Map();
+
+  setBook(tokenId: string, book: BookSnapshot): void {
+    this.books.set(tokenId, book);
+  }
+
+  clear(): void {
+    this.books.clear();
+  }
+
+  async getBook(tokenId: string): Promise<BookSnapshot | null> {
+    return this.books.get(tokenId) ?? null;
+  }
+}
+
+export interface PaperTradingOptions {
+  initialBalance: number; // Virtual USDC
+  books: BookSource;
+  takerFeeBps?: number; // Returned by getFeeRateBps and charged on market (taker) fills; default 1000
+  fillOnTouch?: boolean; // Resting orders fill when the opposite best touches the limit (default) vs. trades through it
+  clock?: Clock; // Order timestamps (defaults to the wall clock)
+}
+
+export interface PaperOrder {
+  id: string;
+  tokenId: string;
+  side: Side;
+  price: number; // decimal 0-1
+  originalSize: number; // shares
+  sizeMatched: number; // shares
+  fee: number; // USDC taker fee charged (0 for resting maker fills)
+  status: 'LIVE' | 'MATCHED' | 'CANCELED';
+  orderType: string;
+  createdAt: number;
+}
+
+const FAK_NO_MATCH_ERROR = 'no orders found to match with FAK order. FAK orders are partially filled or killed if no match is found.';
+const FOK_NOT_FILLED_ERROR = "order couldn't be fully filled. FOK orders are fully filled or killed.";
+const POST_ONLY_CROSS_ERROR = 'invalid post-only order: order crosses book';
+const BALANCE_ERROR = 'not enough balance / allowance';
+const EPSILON = 1e-9;
+
+export class PaperTradingEngine implements TradingClobClient {
+  private books: BookSource;
+  private clock: Clock;
+  private takerFeeBps: number;
+  private fillOnTouch: boolean;
+  private cash: number;
+  private reservedCash = 0; // USDC locked by resting BUY orders
+  private shares: Map<string, number> = new Map(); // tokenId -> shares held
+  private reservedShares: Map<string, number> = new Map(); // tokenId -> shares locked by resting SELL orders
+  private orders: Map<string, PaperOrder> = new Map();
+  private fills: Trade[] = []; // Trade history in the /data/trades shape
+  private consumed: Map<string, { timestamp: number; levels: Map<string, number> }> = new Map(); // tokenId -> shares resting fills took per level of its current snapshot
+  private nextOrderId = 1;
+  private feesPaid = 0;
+  private onBalanceChange: ((balance: number) => void) | null = null;
+
+  constructor(options: PaperTradingOptions) {
+    this.books = options.books;
+    this.clock = options.clock ?? systemClock;
+    this.cash = options.initialBalance;
+    this.takerFeeBps = options.takerFeeBps ?? 1000;
+    this.fillOnTouch = options.fillOnTouch ?? true;
+  }
+
+  setOnBalanceChange(callback: (balance: number) => void): void {
+    this.onBalanceChange = callback;
+  }
+
+  /** Total virtual USDC (including cash locked by resting bids). */
+  getBalance(): number {
+    return this.cash;
+  }
+
+  getShares(tokenId: string): number {
+    return this.shares.get(tokenId) ?? 0;
+  }
+
+  getFeesPaid(): number {
+    return this.feesPaid;
+  }
+
+  /** Copies of every order placed so far (resting, matched and cancelled). */
+  getOrders(): PaperOrder[] {
+    return [...this.orders.values()].map((o) => ({ ...o }));
+  }
+
+  // ---- ClobClient surface used by TradingManager ----
+
+  /** Best price on the given book side, as the live /price endpoint: BUY = best bid, SELL = best ask. */
+  async getPrice(tokenID: string, side: string): Promise<any> {
+    const book = await this.books.getBook(tokenID);
+    const level = side === Side.BUY ? book?.bids[0] : book?.asks[0];
+    return level ? { price: level.price.toString() } : null;
+  }
+
+  async getFeeRateBps(_tokenID: string): Promise<number> {
+    return this.takerFeeBps;
+  }
+
+  async getOpenOrders(): Promise<OpenOrdersResponse> {
+    await this.matchRestingOrders();
+    return [...this.orders.values()].filter((o) => o.status === 'LIVE').map((o) => this.toOpenOrder(o));
+  }
+
+  async getOrder(orderID: string): Promise<OpenOrder> {
+    await this.matchRestingOrders();
+    const order = this.orders.get(orderID);
+    if (!order) throw new Error(`order ${orderID} not found`);
+    return this.toOpenOrder(order);
+  }
+
+  /** Fills so far, as the /data/trades endpoint: resting fills as MAKER, market orders as TAKER. */
+  async getTrades(params?: TradeParams): Promise<Trade[]> {
+    await this.matchRestingOrders();
+    const after = params?.after != null ? Number(params.after) : -Infinity;
+    const before = params?.before != null ? Number(params.before) : Infinity;
+    return this.fills.filter(
+      (t) =>
+        (params?.asset_id == null || t.asset_id === params.asset_id) &&
+        (params?.id == null || t.id === params.id) &&
+        Number(t.match_time) >= after &&
+        Number(t.match_time) <= before
+    );
+  }
+
+  async cancelOrder(payload: OrderPayload): Promise<any> {
+    const order = this.orders.get(payload.orderID);
+    if (!order || order.status !== 'LIVE') {
+      return { canceled: [], not_canceled: { [payload.orderID]: 'order not found or not live' } };
+    }
+    this.releaseReservation(order);
+    order.status = 'CANCELED';
+    return { canceled: [order.id], not_canceled: {} };
+  }
+
+  async createAndPostOrder(
+    userOrder: UserOrder,
+    _options?: Partial<CreateOrderOptions>,
+    orderType: OrderType = OrderType.GTC,
+    _deferExec?: boolean,
+    postOnly?: boolean
+  ): Promise<any> {
+    const { tokenID, price, size, side } = userOrder;
+    if (!(price > 0 && price < 1) || !(size > 0)) {
+      return { success: false, errorMsg: `invalid order: price ${price}, size ${size}` };
+    }
+
+    const book = await this.books.getBook(tokenID);
+    const bestOpposite = side === Side.BUY ? book?.asks[0]?.price : book?.bids[0]?.price;
+    const crosses = bestOpposite != null && (side === Side.BUY ? price >= bestOpposite : price <= bestOpposite);
+    if (crosses && postOnly) {
+      return { success: false, errorMsg: POST_ONLY_CROSS_ERROR };
+    }
+
+    if (side === Side.BUY) {
+      if (price * size > this.getAvailableCash() + EPSILON) return { success: false, errorMsg: BALANCE_ERROR };
+      this.reservedCash += price * size;
+    } else {
+      if (size > this.getAvailableShares(tokenID) + EPSILON) return { success: false, errorMsg: BALANCE_ERROR };
+      this.reservedShares.set(tokenID, (this.reservedShares.get(tokenID) ?? 0) + size);
+    }
+
+    const order: PaperOrder = {
+      id: this.createOrderId(),
+      tokenId: tokenID,
+      side,
+      price,
+      originalSize: size,
+      sizeMatched: 0,
+      fee: 0,
+      status: 'LIVE',
+      orderType,
+      createdAt: this.clock.now(),
+    };
+    this.orders.set(order.id, order);
+    console.log(`[PaperTrading] ${postOnly ? 'POST_ONLY ' : ''}${side} ${size.toFixed(2)} @ ${price.toFixed(2)} resting (${order.id})`);
+
+    // A crossing (non post-only) limit fills immediately against the visible book, like a marketable limit
+    if (crosses && book) this.fillRestingOrder(order, book);
+    return { success: true, orderID: order.id, status: order.status === 'MATCHED' ? 'matched' : 'live', errorMsg: '' };
+  }
+
+  async createAndPostMarketOrder(
+    userMarketOrder: UserMarketOrder,
+    _options?: Partial<CreateOrderOptions>,
+    orderType: OrderType = OrderType.FOK
+  ): Promise<any> {
+    const { tokenID, amount, side, price: worstPrice } = userMarketOrder;
+    if (!(amount > 0)) return { success: false, errorMsg: `invalid amount ${amount}` };
+
+    const book = await this.books.getBook(tokenID);
+    const levels = side === Side.BUY ? book?.asks ?? [] : book?.bids ?? [];
+    const feeRate = this.takerFeeBps / 10000;
+
+    // BUY amount is USDC to spend, SELL amount is shares to sell
+    if (side === Side.SELL && amount > this.getAvailableShares(tokenID) + EPSILON) {
+      return { success: false, errorMsg: BALANCE_ERROR, error: BALANCE_ERROR };
+    }
+
+    let remaining = amount;
+    let filledShares = 0;
+    let notional = 0;
+    let fee = 0;
+    for (const level of levels) {
+      if (remaining <= EPSILON) break;
+      if (worstPrice != null && (side === Side.BUY ? level.price > worstPrice : level.price < worstPrice)) break;
+      const qty = side === Side.BUY ? Math.min(level.size, remaining / level.price) : Math.min(level.size, remaining);
+      filledShares += qty;
+      notional += qty * level.price;
+      fee += feeRate * Math.min(level.price, 1 - level.price) * qty;
+      remaining -= side === Side.BUY ? qty * level.price : qty;
+    }
+
+    if (filledShares <= EPSILON) {
+      return { success: false, errorMsg: FAK_NO_MATCH_ERROR, error: FAK_NO_MATCH_ERROR };
+    }
+    if (orderType === OrderType.FOK && remaining > EPSILON) {
+      return { success: false, errorMsg: FOK_NOT_FILLED_ERROR, error: FOK_NOT_FILLED_ERROR };
+    }
+    if (side === Side.BUY && notional + fee > this.getAvailableCash() + EPSILON) {
+      return { success: false, errorMsg: BALANCE_ERROR, error: BALANCE_ERROR };
+    }
+
+    if (side === Side.BUY) {
+      this.cash -= notional + fee;
+      this.shares.set(tokenID, this.getShares(tokenID) + filledShares);
+    } else {
+      this.cash += notional - fee;
+      this.shares.set(tokenID, this.getShares(tokenID) - filledShares);
+    }
+    this.feesPaid += fee;
+
+    const order: PaperOrder = {
+      id: this.createOrderId(),
+      tokenId: tokenID,
+      side,
+      price: notional / filledShares,
+      originalSize: filledShares,
+      sizeMatched: filledShares,
+      fee,
+      status: 'MATCHED',
+      orderType,
+      createdAt: this.clock.now(),
+    };
+    this.orders.set(order.id, order);
+    this.recordFill(order, filledShares, 'TAKER');
+    console.log(`[PaperTrading] ${orderType} ${side} filled ${filledShares.toFixed(2)} @ avg ${order.price.toFixed(4)} (fee ${fee.toFixed(4)}), balance ${this.cash.toFixed(2)}`);
+    this.notifyBalanceChange();
+
+    return {
+      success: true,
+      orderID: order.id,
+      status: 'matched',
+      errorMsg: '',
+      makingAmount: (side === Side.BUY ? notional : filledShares).toString(),
+      takingAmount: (side === Side.BUY ? filledShares : notional).toString(),
+      size_matched: filledShares.toString(),
+    };
+  }
+
+  // ---- Settlement ----
+
+  /**
+   * Settle a resolved market: pay out `payout` (1 for the winning outcome, 0 for the loser) per share held,
+   * cancel any resting orders on the token. Returns the USDC credited.
+   */
+  settle(tokenId: string, payout: number): number {
+    for (const order of this.orders.values()) {
+      if (order.tokenId === tokenId && order.status === 'LIVE') {
+        this.releaseReservation(order);
+        order.status = 'CANCELED';
+      }
+    }
+    const held = this.getShares(tokenId);
+    const amount = held * payout;
+    this.shares.delete(tokenId);
+    this.reservedShares.delete(tokenId);
+    this.consumed.delete(tokenId);
+    if (held > EPSILON) {
+      this.cash += amount;
+      console.log(`[PaperTrading] Settled ${held.toFixed(2)} shares of ${tokenId.substring(0, 10)}... at ${payout}: +${amount.toFixed(2)} USDC`);
+      this.notifyBalanceChange();
+    }
+    return amount;
+  }
+
+  // ---- Internals ----
+
+  /** Match every resting order against the current book for its token. */
+  private async matchRestingOrders(): Promise<void> {
+    const byToken = new Map<string, PaperOrder[]>();
+    for (const order of this.orders.values()) {
+      if (order.status !== 'LIVE') continue;
+      const list = byToken.get(order.tokenId) ?? [];
+      list.push(order);
+      byToken.set(order.tokenId, list);
+    }
+    for (const [tokenId, orders] of byToken.entries()) {
+      const book = await this.books.getBook(tokenId);
+      if (!book) continue;
+      for (const order of orders) this.fillRestingOrder(order, book);
+    }
+  }
+
+  /**
+   * Fill a resting order (maker, no fee, at its own price) against crossing liquidity in the snapshot. Liquidity
+   * taken from a snapshot is used up: later passes and other orders only see what is left until the book changes.
+   */
+  private fillRestingOrder(order: PaperOrder, book: BookSnapshot): void {
+    const crossing =
+      order.side === Side.BUY
+        ? book.asks.filter((l) => (this.fillOnTouch ? l.price <= order.price : l.price < order.price))
+        : book.bids.filter((l) => (this.fillOnTouch ? l.price >= order.price : l.price > order.price));
+    const taken = this.getConsumedLevels(order.tokenId, book);
+    let remaining = order.originalSize - order.sizeMatched;
+    let qty = 0;
+    for (const level of crossing) {
+      if (remaining <= EPSILON) break;
+      const key = `${order.side === Side.BUY ? 'ask' : 'bid'}:${level.price}`;
+      const take = Math.min(level.size - (taken.get(key) ?? 0), remaining);
+      if (take <= EPSILON) continue;
+      taken.set(key, (taken.get(key) ?? 0) + take);
+      qty += take;
+      remaining -= take;
+    }
+    if (qty <= EPSILON) return;
+
+    order.sizeMatched += qty;
+    if (order.side === Side.BUY) {
+      this.reservedCash -= qty * order.price;
+      this.cash -= qty * order.price;
+      this.shares.set(order.tokenId, this.getShares(order.tokenId) + qty);
+    } else {
+      this.reservedShares.set(order.tokenId, (this.reservedShares.get(order.tokenId) ?? 0) - qty);
+      this.shares.set(order.tokenId, this.getShares(order.tokenId) - qty);
+      this.cash += qty * order.price;
+    }
+    if (order.originalSize - order.sizeMatched <= EPSILON) {
+      order.status = 'MATCHED';
+    }
+    this.recordFill(order, qty, 'MAKER');
+    console.log(`[PaperTrading] ${order.side} ${order.id} filled ${qty.toFixed(2)} @ ${order.price.toFixed(2)} (${order.status}), balance ${this.cash.toFixed(2)}`);
+    this.notifyBalanceChange();
+  }
+
+  /** Shares already filled from each level of this snapshot; starts over when the token's book timestamp changes. */
+  private getConsumedLevels(tokenId: string, book: BookSnapshot): Map<string, number> {
+    let entry = this.consumed.get(tokenId);
+    if (!entry || entry.timestamp !== book.timestamp) {
+      entry = { timestamp: book.timestamp, levels: new Map() };
+      this.consumed.set(tokenId, entry);
+    }
+    return entry.levels;
+  }
+
+  private recordFill(order: PaperOrder, qty: number, traderSide: 'MAKER' | 'TAKER'): void {
+    const price = order.price.toString();
+    const size = qty.toString();
+    const maker = traderSide === 'MAKER';
+    this.fills.push({
+      id: `paper-trade-${this.fills.length + 1}`,
+      taker_order_id: maker ? '' : order.id,
+      market: '',
+      asset_id: order.tokenId,
+      side: order.side,
+      size,
+      fee_rate_bps: maker ? '0' : this.takerFeeBps.toString(),
+      price,
+      status: 'CONFIRMED',
+      match_time: Math.floor(this.clock.now() / 1000).toString(),
+      last_update: Math.floor(this.clock.now() / 1000).toString(),
+      outcome: '',
+      bucket_index: 0,
+      owner: 'paper',
+      maker_address: 'paper',
+      maker_orders: maker
+        ? [{ order_id: order.id, owner: 'paper', maker_address: 'paper', matched_amount: size, price, fee_rate_bps: '0', asset_id: order.tokenId, outcome: '', side: order.side }]
+        : [],
+      transaction_hash: '',
+      trader_side: traderSide,
+    });
+  }
+
+  private releaseReservation(order: PaperOrder): void {
+    const unfilled = order.originalSize - order.sizeMatched;
+    if (order.side === Side.BUY) {
+      this.reservedCash = Math.max(0, this.reservedCash - unfilled * order.price);
+    } else {
+      this.reservedShares.set(order.tokenId, Math.max(0, (this.reservedShares.get(order.tokenId) ?? 0) - unfilled));
+    }
+  }
+
+  private getAvailableCash(): number {
+    return this.cash - this.reservedCash;
+  }
+
+  private getAvailableShares(tokenId: string): number {
+    return this.getShares(tokenId) - (this.reservedShares.get(tokenId) ?? 0);
+  }
+
+  private createOrderId(): string {
+    return `paper-${(this.nextOrderId++).toString().padStart(8, '0')}`;
+  }
+
+  private toOpenOrder(order: PaperOrder): OpenOrder {
+    return {
+      id: order.id,
+      status: order.status,
+      owner: 'paper',
+      maker_address: 'paper',
+      market: '',
+      asset_id: order.tokenId,
+      side: order.side,
+      original_size: order.originalSize.toString(),
+      size_matched: order.sizeMatched.toString(),
+      price: order.price.toString(),
+      associate_trades: [],
+      outcome: '',
+      created_at: Math.floor(order.createdAt / 1000),
+      expiration: '0',
+      order_type: order.orderType,
+    };
+  }
+
+  private notifyBalanceChange(): void {
+    this.onBalanceChange?.(this.cash);
+  }
+}
+
+/** RedemptionService redeem hook that settles resolved markets inside the paper engine instead of on-chain. */
+export function createPaperRedeem(engine: PaperTradingEngine): RedeemFn {
+  return async (_conditionId, _indexSet, { tokenId, payout }) => {
+    if (payout == null) return null; // Outcome not published yet; RedemptionService retries next pass
+    const amount = engine.settle(tokenId, payout);
+    return { success: true, amount: amount.toFixed(2) };
+  };
+}
+
+/** Exchange view of the paper engine, for TradingManager.syncWithExchange() (restored positions the engine never held are dropped). */
+export function createPaperExchangeStateSource(engine: PaperTradingEngine): ExchangeStateSource {
+  return {
+    async fetchState() {
+      const orders = engine.getOrders();
+      const tokenIds = [...new Set(orders.map((o) => o.tokenId))];
+      const positions = tokenIds
+        .map((tokenId) => {
+          const buys = orders.filter((o) => o.tokenId === tokenId && o.side === Side.BUY && o.sizeMatched > 0);
+          const bought = buys.reduce((sum, o) => sum + o.sizeMatched, 0);
+          const cost = buys.reduce((sum, o) => sum + o.sizeMatched * o.price, 0);
+          return { tokenId, shares: engine.getShares(tokenId), avgPrice: bought > 0 ? (cost / bought) * 100 : 0 };
+        })
+        .filter((p) => p.shares > 0);
+      return { positions, openOrders: await engine.getOpenOrders() };
+    },
+  };
+}
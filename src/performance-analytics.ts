@@ -0,0 +1,146 @@
+/**
+ * Performance analytics for the Analytics tab, computed from the stored trade history: the equity curve of realized
+ * PnL, and closed events broken down by asset, hour of entry, time remaining at entry and how they were exited.
+ * Events come from the trade export (trade-export.ts), so exit reasons are only as complete as the stored trades.
+ */
+
+import type { Trade } from './trading-types';
+import type { LedgerEntry } from './pnl-ledger';
+import { buildTradeExport, type EventSummary } from './trade-export';
+import { MARKET_SERIES, getIntervalEnd, isMarketSeriesId } from './market-series';
+
+export type ExitReasonCategory = 'Profit target' | 'Stop loss' | 'Flip Guard' | 'Resolution' | 'Other';
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number; // Cumulative realized PnL (USDC)
+}
+
+/** Closed events grouped under one label. */
+export interface PnlBucket {
+  label: string;
+  pnl: number;
+  events: number;
+  wins: number;
+}
+
+export interface PerformanceStats {
+  events: number; // Closed events
+  wins: number;
+  losses: number;
+  winRate: number | null; // 0-1
+  averageWin: number | null;
+  averageLoss: number | null; // Negative
+  expectancy: number | null; // Average PnL per closed event
+  totalPnl: number;
+}
+
+export interface PerformanceAnalytics {
+  stats: PerformanceStats;
+  equityCurve: EquityPoint[];
+  byAsset: PnlBucket[];
+  byHour: PnlBucket[]; // 24 buckets, UTC hour of the first entry
+  byTimeRemaining: PnlBucket[];
+  byExitReason: PnlBucket[];
+}
+
+const EXIT_REASON_CATEGORIES: ExitReasonCategory[] = ['Profit target', 'Stop loss', 'Flip Guard', 'Resolution', 'Other'];
+
+// Upper bound (seconds remaining at entry) of each bucket
+const TIME_REMAINING_BUCKETS: Array<[number, string]> = [
+  [60, '< 1m'],
+  [180, '1-3m'],
+  [300, '3-5m'],
+  [600, '5-10m'],
+  [900, '10-15m'],
+  [3600, '15-60m'],
+  [Infinity, '> 1h'],
+];
+const UNKNOWN_TIME_REMAINING = 'Unknown';
+
+const EPSILON = 1e-9;
+
+/** A closed event whose PnL is known (none of its tokens is missing buys). */
+type ClosedEvent = EventSummary & { pnlUsd: number };
+
+export function getPerformanceAnalytics(entries: LedgerEntry[], trades: Trade[]): PerformanceAnalytics {
+  const closed = buildTradeExport(entries, trades).events.filter((e): e is ClosedEvent => e.openShares <= EPSILON && e.pnlUsd !== null);
+
+  let equity = 0;
+  const equityCurve = entries
+    .filter((e) => e.realized !== 0)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((e) => ({ timestamp: e.timestamp, equity: (equity += e.realized) }));
+
+  return {
+    stats: getPerformanceStats(closed),
+    equityCurve,
+    byAsset: groupEvents(closed, (e) => e.asset.toUpperCase()),
+    byHour: groupEvents(closed, (e) => formatHour(new Date(e.firstTime).getUTCHours()), Array.from({ length: 24 }, (_, h) => formatHour(h))),
+    byTimeRemaining: groupEvents(
+      closed,
+      (e) => getTimeRemainingBucket(getSecondsRemaining(e.eventSlug, Date.parse(e.firstTime))),
+      [...TIME_REMAINING_BUCKETS.map(([, label]) => label), UNKNOWN_TIME_REMAINING]
+    ).filter((b) => b.events > 0),
+    byExitReason: groupEvents(closed, (e) => getExitReasonCategory(e.reason), EXIT_REASON_CATEGORIES),
+  };
+}
+
+/** Exit category from an event's close reason (trade reasons, or the ledger's 'Resolved: won/lost'). */
+export function getExitReasonCategory(reason: string): ExitReasonCategory {
+  // Flip Guard, kill switch and halt exits are sold as stop losses; check them first
+  if (/flip guard/i.test(reason)) return 'Flip Guard';
+  if (/kill switch|trading halt/i.test(reason)) return 'Other';
+  if (/^resolved/i.test(reason)) return 'Resolution';
+  if (/stop loss/i.test(reason)) return 'Stop loss';
+  if (/profit target/i.test(reason)) return 'Profit target';
+  return 'Other';
+}
+
+/** Bucket label for the seconds left in the event at entry (null when the event end is unknown). */
+export function getTimeRemainingBucket(seconds: number | null): string {
+  if (seconds === null || seconds < 0) return UNKNOWN_TIME_REMAINING;
+  return TIME_REMAINING_BUCKETS.find(([max]) => seconds < max)?.[1] ?? UNKNOWN_TIME_REMAINING;
+}
+
+/** Seconds from `timestamp` (ms) to the event's end; null for date-style slugs, which carry no start timestamp. */
+function getSecondsRemaining(eventSlug: string, timestamp: number): number | null {
+  const match = eventSlug.match(/-updown-(\d+[mhd])-(\d+)/);
+  if (!match || !isMarketSeriesId(match[1])) return null;
+  return getIntervalEnd(MARKET_SERIES[match[1]], parseInt(match[2], 10)) - timestamp / 1000;
+}
+
+function getPerformanceStats(events: ClosedEvent[]): PerformanceStats {
+  const wins = events.filter((e) => e.pnlUsd > 0);
+  const losses = events.filter((e) => e.pnlUsd < 0);
+  const average = (list: ClosedEvent[]): number | null =>
+    list.length > 0 ? list.reduce((sum, e) => sum + e.pnlUsd, 0) / list.length : null;
+  return {
+    events: events.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: events.length > 0 ? wins.length / events.length : null,
+    averageWin: average(wins),
+    averageLoss: average(losses),
+    expectancy: average(events),
+    totalPnl: events.reduce((sum, e) => sum + e.pnlUsd, 0),
+  };
+}
+
+/** PnL per label; `labels` fixes the order (and keeps empty buckets), otherwise labels appear as first seen. */
+function groupEvents(events: ClosedEvent[], getLabel: (e: ClosedEvent) => string, labels: string[] = []): PnlBucket[] {
+  const buckets = new Map<string, PnlBucket>(labels.map((label) => [label, { label, pnl: 0, events: 0, wins: 0 }]));
+  for (const event of events) {
+    const label = getLabel(event);
+    const bucket = buckets.get(label) ?? { label, pnl: 0, events: 0, wins: 0 };
+    bucket.pnl += event.pnlUsd;
+    bucket.events++;
+    if (event.pnlUsd > 0) bucket.wins++;
+    buckets.set(label, bucket);
+  }
+  return [...buckets.values()];
+}
+
+function formatHour(hour: number): string {
+  return `${hour.toString().padStart(2, '0')}:00`;
+}
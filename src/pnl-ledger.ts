@@ -0,0 +1,207 @@
+/**
+ * PnL ledger: every fill, fee, redemption and resolution loss as a cash (USDC) and share movement on one token.
+ * Shares leave a token's book at its average cost, and realized PnL is booked on the entry that moves them out.
+ * Holdings left on the book are marked to market for unrealized PnL.
+ * Trade.profit only covers market exits. The ledger also sees profit-target fills, taker fees, partial sells and
+ * what resolved shares paid out.
+ */
+
+import { findAssetBySlug } from './asset-registry';
+
+export type LedgerEntryKind = 'fill' | 'fee' | 'redemption' | 'resolution_loss';
+
+export interface LedgerEntry {
+  id: string;
+  kind: LedgerEntryKind;
+  timestamp: number;
+  eventSlug: string;
+  tokenId: string;
+  direction?: 'UP' | 'DOWN';
+  shares: number; // Token movement: + bought, - sold, redeemed or written off
+  cash: number; // USDC movement: - paid (buys, fees), + received (sells, redemptions)
+  price?: number; // 0-100: fill price, or payout per share for resolutions
+  realized: number; // PnL booked by this entry
+  ref?: string; // Order id (fills and their fees)
+}
+
+export interface LedgerFill {
+  eventSlug: string;
+  tokenId: string;
+  direction?: 'UP' | 'DOWN';
+  side: 'BUY' | 'SELL';
+  shares: number;
+  price: number; // 0-100
+  fee?: number; // USDC taker fee (0 for maker fills)
+  ref?: string;
+  timestamp: number;
+}
+
+/** Shares of one token still on the book and what they cost. */
+export interface LedgerHolding {
+  eventSlug: string;
+  tokenId: string;
+  direction?: 'UP' | 'DOWN';
+  shares: number;
+  costBasis: number; // USDC
+}
+
+export interface PnlBreakdown {
+  realized: number;
+  unrealized: number;
+  fees: number;
+}
+
+export interface PnlSummary extends PnlBreakdown {
+  byEvent: Record<string, PnlBreakdown>;
+  byAsset: Record<string, PnlBreakdown>;
+  byDay: Record<string, PnlBreakdown>; // UTC date (YYYY-MM-DD) of the entry; unrealized PnL is not dated and stays 0
+}
+
+const EPSILON = 1e-9;
+
+/** Polymarket taker fee in USDC: rate × min(p, 1 - p) × shares. */
+export function getTakerFee(feeRateBps: number, priceDecimal: number, shares: number): number {
+  return (feeRateBps / 10000) * Math.min(priceDecimal, 1 - priceDecimal) * shares;
+}
+
+export class PnlLedger {
+  private entries: LedgerEntry[] = [];
+  private holdings: Map<string, LedgerHolding> = new Map(); // tokenId -> open shares
+  private nextId = 1;
+
+  /** Book a fill and its fee. Sells realize proceeds minus the average cost of the shares sold. */
+  recordFill(fill: LedgerFill): LedgerEntry[] {
+    if (!(fill.shares > 0)) return [];
+    const notional = fill.shares * fill.price / 100;
+    const booked = [
+      this.add({
+        kind: 'fill',
+        timestamp: fill.timestamp,
+        eventSlug: fill.eventSlug,
+        tokenId: fill.tokenId,
+        direction: fill.direction,
+        shares: fill.side === 'BUY' ? fill.shares : -fill.shares,
+        cash: fill.side === 'BUY' ? -notional : notional,
+        price: fill.price,
+        ref: fill.ref,
+      }),
+    ];
+    if (fill.fee && fill.fee > 0) {
+      booked.push(this.add({
+        kind: 'fee',
+        timestamp: fill.timestamp,
+        eventSlug: fill.eventSlug,
+        tokenId: fill.tokenId,
+        direction: fill.direction,
+        shares: 0,
+        cash: -fill.fee,
+        ref: fill.ref,
+      }));
+    }
+    return booked;
+  }
+
+  /**
+   * Settle every share of `tokenId` still on the book at `payout` per share (0-1): a redemption if it paid out,
+   * a resolution loss if it did not. Null when nothing was held.
+   */
+  recordResolution(eventSlug: string, tokenId: string, payout: number, timestamp: number): LedgerEntry | null {
+    const holding = this.holdings.get(tokenId);
+    if (!holding || holding.shares <= EPSILON) return null;
+    return this.add({
+      kind: payout > 0 ? 'redemption' : 'resolution_loss',
+      timestamp,
+      eventSlug,
+      tokenId,
+      direction: holding.direction,
+      shares: -holding.shares,
+      cash: holding.shares * payout,
+      price: payout * 100,
+    });
+  }
+
+  getEntries(): LedgerEntry[] {
+    return this.entries.map((e) => ({ ...e }));
+  }
+
+  getHoldings(): LedgerHolding[] {
+    return [...this.holdings.values()].map((h) => ({ ...h }));
+  }
+
+  getRealizedTotal(): number {
+    return this.entries.reduce((sum, e) => sum + e.realized, 0);
+  }
+
+  /** Rebuild from saved entries (realized PnL is kept as booked; holdings are replayed). */
+  restore(entries: LedgerEntry[]): void {
+    this.clear();
+    for (const entry of entries) {
+      this.entries.push({ ...entry });
+      this.applyToHolding(entry);
+    }
+    this.nextId = entries.reduce((max, e) => Math.max(max, Number(e.id.slice('ledger-'.length)) || 0), 0) + 1;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.holdings.clear();
+    this.nextId = 1;
+  }
+
+  /** Realized, unrealized and fees, in total and per event, asset and UTC day. `getMark` prices a token (0-100). */
+  getSummary(getMark: (tokenId: string) => number | null): PnlSummary {
+    const summary: PnlSummary = { realized: 0, unrealized: 0, fees: 0, byEvent: {}, byAsset: {}, byDay: {} };
+    const bucket = (map: Record<string, PnlBreakdown>, key: string): PnlBreakdown => {
+      if (!map[key]) map[key] = { realized: 0, unrealized: 0, fees: 0 };
+      return map[key];
+    };
+    const buckets = (eventSlug: string, day: string | null): PnlBreakdown[] => {
+      const list = [summary, bucket(summary.byEvent, eventSlug), bucket(summary.byAsset, findAssetBySlug(eventSlug)?.id ?? 'unknown')];
+      if (day !== null) list.push(bucket(summary.byDay, day));
+      return list;
+    };
+
+    for (const entry of this.entries) {
+      for (const b of buckets(entry.eventSlug, new Date(entry.timestamp).toISOString().slice(0, 10))) {
+        b.realized += entry.realized;
+        if (entry.kind === 'fee') b.fees -= entry.cash;
+      }
+    }
+    for (const holding of this.holdings.values()) {
+      const mark = getMark(holding.tokenId);
+      if (mark === null || holding.shares <= EPSILON) continue;
+      const unrealized = holding.shares * mark / 100 - holding.costBasis;
+      for (const b of buckets(holding.eventSlug, null)) b.unrealized += unrealized;
+    }
+    return summary;
+  }
+
+  private add(movement: Omit<LedgerEntry, 'id' | 'realized'>): LedgerEntry {
+    const entry: LedgerEntry = { ...movement, id: `ledger-${this.nextId++}`, realized: 0 };
+    entry.realized = this.applyToHolding(entry);
+    this.entries.push(entry);
+    return entry;
+  }
+
+  /** Move the entry's shares on or off its token's book; returns the PnL it realizes. */
+  private applyToHolding(entry: LedgerEntry): number {
+    if (entry.kind === 'fee') return entry.cash;
+    let holding = this.holdings.get(entry.tokenId);
+    if (!holding) {
+      holding = { eventSlug: entry.eventSlug, tokenId: entry.tokenId, direction: entry.direction, shares: 0, costBasis: 0 };
+      this.holdings.set(entry.tokenId, holding);
+    }
+    if (entry.shares > 0) {
+      holding.shares += entry.shares;
+      holding.costBasis -= entry.cash;
+      return 0;
+    }
+    // Shares out at average cost; selling more than the book holds (untracked shares) books the rest at zero cost
+    const out = Math.min(-entry.shares, holding.shares);
+    const cost = holding.shares > EPSILON ? holding.costBasis * (out / holding.shares) : 0;
+    holding.shares -= out;
+    holding.costBasis -= cost;
+    if (holding.shares <= EPSILON) this.holdings.delete(entry.tokenId);
+    return entry.cash - cost;
+  }
+}
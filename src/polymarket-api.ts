@@ -35,9 +35,16 @@ export interface PolymarketEvent {
 }
 
 export class PolymarketAPI {
+  private static baseUrl: string = GAMMA_API_BASE;
+
+  /** Override the Gamma API base (Node has no /api proxy and talks to gamma-api directly). */
+  static setBaseUrl(baseUrl: string): void {
+    PolymarketAPI.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
   static async fetchEventBySlug(slug: string): Promise<PolymarketEvent | null> {
     try {
-      const apiUrl = `${GAMMA_API_BASE}/markets/slug/${slug}`;
+      const apiUrl = `${PolymarketAPI.baseUrl}/markets/slug/${slug}`;
       console.log(`[PolymarketAPI] Fetching: ${apiUrl}`);
       
       const response = await fetch(apiUrl, {
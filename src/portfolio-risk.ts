@@ -0,0 +1,109 @@
+/**
+ * Portfolio-level risk across the per-asset TradingManagers in MultiAssetTradingManager.
+ * Every manager sizes against the same wallet, so on their own BTC, ETH, SOL and XRP could each commit their
+ * maxPositionSize. This manager shares one exposure budget between them and vets each entry against:
+ * - a total cap (all assets, all events);
+ * - a per-asset cap;
+ * - a per-window, per-direction cap: UP bets on different assets in the same window mostly win or lose together,
+ *   so they count as one bet. Opposite directions are counted separately and do not offset each other.
+ */
+
+import type { AssetType } from './types';
+import type { EntryExposure, EntryRequest } from './trading-types';
+
+export interface PortfolioRiskLimits {
+  maxTotalExposureFraction: number; // All open and resting entries, as a fraction of wallet balance
+  maxAssetExposureFraction: number; // Per asset
+  maxWindowExposureFraction: number; // Same direction across assets in one market window
+}
+
+export const DEFAULT_PORTFOLIO_RISK_LIMITS: PortfolioRiskLimits = {
+  maxTotalExposureFraction: 0.5,
+  maxAssetExposureFraction: 0.25,
+  maxWindowExposureFraction: 0.3,
+};
+
+/** Current exposure and caps in USD (for the UI and logs). */
+export interface PortfolioExposure {
+  total: number;
+  byAsset: Record<AssetType, number>;
+  byWindow: Record<string, { UP: number; DOWN: number }>;
+  caps: { total: number; asset: number; window: number } | null; // null until the wallet balance is known
+}
+
+/**
+ * Market window an event belongs to, shared by all assets: "updown-15m-<start>" for timestamp slugs,
+ * "up-or-down-<date>" for dated ones.
+ */
+export function getWindowKey(eventSlug: string): string {
+  const timestampIndex = eventSlug.indexOf('-updown-');
+  if (timestampIndex !== -1) return eventSlug.slice(timestampIndex + 1);
+  const datedIndex = eventSlug.indexOf('-up-or-down-');
+  if (datedIndex !== -1) return eventSlug.slice(datedIndex + 1);
+  return eventSlug;
+}
+
+export class PortfolioRiskManager {
+  private limits: PortfolioRiskLimits;
+  private walletBalance: number | null = null;
+  private getExposures: () => Map<AssetType, EntryExposure[]>;
+
+  constructor(getExposures: () => Map<AssetType, EntryExposure[]>, limits: Partial<PortfolioRiskLimits> = {}) {
+    this.getExposures = getExposures;
+    this.limits = { ...DEFAULT_PORTFOLIO_RISK_LIMITS, ...limits };
+  }
+
+  setLimits(limits: Partial<PortfolioRiskLimits>): void {
+    this.limits = { ...this.limits, ...limits };
+  }
+
+  getLimits(): PortfolioRiskLimits {
+    return { ...this.limits };
+  }
+
+  setWalletBalance(balance: number | null): void {
+    this.walletBalance = balance != null && balance > 0 ? balance : null;
+  }
+
+  getExposure(): PortfolioExposure {
+    const byAsset: Record<AssetType, number> = {};
+    const byWindow: Record<string, { UP: number; DOWN: number }> = {};
+    let total = 0;
+    for (const [asset, exposures] of this.getExposures()) {
+      for (const e of exposures) {
+        total += e.sizeUSD;
+        byAsset[asset] = (byAsset[asset] ?? 0) + e.sizeUSD;
+        const key = getWindowKey(e.eventSlug);
+        if (!byWindow[key]) byWindow[key] = { UP: 0, DOWN: 0 };
+        byWindow[key][e.direction] += e.sizeUSD;
+      }
+    }
+    const balance = this.walletBalance;
+    const caps = balance === null
+      ? null
+      : {
+          total: balance * this.limits.maxTotalExposureFraction,
+          asset: balance * this.limits.maxAssetExposureFraction,
+          window: balance * this.limits.maxWindowExposureFraction,
+        };
+    return { total, byAsset, byWindow, caps };
+  }
+
+  /**
+   * USD an entry for `asset` may use: the request trimmed to the headroom left under every cap.
+   * Without a wallet balance there is no budget to share, so entries pass unchanged.
+   */
+  approveEntry(asset: AssetType, request: EntryRequest): { approvedUSD: number; reason: string } {
+    const { total, byAsset, byWindow, caps } = this.getExposure();
+    if (!caps) return { approvedUSD: request.sizeUSD, reason: 'wallet balance unknown' };
+
+    const window = getWindowKey(request.eventSlug);
+    const headroom: Array<[string, number]> = [
+      [`total $${total.toFixed(2)} of $${caps.total.toFixed(2)}`, caps.total - total],
+      [`${asset} $${(byAsset[asset] ?? 0).toFixed(2)} of $${caps.asset.toFixed(2)}`, caps.asset - (byAsset[asset] ?? 0)],
+      [`${request.direction} in ${window} $${(byWindow[window]?.[request.direction] ?? 0).toFixed(2)} of $${caps.window.toFixed(2)}`, caps.window - (byWindow[window]?.[request.direction] ?? 0)],
+    ];
+    const [reason, room] = headroom.reduce((tightest, h) => (h[1] < tightest[1] ? h : tightest));
+    return { approvedUSD: Math.max(0, Math.min(request.sizeUSD, room)), reason };
+  }
+}
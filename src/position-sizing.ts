@@ -0,0 +1,81 @@
+/**
+ * Entry sizing. tradeSizeUnit 'USD' and 'shares' size every entry at tradeSize; 'kelly' sizes it by fractional Kelly
+ * from the fair value model (fair-value.ts) against the limit price, with tradeSize as the per-trade cap.
+ * Per-event and per-day caps apply to every unit.
+ */
+
+import type { StrategyConfig } from './trading-types';
+
+const DEFAULT_KELLY_FRACTION = 0.25;
+export const MIN_ORDER_USD = 1; // Polymarket rejects smaller orders
+
+export interface SizingContext {
+  priceDecimal: number; // Limit price (0-1)
+  fairValue: number | null; // Model probability (0-100) for the side being bought
+  bankroll: number | null; // Wallet balance (USD)
+  eventSpentUSD: number; // Entries already placed in this event (filled or resting)
+  daySpentUSD: number; // Entries already placed today (UTC)
+}
+
+export interface SizingResult {
+  sizeUSD: number;
+  shares: number;
+  note: string; // How the size was reached (log line), or why the entry is skipped when sizeUSD is 0
+}
+
+/** Epoch ms of the UTC midnight starting the day of `timestamp` (per-day cap boundary). */
+export function startOfUtcDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * Full-Kelly fraction of bankroll for a binary token paying 1 at `priceDecimal` that wins with `probability` (0-1):
+ * f* = (p - c) / (1 - c). Zero when there is no edge.
+ */
+export function getKellyFraction(probability: number, priceDecimal: number): number {
+  if (!(priceDecimal > 0 && priceDecimal < 1)) return 0;
+  return Math.max(0, (probability - priceDecimal) / (1 - priceDecimal));
+}
+
+/** Size one entry under `config`. A zero size means skip; `note` says why. */
+export function sizeEntry(config: StrategyConfig, context: SizingContext): SizingResult {
+  const { priceDecimal } = context;
+  const unit = config.tradeSizeUnit ?? 'USD';
+  const skip = (note: string): SizingResult => ({ sizeUSD: 0, shares: 0, note });
+  if (!(priceDecimal > 0)) return skip('invalid price');
+
+  let sizeUSD: number;
+  let note: string;
+  if (unit === 'kelly') {
+    if (context.fairValue === null) return skip('Kelly sizing needs a fair value (not enough ticks yet)');
+    if (!context.bankroll || context.bankroll <= 0) return skip('Kelly sizing needs the wallet balance');
+    const fraction = config.kellyFraction ?? DEFAULT_KELLY_FRACTION;
+    const kelly = getKellyFraction(context.fairValue / 100, priceDecimal);
+    if (kelly <= 0) return skip(`no Kelly edge (fair ${context.fairValue.toFixed(2)} vs price ${(priceDecimal * 100).toFixed(2)})`);
+    sizeUSD = Math.min(context.bankroll * kelly * fraction, config.tradeSize);
+    note = `${fraction}× Kelly ${(kelly * 100).toFixed(1)}% of $${context.bankroll.toFixed(2)}, per-trade cap $${config.tradeSize}`;
+  } else if (unit === 'shares') {
+    sizeUSD = config.tradeSize * priceDecimal;
+    note = `${config.tradeSize} shares`;
+  } else {
+    sizeUSD = config.tradeSize;
+    note = `$${config.tradeSize}`;
+  }
+
+  const uncapped = sizeUSD;
+  if (config.maxEventSizeUsd != null) {
+    sizeUSD = Math.min(sizeUSD, config.maxEventSizeUsd - context.eventSpentUSD);
+  }
+  if (config.maxDailySizeUsd != null) {
+    sizeUSD = Math.min(sizeUSD, config.maxDailySizeUsd - context.daySpentUSD);
+  }
+  if (sizeUSD < uncapped) {
+    note += `, capped by event/day limits (event $${context.eventSpentUSD.toFixed(2)}, day $${context.daySpentUSD.toFixed(2)} spent)`;
+  }
+  if (sizeUSD < MIN_ORDER_USD) return skip(`size $${Math.max(0, sizeUSD).toFixed(2)} below $${MIN_ORDER_USD} minimum (${note})`);
+
+  // Keep an exact share count when sizing in shares and nothing was capped
+  const shares = unit === 'shares' && sizeUSD === uncapped ? config.tradeSize : sizeUSD / priceDecimal;
+  return { sizeUSD, shares, note };
+}
@@ -0,0 +1,88 @@
+/**
+ * Cross-validation of the underlying's price across RTDS feeds.
+ * Markets resolve on Chainlink (crypto_prices_chainlink), but exchange prices (crypto_prices, Binance) lead it by a
+ * second or two. The consensus is the median of the sources seen recently; sources further apart than
+ * maxDivergencePct are flagged as diverged.
+ */
+
+import type { DataSource } from './types';
+
+/** Price a distance check reads: one feed, or the consensus of all of them. */
+export type PriceSource = DataSource | 'consensus';
+
+export const PRICE_SOURCES: PriceSource[] = ['chainlink', 'exchange', 'consensus'];
+
+const DEFAULT_MAX_AGE_MS = 5000; // Both feeds tick about once a second; older prices are left out of the consensus
+const DEFAULT_MAX_DIVERGENCE_PCT = 0.1; // About $100 on BTC at $100k; Chainlink vs Binance is usually a few hundredths
+
+export interface SourcePrice {
+  value: number;
+  receivedAt: number; // Local receive time (ms)
+}
+
+/** Consensus reading for one asset. */
+export interface ConsensusPrice {
+  asset: string;
+  value: number | null; // Median of fresh sources; null when no source is fresh
+  sources: Partial<Record<DataSource, SourcePrice>>; // Fresh sources only
+  divergenceUsd: number; // Highest minus lowest fresh source
+  divergencePct: number; // divergenceUsd relative to the consensus (percent)
+  diverged: boolean; // divergencePct > maxDivergencePct
+  timestamp: number;
+}
+
+export interface PriceConsensusOptions {
+  maxAgeMs?: number;
+  maxDivergencePct?: number;
+}
+
+export function isPriceSource(value: unknown): value is PriceSource {
+  return typeof value === 'string' && (PRICE_SOURCES as string[]).includes(value);
+}
+
+export class PriceConsensus {
+  private maxAgeMs: number;
+  private maxDivergencePct: number;
+  private prices: Map<string, Map<DataSource, SourcePrice>> = new Map(); // asset -> latest price per source
+
+  constructor(options: PriceConsensusOptions = {}) {
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    this.maxDivergencePct = options.maxDivergencePct ?? DEFAULT_MAX_DIVERGENCE_PCT;
+  }
+
+  /** Record a price from one source and return the asset's new consensus. */
+  update(asset: string, source: DataSource, value: number, receivedAt: number = Date.now()): ConsensusPrice {
+    let bySource = this.prices.get(asset);
+    if (!bySource) {
+      bySource = new Map();
+      this.prices.set(asset, bySource);
+    }
+    bySource.set(source, { value, receivedAt });
+    return this.get(asset, receivedAt);
+  }
+
+  get(asset: string, now: number = Date.now()): ConsensusPrice {
+    const sources: Partial<Record<DataSource, SourcePrice>> = {};
+    for (const [source, price] of this.prices.get(asset) ?? []) {
+      if (now - price.receivedAt <= this.maxAgeMs) sources[source] = price;
+    }
+    const values = Object.values(sources).map((p) => p.value).sort((a, b) => a - b);
+    const value = values.length === 0 ? null : median(values);
+    const divergenceUsd = values.length < 2 ? 0 : values[values.length - 1] - values[0];
+    const divergencePct = value ? (divergenceUsd / value) * 100 : 0;
+    return {
+      asset,
+      value,
+      sources,
+      divergenceUsd,
+      divergencePct,
+      diverged: divergencePct > this.maxDivergencePct,
+      timestamp: now,
+    };
+  }
+}
+
+function median(sorted: number[]): number {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,110 @@
+/**
+ * Price to beat: the Chainlink price at the event start that Up/Down markets settle against.
+ * Confirmed from Gamma event metadata, or from the first buffered tick at/after the start when we were already
+ * streaming before it. Otherwise (late page load, reconnect) the first tick seen while active stands in, marked provisional.
+ */
+
+import type { EventDisplayData } from './event-manager';
+import type { PolymarketEvent } from './polymarket-api';
+
+export type PriceToBeatStatus = 'provisional' | 'confirmed';
+
+export interface PriceToBeat {
+  value: number;
+  status: PriceToBeatStatus;
+  source: 'gamma' | 'chainlink' | 'history' | 'first-tick'; // history: opening tick from the /api/ticks server-side buffer
+}
+
+/** Chainlink tick by source timestamp (ms). */
+export interface TickPoint {
+  timestamp: number;
+  value: number;
+}
+
+const HISTORY_MS = 30 * 60 * 1000; // Ticks kept for events we only learn about after their start
+const MAX_TICK_GAP_MS = 10_000; // Larger gaps around the start mean the feed was down; the first tick after may not be the opening one
+
+/**
+ * Opening tick for an event starting at `startMs` in time-ordered `ticks`: the first at/after the start, if there is
+ * also one shortly before it (no feed gap across the start). Shared by the tracker and the server-side tick store.
+ */
+export function findOpeningTick(ticks: TickPoint[], startMs: number): TickPoint | null {
+  let low = 0;
+  let high = ticks.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (ticks[mid].timestamp < startMs) low = mid + 1;
+    else high = mid;
+  }
+  if (low === 0 || low === ticks.length) return null;
+  const before = ticks[low - 1];
+  const at = ticks[low];
+  return at.timestamp - before.timestamp <= MAX_TICK_GAP_MS ? at : null;
+}
+
+/** Official opening price from Gamma (`eventMetadata.priceToBeat`), once published. */
+export function getGammaPriceToBeat(event: PolymarketEvent | undefined): number | null {
+  const raw = event?.eventMetadata?.priceToBeat;
+  const value = typeof raw === 'string' ? Number(raw) : raw;
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export class PriceToBeatTracker {
+  private history: TickPoint[] = []; // Chainlink ticks by source timestamp (ms)
+  private prices: Map<string, PriceToBeat> = new Map(); // Event slug -> price to beat
+
+  /** Buffer a price tick (source timestamp in ms). */
+  recordTick(timestamp: number, value: number): void {
+    const last = this.history[this.history.length - 1];
+    if (last && timestamp <= last.timestamp) return; // Duplicate or out of order
+    this.history.push({ timestamp, value });
+    const cutoff = timestamp - HISTORY_MS;
+    while (this.history.length > 0 && this.history[0].timestamp < cutoff) {
+      this.history.shift();
+    }
+  }
+
+  /**
+   * Price to beat for a started event: Gamma metadata, then the buffered opening tick, then (provisional) `currentPrice`.
+   * A provisional value is upgraded as soon as a confirmed one is available. Returns null before the event starts.
+   */
+  update(event: EventDisplayData, currentPrice: number | null): PriceToBeat | null {
+    const existing = this.prices.get(event.slug);
+    if (existing?.status === 'confirmed') return existing;
+    if (event.status === 'upcoming') return null;
+
+    const gamma = getGammaPriceToBeat(event.rawData);
+    const opening = findOpeningTick(this.history, event.timestamp * 1000)?.value ?? null;
+    let next: PriceToBeat | null = existing ?? null;
+    if (gamma !== null) {
+      next = { value: gamma, status: 'confirmed', source: 'gamma' };
+    } else if (opening !== null) {
+      next = { value: opening, status: 'confirmed', source: 'chainlink' };
+    } else if (!existing && currentPrice !== null && event.status === 'active') {
+      next = { value: currentPrice, status: 'provisional', source: 'first-tick' };
+    }
+
+    if (next && next !== existing) {
+      this.set(event.slug, next);
+    }
+    return next;
+  }
+
+  /** Confirm from the server-side tick history (events that started before this session). */
+  confirmFromHistory(slug: string, value: number): PriceToBeat {
+    const existing = this.prices.get(slug);
+    if (existing?.status === 'confirmed') return existing;
+    const next: PriceToBeat = { value, status: 'confirmed', source: 'history' };
+    this.set(slug, next);
+    return next;
+  }
+
+  get(slug: string): PriceToBeat | null {
+    return this.prices.get(slug) ?? null;
+  }
+
+  private set(slug: string, price: PriceToBeat): void {
+    this.prices.set(slug, price);
+    console.log(`[PriceToBeat] ${slug}: $${price.value.toFixed(2)} (${price.status}, ${price.source})`);
+  }
+}
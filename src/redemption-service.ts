@@ -11,11 +11,21 @@ const REDEMPTION_CHECK_INTERVAL_MS = 60_000; // 1 minute
 const REDEEM_API_PATH = '/api/redeem';
 
 export type GetPositionsFn = () => Position[];
-export type RemovePositionsFn = (positionIds: string[]) => void;
+/** Resolution details passed to a custom redeem; payout is the per-share value from Gamma outcomePrices (null if unknown). */
+export interface RedeemContext {
+  eventSlug: string;
+  tokenId: string;
+  payout: number | null;
+}
+/** Drop redeemed positions; `resolution` lets the caller book what the shares paid out. */
+export type RemovePositionsFn = (positionIds: string[], resolution: RedeemContext) => void;
+export type RedeemFn = (conditionId: string, indexSet: number, context: RedeemContext) => Promise<{ success: boolean; amount?: string } | null>;
 
 export interface RedemptionServiceConfig {
   getPositions: GetPositionsFn;
   removePositions?: RemovePositionsFn;
+  /** Redeem implementation; defaults to POST /api/redeem (headless runners redeem on-chain directly). */
+  redeem?: RedeemFn;
   onRedemptionSuccess?: (eventSlug: string, positionIds: string[], amount?: string) => void;
   onRedemptionError?: (eventSlug: string, error: string) => void;
 }
@@ -98,6 +108,7 @@ export class RedemptionService {
     // Binary: index set 1 = YES/UP (clobTokenIds[0]), 2 = NO/DOWN (clobTokenIds[1])
     const yesTokenId = clobTokenIds[0];
     const noTokenId = clobTokenIds[1];
+    const outcomePrices = normalizeOutcomePrices(event.outcomePrices);
 
     const toRedeemByIndexSet = new Map<number, Position[]>();
     for (const p of positions) {
@@ -112,13 +123,17 @@ export class RedemptionService {
     for (const [indexSet, posList] of toRedeemByIndexSet.entries()) {
       if (posList.length === 0) continue;
       try {
-        const result = await this.callRedeemApi(conditionId, indexSet);
+        const tokenId = indexSet === 1 ? yesTokenId : noTokenId;
+        const payout = outcomePrices ? outcomePrices[indexSet - 1] ?? null : null;
+        const result = this.config.redeem
+          ? await this.config.redeem(conditionId, indexSet, { eventSlug, tokenId, payout })
+          : await this.callRedeemApi(conditionId, indexSet);
         if (result?.success) {
           for (const p of posList) this.redeemedPositionIds.add(p.id);
           const ids = posList.map((p) => p.id);
           console.log('[RedemptionService] Redeemed %s conditionId=%s indexSet=%s positions=%s', eventSlug, conditionId.slice(0, 10) + '...', indexSet, ids.length);
           this.config.onRedemptionSuccess?.(eventSlug, ids, result.amount);
-          if (this.config.removePositions) this.config.removePositions(ids);
+          if (this.config.removePositions) this.config.removePositions(ids, { eventSlug, tokenId, payout });
         }
       } catch (e) {
         const msg = e instanceof Error ? e.message : String(e);
@@ -156,3 +171,18 @@ function normalizeClobTokenIds(value: string[] | string | undefined): string[] |
   }
   return null;
 }
+
+/** Gamma outcomePrices (JSON string or array) as numbers, UP first; null if missing or malformed. */
+export function normalizeOutcomePrices(value: unknown): number[] | null {
+  let list: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      list = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(list) || list.length < 2) return null;
+  const prices = list.map((p) => Number(p));
+  return prices.every((p) => Number.isFinite(p)) ? prices : null;
+}
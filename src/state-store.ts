@@ -0,0 +1,100 @@
+/**
+ * Async persistence for trading state that must survive a reload or crash (positions, open orders, active event).
+ * The browser keeps it in IndexedDB (transactional, not limited like localStorage); Node and backtests wrap a
+ * KeyValueStore such as the file store, whose writes are atomic renames.
+ */
+
+import type { KeyValueStore } from './storage';
+
+export interface StateStore {
+  load<T>(key: string): Promise<T | null>;
+  /** Resolves once the value is durably written. */
+  save<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+/** StateStore over a synchronous KeyValueStore; values are stored as JSON. */
+export class KeyValueStateStore implements StateStore {
+  private store: KeyValueStore;
+
+  constructor(store: KeyValueStore) {
+    this.store = store;
+  }
+
+  async load<T>(key: string): Promise<T | null> {
+    const raw = this.store.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  }
+
+  async save<T>(key: string, value: T): Promise<void> {
+    this.store.setItem(key, JSON.stringify(value));
+  }
+
+  async remove(key: string): Promise<void> {
+    this.store.removeItem(key);
+  }
+}
+
+/** StateStore backed by one IndexedDB object store (values are structured clones, keyed by name). */
+export class IndexedDbStateStore implements StateStore {
+  private dbName: string;
+  private storeName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = 'polymarket-bot', storeName: string = 'state') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  async load<T>(key: string): Promise<T | null> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(this.storeName, 'readonly').objectStore(this.storeName).get(key);
+      request.onsuccess = () => resolve((request.result as T | undefined) ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async save<T>(key: string, value: T): Promise<void> {
+    await this.write((store) => store.put(value, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.write((store) => store.delete(key));
+  }
+
+  /** Run one readwrite request; resolves when the transaction commits. */
+  private async write(run: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(this.storeName, 'readwrite');
+      run(tx.objectStore(this.storeName));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      this.db.catch(() => {
+        this.db = null; // Retry on the next call
+      });
+    }
+    return this.db;
+  }
+}
+
+/** IndexedDB when available (browser), otherwise the given key/value store. */
+export function getDefaultStateStore(fallback: KeyValueStore): StateStore {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDbStateStore();
+  }
+  return new KeyValueStateStore(fallback);
+}
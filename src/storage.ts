@@ -0,0 +1,35 @@
+/**
+ * Key/value persistence used by TradingManager.
+ * Mirrors the subset of the Web Storage API we rely on so the browser can keep using
+ * localStorage while the Node runner plugs in a file-backed store.
+ */
+export interface KeyValueStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/** In-memory store (used when localStorage is unavailable, e.g. Node without a file store). */
+export class MemoryStore implements KeyValueStore {
+  private data: Map<string, string> = new Map();
+
+  getItem(key: string): string | null {
+    return this.data.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.data.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.data.delete(key);
+  }
+}
+
+/** localStorage when running in a browser, otherwise a fresh in-memory store. */
+export function getDefaultStore(): KeyValueStore {
+  if (typeof localStorage !== 'undefined') {
+    return localStorage;
+  }
+  return new MemoryStore();
+}
@@ -0,0 +1,74 @@
+/**
+ * Entry strategy interface.
+ * TradingManager owns order placement, fills, exits, Flip Guard and risk checks; a Strategy only decides
+ * when and where to bid, from a snapshot of the active market. Prices are on the 0-100 scale like StrategyConfig.
+ */
+
+import type { StrategyConfig, Position } from './trading-types';
+import type { BookSnapshot } from './paper-trading';
+import type { PriceToBeatStatus } from './price-to-beat';
+import type { PriceSource } from './price-consensus';
+import type { FairValue } from './fair-value';
+import { LateFavouriteStrategy } from './late-favourite-strategy';
+
+export type Direction = 'UP' | 'DOWN';
+
+export interface MarketSnapshot {
+  now: number; // epoch ms (simulated in backtests)
+  eventSlug: string;
+  tokenIds: Record<Direction, string>;
+  assetPrice: number | null; // Chainlink price of the underlying (USD)
+  priceToBeat: number | null;
+  priceToBeatStatus: PriceToBeatStatus; // Entries are only evaluated once it is confirmed
+  timeRemainingSeconds: number | null;
+  fairValue: FairValue | null; // Model UP/DOWN probabilities (0-100); null until volatility can be estimated
+  positions: Position[]; // Open positions in this event
+  config: StrategyConfig;
+  /** Best bid for the outcome token (0-100). Fetched on first use and cached for this evaluation. */
+  getBestBid(direction: Direction): Promise<number | null>;
+  /** Best ask for the outcome token (0-100). Fetched on first use and cached for this evaluation. */
+  getBestAsk(direction: Direction): Promise<number | null>;
+  /** Order book for the outcome token (decimal 0-1 prices, sizes in shares) when a book source is set, else null. */
+  getBook(direction: Direction): Promise<BookSnapshot | null>;
+  /** |priceToBeat - price| in USD measured with `source`; the smallest per-feed distance while the feeds diverge. */
+  getPriceDistance(source: PriceSource): number | null;
+}
+
+/** Limit BUY the manager should place. Size defaults to StrategyConfig.tradeSize at limitPrice. */
+export interface EntryIntent {
+  type: 'entry';
+  direction: Direction;
+  limitPrice: number; // 0-100
+  sizeUSD?: number;
+  postOnly: boolean; // Fee Guard: maker-only unless the strategy explicitly wants to cross
+  reason: string;
+}
+
+export type OrderIntent = EntryIntent;
+
+export interface Strategy {
+  readonly name: string;
+  /** Called every evaluation while flat and no entry order is pending. Return [] to do nothing. */
+  evaluate(snapshot: MarketSnapshot): Promise<OrderIntent[]>;
+}
+
+const STRATEGY_FACTORIES: Record<string, () => Strategy> = {
+  'late-favourite': () => new LateFavouriteStrategy(),
+};
+
+export const DEFAULT_STRATEGY_NAME = 'late-favourite';
+
+/** Strategies selectable by name (bot config, backtests). */
+export function getStrategyNames(): string[] {
+  return Object.keys(STRATEGY_FACTORIES);
+}
+
+export function registerStrategy(name: string, factory: () => Strategy): void {
+  STRATEGY_FACTORIES[name] = factory;
+}
+
+export function createStrategy(name: string = DEFAULT_STRATEGY_NAME): Strategy {
+  const factory = STRATEGY_FACTORIES[name];
+  if (!factory) throw new Error(`Unknown strategy "${name}" (available: ${getStrategyNames().join(', ')})`);
+  return factory();
+}
@@ -1,8 +1,19 @@
 import { WebSocketClient } from './websocket-client';
+import { MarketBookClient } from './market-book-client';
+import { UserChannelClient } from './user-channel-client';
 import { EventManager } from './event-manager';
+import type { EventDisplayData } from './event-manager';
 import { TradingManager } from './trading-manager';
 import { RedemptionService } from './redemption-service';
-import { getNext15MinIntervals } from './event-utils';
+import { PaperTradingEngine, LiveBookSource, createPaperRedeem, createPaperExchangeStateSource } from './paper-trading';
+import { createApiExchangeStateSource } from './exchange-state';
+import { PriceToBeatTracker } from './price-to-beat';
+import { fetchTickAt } from './tick-history';
+import { getAsset } from './asset-registry';
+import type { PriceSource } from './price-consensus';
+import { buildTradeExport, getExportFileName, toCsv, type ExportFormat, type ExportView } from './trade-export';
+import { getPerformanceAnalytics, type PnlBucket } from './performance-analytics';
+import { MARKET_SERIES, DEFAULT_MARKET_SERIES_ID, isMarketSeriesId, getSeriesIntervals } from './market-series';
 import type { PriceUpdate, ConnectionStatus } from './types';
 import { Chart } from 'chart.js/auto';
 import annotationPlugin from 'chartjs-plugin-annotation';
@@ -10,27 +21,42 @@ import { initializeBrowserClobClient as createBrowserClobClientFromInit } from '
 
 Chart.register(annotationPlugin);
 
+const TICK_HISTORY_RETRY_MS = 15000; // Ask /api/ticks again this often until it has the event's opening tick
+const TICKS_API_URL = import.meta.env.VITE_TICKS_API_URL || '/api/ticks'; // Or a tick collector's own server
+
 export class StreamingPlatform {
   private wsClient: WebSocketClient;
+  private marketBooks: MarketBookClient; // CLOB market socket: live UP/DOWN books for the active event
+  private userChannel: UserChannelClient; // CLOB user socket: our order and fill events while a trading session is up
   private eventManager: EventManager;
   private tradingManager: TradingManager;
   private currentPrice: number | null = null;
+  private lastPriceUpdateAt: number | null = null; // Local receive time of currentPrice, traded asset only (TradingManager feed halt)
   private priceHistory: Array<{ timestamp: number; value: number }> = [];
   private maxHistorySize = 100;
   private currentStatus: ConnectionStatus = {
     connected: false,
     source: null,
     lastUpdate: null,
-    error: null
+    error: null,
+    stale: true,
+    lastMessageAt: null,
+    reconnectAttempt: 0
   };
   private countdownInterval: number | null = null;
-  private eventPriceToBeat: Map<string, number> = new Map(); // Map of event slug to price to beat
+  private priceToBeat: PriceToBeatTracker = new PriceToBeatTracker(); // Opening price per event (provisional until confirmed)
   private eventLastPrice: Map<string, number> = new Map(); // Map of event slug to last price (from previous event end)
+  private tickHistoryLookups: Map<string, number> = new Map(); // Event slug -> time of the last /api/ticks lookup
+  private tickHistoryRecovered: Set<string> = new Set(); // Event slugs whose opening tick /api/ticks returned
   private upPrice: number | null = null; // Current UP token price (0-100 scale)
   private downPrice: number | null = null; // Current DOWN token price (0-100 scale)
   private priceUpdateInterval: number | null = null; // Interval for updating UP/DOWN prices
   private redemptionService: RedemptionService | null = null; // Auto-redemption for resolved markets (background)
+  private paperEngine: PaperTradingEngine | null = null; // Set while a paper trading session is active
+  private paperRedemptionService: RedemptionService | null = null; // Settles paper positions when markets resolve
+  private paperSwitching: boolean = false; // Paper session start/stop in progress; clicks are ignored until it settles
   private priceChart: Chart | null = null; // Chart.js line chart instance
+  private analyticsCharts: Map<string, Chart> = new Map(); // Analytics tab charts by canvas id
   private positionsRefreshIntervalId: number | null = null; // Periodic refresh of positions list
   // Wallet connection state
   private walletState: {
@@ -57,8 +83,26 @@ export class StreamingPlatform {
 
   constructor() {
     this.wsClient = new WebSocketClient();
-    this.eventManager = new EventManager();
+    this.marketBooks = new MarketBookClient();
+    // Market series from the URL (?series=5m|15m|1h|4h|1d), 15m by default
+    const seriesId = new URLSearchParams(window.location.search).get('series') ?? DEFAULT_MARKET_SERIES_ID;
+    this.eventManager = new EventManager('btc', MARKET_SERIES[isMarketSeriesId(seriesId) ? seriesId : DEFAULT_MARKET_SERIES_ID]);
     this.tradingManager = new TradingManager();
+    this.tradingManager.setBookSource(this.marketBooks);
+    this.userChannel = new UserChannelClient();
+    this.userChannel.setCallbacks(
+      (event) => this.tradingManager.handleUserChannelEvent(event),
+      (status) => this.tradingManager.setUserChannelConnected(status.connected)
+    );
+    this.marketBooks.setCallbacks(
+      (tokenId) => {
+        this.tradingManager.handleBookUpdate(tokenId);
+        this.applyBookPrices();
+      },
+      (status) => {
+        if (status.error) console.warn('[MarketBookClient] Book feed error:', status.error);
+      }
+    );
     this.eventManager.setOnEventsUpdated(() => {
       this.renderEventsTable();
     });
@@ -66,6 +110,9 @@ export class StreamingPlatform {
       this.handlePriceUpdate.bind(this),
       this.handleStatusChange.bind(this)
     );
+    this.wsClient.setOnConsensusUpdate((consensus) => {
+      if (consensus.asset === this.eventManager.getAsset()) this.tradingManager.updateReferencePrices(consensus);
+    });
     this.tradingManager.setOnStatusUpdate(() => {
       this.renderTradingSection();
     });
@@ -79,9 +126,11 @@ export class StreamingPlatform {
     });
     this.tradingManager.loadStrategyConfig();
     this.tradingManager.loadTrades();
+    // Positions, orders and active event saved before the last reload
+    this.tradingManager.restoreState().then(() => this.renderTradingSection());
     this.redemptionService = new RedemptionService({
       getPositions: () => this.tradingManager.getPositions(),
-      removePositions: (ids) => this.tradingManager.removePositionsByIds(ids),
+      removePositions: (ids, resolution) => this.tradingManager.removePositionsByIds(ids, resolution),
       onRedemptionSuccess: (eventSlug, positionIds) => {
         console.log('[Redemption] Redeemed winning tokens:', eventSlug, positionIds.length, 'position(s)');
         this.renderTradingSection();
@@ -125,7 +174,10 @@ export class StreamingPlatform {
         connected: false,
         source: null,
         lastUpdate: null,
-        error: null
+        error: null,
+        stale: true,
+        lastMessageAt: this.currentStatus.lastMessageAt,
+        reconnectAttempt: 0
       };
       this.updateUI();
     });
@@ -147,6 +199,13 @@ export class StreamingPlatform {
       this.initializeTradingSession();
     });
 
+    const paperSessionBtn = document.getElementById('paper-session');
+    paperSessionBtn?.addEventListener('click', () => {
+      if (this.paperSwitching) return;
+      const action = this.paperEngine ? this.stopPaperSession() : this.startPaperSession();
+      action.catch((error) => this.handlePaperSessionError(error));
+    });
+
     // Trading controls
     const startTradingBtn = document.getElementById('start-trading');
     const stopTradingBtn = document.getElementById('stop-trading');
@@ -154,6 +213,7 @@ export class StreamingPlatform {
     const clearTradesBtn = document.getElementById('clear-trades');
 
     startTradingBtn?.addEventListener('click', () => {
+      if (this.paperSwitching) return; // Trades and positions are being swapped to or from the paper namespace
       this.tradingManager.startTrading();
       this.renderTradingSection();
     });
@@ -188,6 +248,10 @@ export class StreamingPlatform {
       this.saveStrategyConfig();
     });
 
+    document.getElementById('export-trades')?.addEventListener('click', () => {
+      this.exportTrades();
+    });
+
     clearTradesBtn?.addEventListener('click', () => {
       if (confirm('Are you sure you want to clear all trades? This cannot be undone.')) {
         this.tradingManager.clearTrades();
@@ -204,6 +268,9 @@ export class StreamingPlatform {
     refreshOpenOrdersBtn?.addEventListener('click', () => {
       this.fetchAndDisplayOpenOrders();
     });
+    document.getElementById('refresh-analytics')?.addEventListener('click', () => {
+      this.renderAnalytics();
+    });
 
     // Events section collapsible functionality
     const eventsHeader = document.getElementById('events-section-header');
@@ -230,7 +297,11 @@ export class StreamingPlatform {
   }
 
   private handlePriceUpdate(update: PriceUpdate): void {
+    // The socket streams every registered asset; only the traded one drives the price to beat, trading and the feed halt
+    if (update.payload.symbol !== getAsset(this.eventManager.getAsset()).symbol) return;
     this.currentPrice = update.payload.value;
+    this.lastPriceUpdateAt = Date.now();
+    this.priceToBeat.recordTick(update.payload.timestamp, update.payload.value);
     this.priceHistory.push({
       timestamp: update.payload.timestamp,
       value: update.payload.value
@@ -250,6 +321,7 @@ export class StreamingPlatform {
     this.updateTradingManager();
 
     this.updatePriceDisplay();
+    this.updateFairValueDisplay();
   }
 
   private capturePriceForExpiredEvent(): void {
@@ -265,16 +337,10 @@ export class StreamingPlatform {
         // If previous event is expired and we haven't stored the last price for the next event yet
         if (previousEvent.status === 'expired' && !this.eventLastPrice.has(event.slug) && this.currentPrice !== null) {
           // Store the current price as the last price (price at the last second of previous event)
-          // This will be used as "Price to Beat" for the next event when it becomes active
+          // Shown alongside the next event; its price to beat comes from PriceToBeatTracker
           this.eventLastPrice.set(event.slug, this.currentPrice);
           console.log(`[Last Price] Captured last price for event ${event.slug} from expired event ${previousEvent.slug}: $${this.currentPrice.toFixed(2)}`);
           
-          // If this event is now active, set it as price to beat
-          if (event.status === 'active' && !this.eventPriceToBeat.has(event.slug)) {
-            this.eventPriceToBeat.set(event.slug, this.currentPrice);
-            console.log(`[Price to Beat] Set price to beat for active event ${event.slug}: $${this.currentPrice.toFixed(2)}`);
-          }
-          
           // Re-render to show the last price and update active event
           this.renderEventsTable();
           this.renderActiveEvent();
@@ -284,21 +350,53 @@ export class StreamingPlatform {
   }
 
   private capturePriceForActiveEvent(): void {
-    if (this.currentPrice === null) return;
-
     const events = this.eventManager.getEvents();
     const activeEvent = events.find(e => e.status === 'active');
+    if (!activeEvent) return;
 
-    // Price to Beat = first BTC value of the active event (set once when we have no value yet)
-    if (activeEvent && !this.eventPriceToBeat.has(activeEvent.slug)) {
-      this.eventPriceToBeat.set(activeEvent.slug, this.currentPrice);
-      console.log(`[Price to Beat] Set first BTC value for active event ${activeEvent.slug}: $${this.currentPrice.toFixed(2)}`);
+    // Price to Beat: Gamma metadata or buffered opening tick (confirmed), else the current price (provisional)
+    const previous = this.priceToBeat.get(activeEvent.slug);
+    const next = this.priceToBeat.update(activeEvent, this.currentPrice);
+    if (next && next !== previous) {
       this.renderActiveEvent();
     }
+    if (next?.status !== 'confirmed' || !this.eventLastPrice.has(activeEvent.slug)) {
+      this.recoverFromTickHistory(activeEvent);
+    }
+  }
+
+  /**
+   * Event started before this page loaded: ask the server-side tick history for its opening and last price.
+   * Retried every TICK_HISTORY_RETRY_MS until the opening tick is found (route down, or collector not caught up).
+   */
+  private async recoverFromTickHistory(event: EventDisplayData): Promise<void> {
+    if (this.tickHistoryRecovered.has(event.slug)) return;
+    const lastLookup = this.tickHistoryLookups.get(event.slug);
+    if (lastLookup !== undefined && Date.now() - lastLookup < TICK_HISTORY_RETRY_MS) return;
+    this.tickHistoryLookups.set(event.slug, Date.now());
+
+    const lookup = await fetchTickAt('btc', event.timestamp * 1000, TICKS_API_URL);
+    if (!lookup) return;
+    if (lookup.opening) this.tickHistoryRecovered.add(event.slug);
+    let changed = false;
+    if (lookup.opening && this.priceToBeat.get(event.slug)?.status !== 'confirmed') {
+      this.priceToBeat.confirmFromHistory(event.slug, lookup.opening.value);
+      changed = true;
+    }
+    // Last price = final tick of the previous event (only trusted without a feed gap across the start)
+    if (lookup.opening && lookup.previous && !this.eventLastPrice.has(event.slug)) {
+      this.eventLastPrice.set(event.slug, lookup.previous.value);
+      changed = true;
+    }
+    if (changed) {
+      this.updateTradingManager();
+      this.renderEventsTable();
+    }
   }
 
   private handleStatusChange(status: ConnectionStatus): void {
     this.currentStatus = status;
+    this.tradingManager.setPriceFeedStale(status.stale);
     this.updateUI();
   }
 
@@ -336,9 +434,11 @@ export class StreamingPlatform {
     const errorElement = document.getElementById('error-message');
 
     if (statusElement) {
-      const isConnected = this.currentStatus.connected;
-      statusElement.textContent = isConnected ? 'Connected' : 'Disconnected';
-      statusElement.className = `text-[11px] font-medium ${isConnected ? 'text-emerald-500' : 'text-slate-500'}`;
+      const { connected: isConnected, stale, reconnectAttempt } = this.currentStatus;
+      statusElement.textContent = isConnected
+        ? (stale ? 'Connected (stale feed)' : 'Connected')
+        : (reconnectAttempt > 0 ? `Reconnecting (attempt ${reconnectAttempt})` : 'Disconnected');
+      statusElement.className = `text-[11px] font-medium ${isConnected && !stale ? 'text-emerald-500' : isConnected ? 'text-amber-500' : 'text-slate-500'}`;
     }
 
     if (errorElement) {
@@ -388,7 +488,7 @@ export class StreamingPlatform {
       }
       
       // Still try to render with placeholder data if we have timestamps
-      const timestamps = getNext15MinIntervals(10);
+      const timestamps = getSeriesIntervals(this.eventManager.getSeries(), 10);
       if (timestamps.length > 0) {
         this.updateLastPrices();
         this.renderEventsTable();
@@ -486,6 +586,7 @@ export class StreamingPlatform {
     const activeEvent = events.find(e => e.status === 'active');
 
     if (!activeEvent || !activeEvent.clobTokenIds || activeEvent.clobTokenIds.length < 2) {
+      this.marketBooks.setAssetIds([]);
       this.upPrice = null;
       this.downPrice = null;
       // Update DOM to show no prices
@@ -496,6 +597,12 @@ export class StreamingPlatform {
     const upTokenId = activeEvent.clobTokenIds[0]; // First token = UP
     const downTokenId = activeEvent.clobTokenIds[1]; // Second token = DOWN
 
+    // Stream the active event's books; while the socket has both, prices come from it instead of /price
+    this.marketBooks.setAssetIds([upTokenId, downTokenId]);
+    if (this.applyBookPrices()) {
+      return;
+    }
+
     try {
       // Fetch prices in parallel using proxy to avoid CORS issues
       const [upPriceResult, downPriceResult] = await Promise.all([
@@ -542,6 +649,32 @@ export class StreamingPlatform {
     }
   }
 
+  /**
+   * Set UP/DOWN prices (best bid, as /price?side=BUY) from the streamed books.
+   * Returns false when either book is not available yet.
+   */
+  private applyBookPrices(): boolean {
+    const [upTokenId, downTokenId] = this.getActiveTokenIds();
+    if (!upTokenId || !downTokenId) return false;
+    const up = this.marketBooks.getBestBidAsk(upTokenId);
+    const down = this.marketBooks.getBestBidAsk(downTokenId);
+    if (!up || !down) return false;
+    const upPrice = up.bid !== null ? up.bid * 100 : null;
+    const downPrice = down.bid !== null ? down.bid * 100 : null;
+    if (upPrice !== this.upPrice || downPrice !== this.downPrice) {
+      this.upPrice = upPrice;
+      this.downPrice = downPrice;
+      this.updateUpDownPriceDisplay();
+    }
+    return true;
+  }
+
+  /** UP and DOWN token IDs of the active event, or [] when there is none. */
+  private getActiveTokenIds(): string[] {
+    const activeEvent = this.eventManager.getEvents().find(e => e.status === 'active');
+    return activeEvent?.clobTokenIds && activeEvent.clobTokenIds.length >= 2 ? activeEvent.clobTokenIds.slice(0, 2) : [];
+  }
+
   /**
    * Fallback: Fetch price directly from CLOB API (if proxy fails)
    */
@@ -595,6 +728,26 @@ export class StreamingPlatform {
         downPriceElement.classList.remove('price-update');
       }, 300);
     }
+    this.updateFairValueDisplay();
+  }
+
+  /** Model fair value and edge (fair minus best bid) under the UP/DOWN prices. */
+  private updateFairValueDisplay(): void {
+    const fairValue = this.tradingManager.getFairValue();
+    const sides: Array<[string, number | undefined, number | null]> = [
+      ['up-fair-value', fairValue?.up, this.upPrice],
+      ['down-fair-value', fairValue?.down, this.downPrice],
+    ];
+    for (const [id, fair, market] of sides) {
+      const element = document.getElementById(id);
+      if (!element) continue;
+      if (fair === undefined) {
+        element.textContent = 'Fair value --';
+        continue;
+      }
+      const edge = market !== null ? fair - market : null;
+      element.textContent = `Fair ${fair.toFixed(1)}${edge !== null ? ` · edge ${edge >= 0 ? '+' : ''}${edge.toFixed(1)}` : ''}`;
+    }
   }
 
   /**
@@ -636,15 +789,13 @@ export class StreamingPlatform {
     }
 
     // Get price to beat for this event
-    const priceToBeat = this.eventPriceToBeat.get(activeEvent.slug);
-    const priceToBeatDisplay = priceToBeat !== undefined 
-      ? this.formatPrice(priceToBeat) 
-      : (this.currentPrice !== null ? this.formatPrice(this.currentPrice) + ' (current)' : 'Loading...');
-
-    // If we have a current price but no stored price to beat, capture it now
-    if (priceToBeat === undefined && this.currentPrice !== null) {
-      this.eventPriceToBeat.set(activeEvent.slug, this.currentPrice);
-    }
+    const priceToBeat = this.priceToBeat.update(activeEvent, this.currentPrice);
+    const priceToBeatDisplay = priceToBeat !== null ? this.formatPrice(priceToBeat.value) : 'Loading...';
+    const priceToBeatBadge = priceToBeat === null
+      ? ''
+      : priceToBeat.status === 'confirmed'
+        ? `<span class="text-[10px] font-bold px-2 py-0.5 rounded bg-emerald-500/10 text-emerald-600 border border-emerald-500/20 uppercase tracking-widest" title="Opening price from ${priceToBeat.source === 'gamma' ? 'Polymarket' : 'the Chainlink tick at the event start'}">Confirmed</span>`
+        : '<span class="text-[10px] font-bold px-2 py-0.5 rounded bg-amber-500/10 text-amber-600 border border-amber-500/20 uppercase tracking-widest" title="First price seen after the event started; new entries wait for the confirmed opening price">Provisional</span>';
 
     this.updateFooterIds(activeEvent.conditionId || '', activeEvent.questionId || '', '');
 
@@ -672,6 +823,7 @@ export class StreamingPlatform {
         <div class="flex flex-col items-center justify-center">
           <p class="text-sm font-medium text-slate-500 mb-1">Target Price to Beat</p>
           <p class="text-4xl font-mono font-bold text-violet-600 dark:text-violet-400 tracking-tighter">${priceToBeatDisplay}</p>
+          <div class="mt-2">${priceToBeatBadge}</div>
         </div>
       </div>
       <div class="grid grid-cols-2 gap-6">
@@ -679,11 +831,13 @@ export class StreamingPlatform {
           <span class="material-icons-round text-4xl group-hover:-translate-y-1 transition-transform">expand_less</span>
           <span class="text-2xl font-black uppercase tracking-widest">UP</span>
           <span class="text-lg font-bold bg-white/20 px-4 py-1 rounded-full" id="up-price-value">${upPriceStr}</span>
+          <span class="text-xs font-medium opacity-80" id="up-fair-value"></span>
         </button>
         <button type="button" class="group relative overflow-hidden bg-red-500 text-white p-6 rounded-2xl flex flex-col items-center gap-2 hover:opacity-90 transition-all transform active:scale-[0.98]" id="down-price-button">
           <span class="material-icons-round text-4xl group-hover:translate-y-1 transition-transform">expand_more</span>
           <span class="text-2xl font-black uppercase tracking-widest">DOWN</span>
           <span class="text-lg font-bold bg-white/20 px-4 py-1 rounded-full" id="down-price-value">${downPriceStr}</span>
+          <span class="text-xs font-medium opacity-80" id="down-fair-value"></span>
         </button>
       </div>
     `;
@@ -762,6 +916,7 @@ export class StreamingPlatform {
       }
       this.priceChart = null;
     }
+    this.destroyAnalyticsCharts();
 
     console.log('Rendering platform UI...');
 
@@ -842,6 +997,7 @@ export class StreamingPlatform {
                   <button type="button" data-tab="positions" class="tab-btn border-b-2 border-indigo-500 py-4 px-6 text-sm font-bold text-indigo-500" aria-label="Positions">Positions</button>
                   <button type="button" data-tab="open-orders" class="tab-btn border-b-2 border-transparent py-4 px-6 text-sm font-medium text-slate-500 hover:text-slate-700 dark:hover:text-slate-300" aria-label="Open Orders">Open Orders</button>
                   <button type="button" data-tab="history" class="tab-btn border-b-2 border-transparent py-4 px-6 text-sm font-medium text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">History</button>
+                  <button type="button" data-tab="analytics" class="tab-btn border-b-2 border-transparent py-4 px-6 text-sm font-medium text-slate-500 hover:text-slate-700 dark:hover:text-slate-300" aria-label="Analytics">Analytics</button>
                   <button type="button" data-tab="wallet" class="tab-btn border-b-2 border-transparent py-4 px-6 text-sm font-medium text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">Wallet Info</button>
                 </nav>
               </div>
@@ -864,12 +1020,42 @@ export class StreamingPlatform {
                 <div id="tab-history" class="tab-panel hidden">
                   <div id="trades-table-container"></div>
                 </div>
+                <div id="tab-analytics" class="tab-panel hidden" role="tabpanel" aria-label="Analytics">
+                  <div class="flex flex-wrap items-center justify-between gap-4 mb-4">
+                    <button id="refresh-analytics" type="button" class="px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-lg text-sm font-medium">Refresh</button>
+                    <span class="text-sm text-slate-500">Closed events from the local trade history (PnL after fees)</span>
+                  </div>
+                  <div id="analytics-stats" class="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6"></div>
+                  <div class="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div class="md:col-span-2">
+                      <h3 class="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Equity curve (realized PnL)</h3>
+                      <div class="h-56"><canvas id="analytics-equity-chart"></canvas></div>
+                    </div>
+                    <div>
+                      <h3 class="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">PnL by asset</h3>
+                      <div class="h-48"><canvas id="analytics-asset-chart"></canvas></div>
+                    </div>
+                    <div>
+                      <h3 class="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">PnL by exit reason</h3>
+                      <div class="h-48"><canvas id="analytics-exit-chart"></canvas></div>
+                    </div>
+                    <div>
+                      <h3 class="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">PnL by hour of entry (UTC)</h3>
+                      <div class="h-48"><canvas id="analytics-hour-chart"></canvas></div>
+                    </div>
+                    <div>
+                      <h3 class="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">PnL by time remaining at entry</h3>
+                      <div class="h-48"><canvas id="analytics-time-remaining-chart"></canvas></div>
+                    </div>
+                  </div>
+                </div>
                 <div id="tab-wallet" class="tab-panel hidden">
                   <div id="wallet-section" class="space-y-4">
                     <div id="wallet-status-display-tab"></div>
                     <div class="flex flex-wrap gap-2">
                       <button id="connect-wallet" type="button" class="px-4 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-lg text-sm font-medium">Connect Wallet</button>
                       <button id="initialize-session" type="button" class="px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-lg text-sm font-medium disabled:opacity-50" disabled>Initialize Trading Session</button>
+                      <button id="paper-session" type="button" class="px-4 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-lg text-sm font-medium disabled:opacity-50">Start Paper Trading</button>
                     </div>
                     <div id="wallet-info" class="bg-slate-50 dark:bg-slate-700/50 rounded-xl p-4 space-y-2" style="display: none;">
                       <div class="flex justify-between"><span class="text-slate-500 text-sm">EOA Address:</span><span id="eoa-address" class="font-mono text-xs break-all">--</span></div>
@@ -882,7 +1068,7 @@ export class StreamingPlatform {
             </div>
             <div class="events-section border border-slate-200 dark:border-slate-700 rounded-2xl bg-white dark:bg-slate-800 overflow-hidden">
               <div id="events-section-header" class="flex justify-between items-center px-6 py-4 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/50">
-                <h2 class="font-bold text-slate-900 dark:text-white">BTC Up/Down 15m Events</h2>
+                <h2 class="font-bold text-slate-900 dark:text-white">BTC Up/Down ${this.eventManager.getSeries().label} Events</h2>
                 <span id="events-chevron" class="text-indigo-500 font-bold">▶</span>
               </div>
               <div id="events-section-content" class="events-section-content collapsed overflow-x-auto">
@@ -918,22 +1104,87 @@ export class StreamingPlatform {
                     <select id="trade-size-unit" class="bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm min-w-[80px]">
                       <option value="USD">USD</option>
                       <option value="shares">Shares</option>
+                      <option value="kelly" title="Fractional Kelly from the fair value; Trade Size is the per-trade cap (USD)">Kelly</option>
                     </select>
                   </div>
                 </div>
                 </div>
-                <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Price Difference (USD)</label><input type="number" id="price-difference" value="" min="0" step="0.01" placeholder="Optional" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                <div class="grid grid-cols-2 gap-4">
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Kelly fraction</label><input type="number" id="kelly-fraction" value="0.25" min="0.01" max="1" step="0.05" title="Kelly sizing: fraction of the full-Kelly stake" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Max position (% balance)</label><input type="number" id="max-position-percent" value="50" min="1" max="100" step="5" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Max per event (USD)</label><input type="number" id="max-event-size" value="" min="0" step="1" placeholder="No cap" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Max per day (USD)</label><input type="number" id="max-daily-size" value="" min="0" step="1" placeholder="No cap" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                </div>
+                <div class="grid grid-cols-2 gap-4">
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Price Difference (USD)</label><input type="number" id="price-difference" value="" min="0" step="0.01" placeholder="Optional" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Min Edge (pts)</label><input type="number" id="min-edge" value="" step="0.5" placeholder="Optional" title="Bid only when model fair value minus the limit price is at least this" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                </div>
                 <div class="grid grid-cols-2 gap-4">
                   <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Flip Guard Pending (USD)</label><input type="number" id="flip-guard-pending-distance" value="15" min="0" step="0.5" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
                   <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Flip Guard Filled (USD)</label><input type="number" id="flip-guard-filled-distance" value="5" min="0" step="0.5" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
                 </div>
+                <div class="grid grid-cols-2 gap-4">
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Flip Guard mode</label>
+                    <select id="flip-guard-mode" title="Volatility: thresholds from realized volatility × √(time remaining)" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm">
+                      <option value="fixed">Fixed USD</option>
+                      <option value="volatility">Volatility</option>
+                    </select>
+                  </div>
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Volatility window (s)</label><input type="number" id="flip-guard-volatility-window" value="300" min="30" step="30" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Pending flip prob.</label><input type="number" id="flip-guard-pending-probability" value="0.3" min="0.01" max="0.49" step="0.01" title="Volatility mode: cancel pending bids above this chance of a flip" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Filled flip prob.</label><input type="number" id="flip-guard-filled-probability" value="0.45" min="0.01" max="0.49" step="0.01" title="Volatility mode: emergency sell above this chance of a flip" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                </div>
+                <div class="grid grid-cols-2 gap-4">
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Price Difference source</label>
+                    <select id="price-difference-source" title="Price the Price Difference filter measures with" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm">
+                      <option value="chainlink">Chainlink</option>
+                      <option value="exchange">Exchange</option>
+                      <option value="consensus">Consensus</option>
+                    </select>
+                  </div>
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Flip Guard source</label>
+                    <select id="flip-guard-price-source" title="Price Flip Guard measures with; markets resolve on Chainlink, exchange prices lead it" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm">
+                      <option value="chainlink">Chainlink</option>
+                      <option value="exchange">Exchange</option>
+                      <option value="consensus">Consensus</option>
+                    </select>
+                  </div>
+                </div>
                 <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Entry time remaining max (s)</label><input type="number" id="entry-time-remaining-max" value="180" min="0" step="30" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                <div class="grid grid-cols-3 gap-4">
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Stale: block (s)</label><input type="number" id="stale-feed-block" value="10" min="1" step="1" title="Price older than this blocks entries and Flip Guard" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Stale: cancel (s)</label><input type="number" id="stale-feed-cancel" value="20" min="1" step="1" title="Price older than this cancels pending entry bids" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Stale: flatten (s)</label><input type="number" id="stale-feed-flatten" value="" min="1" step="1" placeholder="Off" title="Price older than this market-sells open positions" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                </div>
+                <div class="grid grid-cols-3 gap-4">
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Max daily loss ($)</label><input type="number" id="max-daily-loss" value="" min="0" step="1" placeholder="Off" title="Realized loss today (UTC) that trips the kill switch" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Max rolling loss ($)</label><input type="number" id="max-rolling-loss" value="" min="0" step="1" placeholder="Off" title="Realized loss over the rolling window that trips the kill switch" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Rolling window (h)</label><input type="number" id="rolling-loss-window" value="24" min="1" step="1" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                </div>
+                <div class="grid grid-cols-3 gap-4">
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Max losing events</label><input type="number" id="max-consecutive-losing-events" value="" min="1" step="1" placeholder="Off" title="Losing events in a row that trip the kill switch" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Max drawdown ($)</label><input type="number" id="max-drawdown" value="" min="0" step="1" placeholder="Off" title="Drop of realized equity from its peak that trips the kill switch" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm" /></div>
+                  <div class="space-y-1.5"><label class="text-xs font-bold text-slate-500 uppercase">Kill switch</label>
+                    <select id="kill-switch-flatten" title="What happens to open positions when the kill switch trips" class="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm">
+                      <option value="false">Keep exits</option>
+                      <option value="true">Flatten</option>
+                    </select>
+                  </div>
+                </div>
                 <button id="save-strategy" type="button" class="w-full bg-white border border-slate-200 text-slate-700 font-bold py-3 rounded-xl hover:bg-slate-50 transition-colors shadow-lg">Save Strategy</button>
                 <div class="grid grid-cols-2 gap-3 pt-4 border-t border-slate-100 dark:border-slate-700">
                   <button id="start-trading" type="button" class="bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400 font-bold py-2 rounded-lg text-sm flex items-center justify-center gap-1"><span class="material-icons-round text-sm">play_arrow</span> Start</button>
                   <button id="stop-trading" type="button" class="bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 font-bold py-2 rounded-lg text-sm flex items-center justify-center gap-1"><span class="material-icons-round text-sm">stop</span> Stop</button>
                 </div>
                 <button id="sell-all-btn" type="button" class="w-full bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold py-2 rounded-lg text-sm">Sell all / Emergency</button>
+                <div class="grid grid-cols-2 gap-3">
+                  <select id="export-view" title="Trades: one row per fill, fee and redemption. Events: one summary row per event. JSON: both." class="bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm">
+                    <option value="records-csv">Trades (CSV)</option>
+                    <option value="events-csv">Events (CSV)</option>
+                    <option value="json">Trades + events (JSON)</option>
+                  </select>
+                  <button id="export-trades" type="button" class="bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold py-2 rounded-lg text-sm flex items-center justify-center gap-1"><span class="material-icons-round text-sm">download</span> Export</button>
+                </div>
                 <button id="clear-trades" type="button" class="w-full bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold py-2 rounded-lg text-sm">Clear Current Trades</button>
               </div>
             </div>
@@ -990,6 +1241,9 @@ export class StreamingPlatform {
         if (tab === 'positions') {
           this.fetchAndDisplayPositions();
         }
+        if (tab === 'analytics') {
+          this.renderAnalytics();
+        }
       });
     });
   }
@@ -1003,7 +1257,7 @@ export class StreamingPlatform {
 
     const events = this.eventManager.getEvents();
     const activeEvent = events.find((e) => e.status === 'active');
-    const priceToBeat = activeEvent ? this.eventPriceToBeat.get(activeEvent.slug) : undefined;
+    const priceToBeat = activeEvent ? this.priceToBeat.get(activeEvent.slug)?.value : undefined;
 
     const slice = this.priceHistory.slice(-60);
     const labels = slice.length > 0
@@ -1113,15 +1367,138 @@ export class StreamingPlatform {
     this.priceChart = new Chart(ctx, chartConfig as any);
   }
 
+  /** Analytics tab: win/loss stats and Chart.js charts from the stored trade history (performance-analytics.ts). */
+  private renderAnalytics(): void {
+    const analytics = getPerformanceAnalytics(this.tradingManager.getLedgerEntries(), this.tradingManager.getTrades());
+    const { stats } = analytics;
+    const formatUsd = (value: number | null) => (value === null ? '—' : `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`);
+    const pnlClass = (value: number | null) => (value === null ? '' : value >= 0 ? 'text-emerald-500' : 'text-red-500');
+
+    const statsContainer = document.getElementById('analytics-stats');
+    if (statsContainer) {
+      const cards: Array<[string, string, string]> = [
+        ['Closed events', `${stats.events} (${stats.wins}W / ${stats.losses}L)`, ''],
+        ['Win rate', stats.winRate === null ? '—' : `${(stats.winRate * 100).toFixed(0)}%`, ''],
+        ['Avg win / loss', `${formatUsd(stats.averageWin)} / ${formatUsd(stats.averageLoss)}`, ''],
+        ['Expectancy', formatUsd(stats.expectancy), pnlClass(stats.expectancy)],
+      ];
+      statsContainer.innerHTML = cards.map(([label, value, valueClass]) => `
+        <div class="bg-slate-50 dark:bg-slate-700/50 p-4 rounded-xl">
+          <p class="text-xs text-slate-500">${label}</p>
+          <p class="text-lg font-bold ${valueClass}">${value}</p>
+        </div>
+      `).join('');
+    }
+
+    this.destroyAnalyticsCharts();
+    const isDark = document.documentElement.classList.contains('dark');
+    const gridColor = isDark ? 'rgba(148, 163, 184, 0.15)' : 'rgba(148, 163, 184, 0.2)';
+    const textColor = isDark ? '#94a3b8' : '#64748b';
+    const scales = {
+      x: { grid: { color: gridColor }, ticks: { maxTicksLimit: 12, color: textColor, font: { size: 10 } } },
+      y: {
+        grid: { color: gridColor },
+        ticks: { color: textColor, font: { size: 10 }, callback: (value: string | number) => (typeof value === 'number' ? formatUsd(value) : value) },
+      },
+    };
+
+    const equityCanvas = document.getElementById('analytics-equity-chart') as HTMLCanvasElement | null;
+    if (equityCanvas) {
+      const points = analytics.equityCurve;
+      const chartConfig = {
+        type: 'line' as const,
+        data: {
+          labels: points.map((p) => new Date(p.timestamp).toLocaleString('en-GB', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })),
+          datasets: [
+            {
+              label: 'Realized PnL',
+              data: points.map((p) => p.equity),
+              borderColor: '#6366f1',
+              backgroundColor: 'rgba(99, 102, 241, 0.08)',
+              fill: true,
+              tension: 0.1,
+              pointRadius: 0,
+              pointHoverRadius: 4,
+              borderWidth: 2,
+            },
+          ],
+        },
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          interaction: { intersect: false, mode: 'index' as const },
+          plugins: { legend: { display: false } },
+          scales,
+        },
+      };
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      this.analyticsCharts.set(equityCanvas.id, new Chart(equityCanvas, chartConfig as any));
+    }
+
+    const renderBarChart = (canvasId: string, buckets: PnlBucket[]) => {
+      const canvas = document.getElementById(canvasId) as HTMLCanvasElement | null;
+      if (!canvas) return;
+      const chartConfig = {
+        type: 'bar' as const,
+        data: {
+          labels: buckets.map((b) => b.label),
+          datasets: [
+            {
+              label: 'PnL',
+              data: buckets.map((b) => b.pnl),
+              backgroundColor: buckets.map((b) => (b.pnl >= 0 ? 'rgba(16, 185, 129, 0.7)' : 'rgba(239, 68, 68, 0.7)')),
+              borderRadius: 4,
+            },
+          ],
+        },
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          plugins: {
+            legend: { display: false },
+            tooltip: {
+              callbacks: {
+                afterLabel: (item: { dataIndex: number }) => {
+                  const bucket = buckets[item.dataIndex];
+                  return `${bucket.events} event(s), ${bucket.wins} won`;
+                },
+              },
+            },
+          },
+          scales,
+        },
+      };
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      this.analyticsCharts.set(canvasId, new Chart(canvas, chartConfig as any));
+    };
+    renderBarChart('analytics-asset-chart', analytics.byAsset);
+    renderBarChart('analytics-exit-chart', analytics.byExitReason);
+    renderBarChart('analytics-hour-chart', analytics.byHour);
+    renderBarChart('analytics-time-remaining-chart', analytics.byTimeRemaining);
+  }
+
+  private destroyAnalyticsCharts(): void {
+    this.analyticsCharts.forEach((chart) => {
+      try {
+        chart.destroy();
+      } catch {
+        // ignore
+      }
+    });
+    this.analyticsCharts.clear();
+  }
+
   private updateTradingManager(): void {
     const events = this.eventManager.getEvents();
     const activeEvent = events.find(e => e.status === 'active');
-    const priceToBeat = activeEvent ? this.eventPriceToBeat.get(activeEvent.slug) : null;
+    const priceToBeat = activeEvent ? this.priceToBeat.get(activeEvent.slug) : null;
 
     this.tradingManager.updateMarketData(
       this.currentPrice,
-      priceToBeat || null,
-      activeEvent || null
+      priceToBeat?.value ?? null,
+      activeEvent || null,
+      priceToBeat?.status,
+      this.lastPriceUpdateAt ?? undefined
     );
   }
 
@@ -1131,14 +1508,44 @@ export class StreamingPlatform {
     const profitTargetPrice = parseFloat((document.getElementById('profit-target-price') as HTMLInputElement)?.value || '100');
     const stopLossPrice = parseFloat((document.getElementById('stop-loss-price') as HTMLInputElement)?.value || '91');
     const tradeSize = parseFloat((document.getElementById('trade-size') as HTMLInputElement)?.value || '50');
-    const tradeSizeUnit = ((document.getElementById('trade-size-unit') as HTMLSelectElement)?.value || 'USD') as 'USD' | 'shares';
+    const tradeSizeUnit = ((document.getElementById('trade-size-unit') as HTMLSelectElement)?.value || 'USD') as 'USD' | 'shares' | 'kelly';
     const priceDifferenceInput = (document.getElementById('price-difference') as HTMLInputElement)?.value;
     const priceDifference = priceDifferenceInput && priceDifferenceInput.trim() !== ''
       ? parseFloat(priceDifferenceInput)
       : null;
+    const kellyFraction = parseFloat((document.getElementById('kelly-fraction') as HTMLInputElement)?.value || '0.25');
+    const maxPositionPercent = parseFloat((document.getElementById('max-position-percent') as HTMLInputElement)?.value || '50');
+    const maxEventSizeInput = (document.getElementById('max-event-size') as HTMLInputElement)?.value;
+    const maxEventSizeUsd = maxEventSizeInput && maxEventSizeInput.trim() !== '' ? parseFloat(maxEventSizeInput) : null;
+    const maxDailySizeInput = (document.getElementById('max-daily-size') as HTMLInputElement)?.value;
+    const maxDailySizeUsd = maxDailySizeInput && maxDailySizeInput.trim() !== '' ? parseFloat(maxDailySizeInput) : null;
+    const minEdgeInput = (document.getElementById('min-edge') as HTMLInputElement)?.value;
+    const minEdge = minEdgeInput && minEdgeInput.trim() !== '' ? parseFloat(minEdgeInput) : null;
     const flipGuardPending = parseFloat((document.getElementById('flip-guard-pending-distance') as HTMLInputElement)?.value || '15');
     const flipGuardFilled = parseFloat((document.getElementById('flip-guard-filled-distance') as HTMLInputElement)?.value || '5');
+    const flipGuardMode = ((document.getElementById('flip-guard-mode') as HTMLSelectElement)?.value || 'fixed') as 'fixed' | 'volatility';
+    const flipGuardVolatilityWindow = parseFloat((document.getElementById('flip-guard-volatility-window') as HTMLInputElement)?.value || '300');
+    const flipGuardPendingProbability = parseFloat((document.getElementById('flip-guard-pending-probability') as HTMLInputElement)?.value || '0.3');
+    const flipGuardFilledProbability = parseFloat((document.getElementById('flip-guard-filled-probability') as HTMLInputElement)?.value || '0.45');
+    const priceDifferenceSource = ((document.getElementById('price-difference-source') as HTMLSelectElement)?.value || 'chainlink') as PriceSource;
+    const flipGuardPriceSource = ((document.getElementById('flip-guard-price-source') as HTMLSelectElement)?.value || 'chainlink') as PriceSource;
     const entryTimeRemainingMax = parseFloat((document.getElementById('entry-time-remaining-max') as HTMLInputElement)?.value || '180');
+    const staleFeedBlock = parseFloat((document.getElementById('stale-feed-block') as HTMLInputElement)?.value || '10');
+    const staleFeedCancel = parseFloat((document.getElementById('stale-feed-cancel') as HTMLInputElement)?.value || '20');
+    const staleFeedFlattenInput = (document.getElementById('stale-feed-flatten') as HTMLInputElement)?.value;
+    const staleFeedFlatten = staleFeedFlattenInput && staleFeedFlattenInput.trim() !== ''
+      ? parseFloat(staleFeedFlattenInput)
+      : null;
+    const maxDailyLossInput = (document.getElementById('max-daily-loss') as HTMLInputElement)?.value;
+    const maxDailyLossUsd = maxDailyLossInput && maxDailyLossInput.trim() !== '' ? parseFloat(maxDailyLossInput) : null;
+    const maxRollingLossInput = (document.getElementById('max-rolling-loss') as HTMLInputElement)?.value;
+    const maxRollingLossUsd = maxRollingLossInput && maxRollingLossInput.trim() !== '' ? parseFloat(maxRollingLossInput) : null;
+    const rollingLossWindowHours = parseFloat((document.getElementById('rolling-loss-window') as HTMLInputElement)?.value || '24');
+    const maxLosingEventsInput = (document.getElementById('max-consecutive-losing-events') as HTMLInputElement)?.value;
+    const maxConsecutiveLosingEvents = maxLosingEventsInput && maxLosingEventsInput.trim() !== '' ? parseInt(maxLosingEventsInput, 10) : null;
+    const maxDrawdownInput = (document.getElementById('max-drawdown') as HTMLInputElement)?.value;
+    const maxDrawdownUsd = maxDrawdownInput && maxDrawdownInput.trim() !== '' ? parseFloat(maxDrawdownInput) : null;
+    const killSwitchFlatten = (document.getElementById('kill-switch-flatten') as HTMLSelectElement)?.value === 'true';
 
     this.tradingManager.setStrategyConfig({
       enabled,
@@ -1147,15 +1554,50 @@ export class StreamingPlatform {
       stopLossPrice,
       tradeSize,
       tradeSizeUnit,
+      kellyFraction,
+      maxPositionFraction: maxPositionPercent / 100,
+      maxEventSizeUsd,
+      maxDailySizeUsd,
       priceDifference,
+      priceDifferenceSource,
+      minEdge,
       flipGuardPendingDistanceUsd: flipGuardPending,
       flipGuardFilledDistanceUsd: flipGuardFilled,
+      flipGuardPriceSource,
+      flipGuardMode,
+      flipGuardVolatilityWindowSeconds: flipGuardVolatilityWindow,
+      flipGuardPendingFlipProbability: flipGuardPendingProbability,
+      flipGuardFilledFlipProbability: flipGuardFilledProbability,
       entryTimeRemainingMaxSeconds: entryTimeRemainingMax,
+      staleFeedBlockEntriesSeconds: staleFeedBlock,
+      staleFeedCancelBidsSeconds: staleFeedCancel,
+      staleFeedFlattenSeconds: staleFeedFlatten,
+      maxDailyLossUsd,
+      maxRollingLossUsd,
+      rollingLossWindowHours,
+      maxConsecutiveLosingEvents,
+      maxDrawdownUsd,
+      killSwitchFlatten,
     });
 
     alert('Strategy configuration saved!');
   }
 
+  /** Download the local trade history (PnL ledger) as CSV or JSON; see /api/trade-export for the full wallet history. */
+  private exportTrades(): void {
+    const choice = (document.getElementById('export-view') as HTMLSelectElement)?.value || 'records-csv';
+    const format: ExportFormat = choice === 'json' ? 'json' : 'csv';
+    const view: ExportView = choice === 'events-csv' ? 'events' : 'records';
+    const data = buildTradeExport(this.tradingManager.getLedgerEntries(), this.tradingManager.getTrades());
+    const content = format === 'json' ? JSON.stringify(data, null, 2) : toCsv(data, view);
+    const url = URL.createObjectURL(new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.paperEngine ? 'paper-' : ''}${getExportFileName(format, view)}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
   private renderTradingSection(): void {
     const status = this.tradingManager.getStatus();
     const config = this.tradingManager.getStrategyConfig();
@@ -1169,9 +1611,29 @@ export class StreamingPlatform {
     const tradeSizeInput = document.getElementById('trade-size') as HTMLInputElement;
     const tradeSizeUnitSelect = document.getElementById('trade-size-unit') as HTMLSelectElement;
     const priceDifferenceInput = document.getElementById('price-difference') as HTMLInputElement;
+    const kellyFractionInput = document.getElementById('kelly-fraction') as HTMLInputElement;
+    const maxPositionPercentInput = document.getElementById('max-position-percent') as HTMLInputElement;
+    const maxEventSizeInput = document.getElementById('max-event-size') as HTMLInputElement;
+    const maxDailySizeInput = document.getElementById('max-daily-size') as HTMLInputElement;
+    const minEdgeInput = document.getElementById('min-edge') as HTMLInputElement;
     const flipGuardPendingInput = document.getElementById('flip-guard-pending-distance') as HTMLInputElement;
     const flipGuardFilledInput = document.getElementById('flip-guard-filled-distance') as HTMLInputElement;
+    const flipGuardModeSelect = document.getElementById('flip-guard-mode') as HTMLSelectElement;
+    const flipGuardVolatilityWindowInput = document.getElementById('flip-guard-volatility-window') as HTMLInputElement;
+    const flipGuardPendingProbabilityInput = document.getElementById('flip-guard-pending-probability') as HTMLInputElement;
+    const flipGuardFilledProbabilityInput = document.getElementById('flip-guard-filled-probability') as HTMLInputElement;
+    const priceDifferenceSourceSelect = document.getElementById('price-difference-source') as HTMLSelectElement;
+    const flipGuardPriceSourceSelect = document.getElementById('flip-guard-price-source') as HTMLSelectElement;
     const entryTimeRemainingInput = document.getElementById('entry-time-remaining-max') as HTMLInputElement;
+    const staleFeedBlockInput = document.getElementById('stale-feed-block') as HTMLInputElement;
+    const staleFeedCancelInput = document.getElementById('stale-feed-cancel') as HTMLInputElement;
+    const staleFeedFlattenInput = document.getElementById('stale-feed-flatten') as HTMLInputElement;
+    const maxDailyLossInput = document.getElementById('max-daily-loss') as HTMLInputElement;
+    const maxRollingLossInput = document.getElementById('max-rolling-loss') as HTMLInputElement;
+    const rollingLossWindowInput = document.getElementById('rolling-loss-window') as HTMLInputElement;
+    const maxLosingEventsInput = document.getElementById('max-consecutive-losing-events') as HTMLInputElement;
+    const maxDrawdownInput = document.getElementById('max-drawdown') as HTMLInputElement;
+    const killSwitchFlattenSelect = document.getElementById('kill-switch-flatten') as HTMLSelectElement;
 
     if (enabledInput) enabledInput.checked = config.enabled;
     if (entryPriceInput) entryPriceInput.value = config.entryPrice.toString();
@@ -1184,20 +1646,42 @@ export class StreamingPlatform {
         ? config.priceDifference.toString()
         : '';
     }
+    if (kellyFractionInput) kellyFractionInput.value = (config.kellyFraction ?? 0.25).toString();
+    if (maxPositionPercentInput) maxPositionPercentInput.value = ((config.maxPositionFraction ?? 0.5) * 100).toString();
+    if (maxEventSizeInput) maxEventSizeInput.value = config.maxEventSizeUsd != null ? config.maxEventSizeUsd.toString() : '';
+    if (maxDailySizeInput) maxDailySizeInput.value = config.maxDailySizeUsd != null ? config.maxDailySizeUsd.toString() : '';
+    if (minEdgeInput) minEdgeInput.value = config.minEdge != null ? config.minEdge.toString() : '';
     if (flipGuardPendingInput) flipGuardPendingInput.value = (config.flipGuardPendingDistanceUsd ?? 15).toString();
     if (flipGuardFilledInput) flipGuardFilledInput.value = (config.flipGuardFilledDistanceUsd ?? 5).toString();
+    if (flipGuardModeSelect) flipGuardModeSelect.value = config.flipGuardMode ?? 'fixed';
+    if (flipGuardVolatilityWindowInput) flipGuardVolatilityWindowInput.value = (config.flipGuardVolatilityWindowSeconds ?? 300).toString();
+    if (flipGuardPendingProbabilityInput) flipGuardPendingProbabilityInput.value = (config.flipGuardPendingFlipProbability ?? 0.3).toString();
+    if (flipGuardFilledProbabilityInput) flipGuardFilledProbabilityInput.value = (config.flipGuardFilledFlipProbability ?? 0.45).toString();
+    if (priceDifferenceSourceSelect) priceDifferenceSourceSelect.value = config.priceDifferenceSource ?? 'chainlink';
+    if (flipGuardPriceSourceSelect) flipGuardPriceSourceSelect.value = config.flipGuardPriceSource ?? 'chainlink';
     if (entryTimeRemainingInput) entryTimeRemainingInput.value = (config.entryTimeRemainingMaxSeconds ?? 180).toString();
+    if (staleFeedBlockInput) staleFeedBlockInput.value = (config.staleFeedBlockEntriesSeconds ?? 10).toString();
+    if (staleFeedCancelInput) staleFeedCancelInput.value = (config.staleFeedCancelBidsSeconds ?? 20).toString();
+    if (staleFeedFlattenInput) staleFeedFlattenInput.value = config.staleFeedFlattenSeconds != null ? config.staleFeedFlattenSeconds.toString() : '';
+    if (maxDailyLossInput) maxDailyLossInput.value = config.maxDailyLossUsd != null ? config.maxDailyLossUsd.toString() : '';
+    if (maxRollingLossInput) maxRollingLossInput.value = config.maxRollingLossUsd != null ? config.maxRollingLossUsd.toString() : '';
+    if (rollingLossWindowInput) rollingLossWindowInput.value = (config.rollingLossWindowHours ?? 24).toString();
+    if (maxLosingEventsInput) maxLosingEventsInput.value = config.maxConsecutiveLosingEvents != null ? config.maxConsecutiveLosingEvents.toString() : '';
+    if (maxDrawdownInput) maxDrawdownInput.value = config.maxDrawdownUsd != null ? config.maxDrawdownUsd.toString() : '';
+    if (killSwitchFlattenSelect) killSwitchFlattenSelect.value = config.killSwitchFlatten ? 'true' : 'false';
 
     // Update trading status display
     const statusDisplay = document.getElementById('trading-status-display');
     if (statusDisplay) {
       const winRate = status.totalTrades > 0 ? ((status.successfulTrades / status.totalTrades) * 100).toFixed(0) : '0';
       const profitClass = status.totalProfit >= 0 ? 'text-emerald-500' : 'text-red-500';
+      const pnl = this.tradingManager.getPnlSummary();
       statusDisplay.innerHTML = `
         <div class="grid grid-cols-2 gap-4">
           <div class="bg-slate-50 dark:bg-slate-700/50 p-4 rounded-xl">
-            <p class="text-xs text-slate-500">Total Profit</p>
+            <p class="text-xs text-slate-500">Realized PnL</p>
             <p class="text-xl font-bold ${profitClass}">$${status.totalProfit.toFixed(2)}</p>
+            <p class="text-[10px] text-slate-500" title="Open shares marked at the current price; fees are included in realized PnL">Unrealized $${pnl.unrealized.toFixed(2)} · Fees $${pnl.fees.toFixed(2)}</p>
           </div>
           <div class="bg-slate-50 dark:bg-slate-700/50 p-4 rounded-xl">
             <p class="text-xs text-slate-500">Win Rate</p>
@@ -1212,8 +1696,32 @@ export class StreamingPlatform {
             <p class="text-xl font-bold">${status.pendingLimitOrders}</p>
           </div>
         </div>
+        ${status.tradingHalt ? `
+        <div class="mt-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-600 dark:text-red-400">
+          <span class="font-bold uppercase text-xs">Trading halted (${status.tradingHalt.level})</span>
+          <p>${status.tradingHalt.reason}</p>
+        </div>` : ''}
+        ${status.killSwitch ? `
+        <div class="mt-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-600 dark:text-red-400">
+          <div class="flex items-center justify-between gap-2">
+            <span class="font-bold uppercase text-xs">Kill switch tripped · ${new Date(status.killSwitch.trippedAt).toLocaleString()}</span>
+            <button id="reset-kill-switch" type="button" class="bg-white dark:bg-slate-800 border border-red-200 dark:border-red-800 font-bold px-2 py-1 rounded-lg text-xs">Reset</button>
+          </div>
+          <p>${status.killSwitch.reason}</p>
+        </div>` : ''}
+        ${status.priceConsensus?.diverged ? `
+        <div class="mt-4 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-600 dark:text-amber-400">
+          <span class="font-bold uppercase text-xs">Price sources diverge</span>
+          <p>${Object.entries(status.priceConsensus.sources).map(([source, p]) => `${source} ${this.formatPrice(p.value)}`).join(' · ')} (Δ $${status.priceConsensus.divergenceUsd.toFixed(2)}, ${status.priceConsensus.divergencePct.toFixed(3)}%)</p>
+        </div>` : ''}
       `;
 
+      document.getElementById('reset-kill-switch')?.addEventListener('click', () => {
+        if (!confirm('Reset the kill switch and allow new entries? Losses so far stop counting toward the loss limits.')) return;
+        this.tradingManager.resetKillSwitch();
+        this.renderTradingSection();
+      });
+
       const badgeEl = document.getElementById('trading-status-badge');
       if (badgeEl) {
         badgeEl.innerHTML = status.isActive
@@ -1411,6 +1919,7 @@ export class StreamingPlatform {
     // Clear trading manager credentials
     this.tradingManager.setApiCredentials(null);
     this.tradingManager.setBrowserClobClient(null);
+    this.userChannel.disconnect();
     this.stopPositionsRefreshInterval();
 
     // Update UI
@@ -1420,6 +1929,91 @@ export class StreamingPlatform {
     console.log('[Wallet] ✅ Wallet disconnected successfully');
   }
 
+  /**
+   * Paper trading: route TradingManager orders to a simulated engine on live books with a virtual balance.
+   * Mutually exclusive with a live trading session.
+   */
+  private async startPaperSession(): Promise<void> {
+    if (this.walletState.isInitialized) {
+      alert('Disconnect the live trading session before starting paper trading');
+      return;
+    }
+    const input = prompt('Virtual USDC balance for paper trading', '1000');
+    if (input === null) return;
+    const initialBalance = parseFloat(input);
+    if (!Number.isFinite(initialBalance) || initialBalance <= 0) {
+      alert('Enter a positive balance');
+      return;
+    }
+    if (this.tradingManager.getStatus().isActive) {
+      this.tradingManager.stopTrading();
+    }
+    this.walletState.error = null;
+    this.paperSwitching = true;
+    this.renderWalletSection();
+    try {
+      // Live trades, positions and orders stay in the live namespace; the virtual wallet only reconciles paper state
+      await this.tradingManager.setStorageNamespace('paper');
+    } finally {
+      this.paperSwitching = false;
+    }
+
+    const engine = new PaperTradingEngine({ initialBalance, books: new LiveBookSource(1000, this.marketBooks) });
+    engine.setOnBalanceChange((balance) => {
+      this.tradingManager.setWalletBalance(balance);
+      this.renderWalletSection();
+    });
+    this.paperEngine = engine;
+    this.tradingManager.setBrowserClobClient(engine);
+    this.tradingManager.setWalletBalance(initialBalance);
+    // A fresh virtual wallet holds nothing, so paper positions restored from an earlier session are dropped
+    this.tradingManager
+      .syncWithExchange(createPaperExchangeStateSource(engine))
+      .then(() => this.renderTradingSection())
+      .catch((error) => this.handlePaperSessionError(error));
+    this.paperRedemptionService = new RedemptionService({
+      getPositions: () => this.tradingManager.getPositions(),
+      removePositions: (ids, resolution) => this.tradingManager.removePositionsByIds(ids, resolution),
+      redeem: createPaperRedeem(engine),
+      onRedemptionSuccess: (eventSlug, positionIds, amount) => {
+        console.log('[Paper] Settled resolved market:', eventSlug, positionIds.length, 'position(s), +', amount, 'USDC');
+        this.renderTradingSection();
+      },
+    });
+    this.paperRedemptionService.start();
+    console.log('[Paper] Paper trading session started with', initialBalance, 'USDC');
+    this.renderWalletSection();
+    this.renderTradingSection();
+  }
+
+  private async stopPaperSession(): Promise<void> {
+    if (this.tradingManager.getStatus().isActive) {
+      this.tradingManager.stopTrading();
+    }
+    this.paperRedemptionService?.stop();
+    this.paperRedemptionService = null;
+    this.paperEngine = null;
+    this.tradingManager.setBrowserClobClient(null);
+    this.tradingManager.setWalletBalance(0);
+    this.paperSwitching = true;
+    this.renderWalletSection();
+    try {
+      await this.tradingManager.setStorageNamespace(''); // Live state is cross-checked when a trading session starts
+    } finally {
+      this.paperSwitching = false;
+    }
+    console.log('[Paper] Paper trading session stopped');
+    this.renderWalletSection();
+    this.renderTradingSection();
+  }
+
+  private handlePaperSessionError(error: unknown): void {
+    console.error('[Paper] Paper trading session error:', error);
+    this.walletState.error = error instanceof Error ? error.message : 'Paper trading session failed';
+    this.renderWalletSection();
+    this.renderTradingSection();
+  }
+
   private async initializeTradingSession(): Promise<void> {
     if (!this.walletState.isConnected) {
       alert('Please connect wallet first');
@@ -1461,6 +2055,13 @@ export class StreamingPlatform {
         if (!this.tradingManager.getBrowserClobClient()) {
           throw new Error('Browser ClobClient initialization failed. Cannot place orders - server-side API is blocked by Cloudflare. Please try reconnecting your wallet.');
         }
+
+        // Fills and order status are pushed from here on; polling remains as a fallback
+        this.userChannel.connect(data.credentials);
+
+        // Check restored positions and orders against what the wallet actually holds
+        await this.tradingManager.syncWithExchange(createApiExchangeStateSource(this.walletState.proxyAddress!, data.credentials));
+        this.renderTradingSection();
       }
 
       // Fetch balance after initialization
@@ -1540,6 +2141,8 @@ export class StreamingPlatform {
         statusHtml = '<span class="flex items-center gap-2 px-3 py-1.5 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400 text-xs font-semibold">Loading...</span>';
       } else if (this.walletState.error) {
         statusHtml = `<span class="flex items-center gap-2 px-3 py-1.5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 text-xs font-semibold">Error: ${this.walletState.error}</span>`;
+      } else if (this.paperEngine) {
+        statusHtml = `<span class="flex items-center gap-2 px-3 py-1.5 rounded-full bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 text-xs font-semibold">PAPER TRADING · ${this.paperEngine.getBalance().toFixed(2)} USDC (virtual)</span>`;
       } else if (this.walletState.isConnected) {
         statusHtml = '<span class="flex items-center gap-2 px-3 py-1.5 rounded-full bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400 text-xs font-semibold"><span class="relative flex h-2 w-2"><span class="animate-ping absolute inline-flex h-full w-full rounded-full bg-emerald-400 opacity-75"></span><span class="relative inline-flex rounded-full h-2 w-2 bg-emerald-500"></span></span> WALLET CONNECTED</span>';
       } else {
@@ -1568,8 +2171,14 @@ export class StreamingPlatform {
       }
     }
 
+    const paperBtn = document.getElementById('paper-session') as HTMLButtonElement;
+    if (paperBtn) {
+      paperBtn.disabled = this.walletState.isInitialized || this.paperSwitching;
+      paperBtn.textContent = this.paperEngine ? 'Stop Paper Trading' : 'Start Paper Trading';
+    }
+
     if (initBtn) {
-      initBtn.disabled = this.walletState.isLoading || !this.walletState.isConnected || this.walletState.isInitialized;
+      initBtn.disabled = this.walletState.isLoading || !this.walletState.isConnected || this.walletState.isInitialized || !!this.paperEngine;
       initBtn.textContent = this.walletState.isLoading ? 'Initializing...' : 
                            this.walletState.isInitialized ? 'Session Initialized' : 
                            'Initialize Trading Session';
@@ -0,0 +1,26 @@
+/**
+ * Client for /api/ticks: Chainlink ticks collected server-side, for events that started before this page loaded.
+ * `url` can point it at a tick collector serving the route itself (npm run ticks -- --port).
+ */
+
+import type { TickPoint } from './price-to-beat';
+
+/** Ticks around a point in time (epoch ms). */
+export interface TickLookup {
+  tick: TickPoint | null; // First tick at/after the requested time
+  previous: TickPoint | null; // Last tick before it
+  opening: TickPoint | null; // `tick` when there is no feed gap across the requested time (usable as a price to beat)
+}
+
+/** Tick lookup at `timestampMs` for an asset, or null when the route is unavailable (e.g. plain `vite` dev server). */
+export async function fetchTickAt(asset: string, timestampMs: number, url: string = '/api/ticks'): Promise<TickLookup | null> {
+  try {
+    const response = await fetch(`${url}?asset=${encodeURIComponent(asset)}&at=${timestampMs}`);
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data?.success ? (data as TickLookup) : null;
+  } catch (error) {
+    console.warn('[TickHistory] Lookup failed:', error);
+    return null;
+  }
+}
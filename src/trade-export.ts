@@ -0,0 +1,236 @@
+/**
+ * Trade history export (CSV/JSON) for tax and performance review: one record per ledger movement (entries, exits,
+ * fees, redemptions, resolution losses) and one summary row per event.
+ * The Trading tab exports the local ledger. /api/trade-export rebuilds a ledger from Polymarket Data API activity,
+ * which has no 500-trade cap but also no fees.
+ */
+
+import type { Trade } from './trading-types';
+import { PnlLedger, type LedgerEntry, type LedgerEntryKind } from './pnl-ledger';
+import { findAssetBySlug } from './asset-registry';
+
+export type ExportFormat = 'csv' | 'json';
+export type ExportView = 'records' | 'events';
+
+export interface ExportRecord {
+  time: string; // ISO 8601 (UTC)
+  asset: string;
+  eventSlug: string;
+  type: 'entry' | 'exit' | Exclude<LedgerEntryKind, 'fill'>;
+  direction: string;
+  shares: number;
+  price: number | null; // 0-100; payout per share for resolutions
+  cashUsd: number; // + received, - paid
+  realizedUsd: number | null; // Null when the token's buys are missing (see getIncompleteTokens)
+  reason: string;
+  ref: string;
+}
+
+/** One row per event: what was bought, how it was closed and what it made. */
+export interface EventSummary {
+  asset: string;
+  eventSlug: string;
+  direction: string;
+  firstTime: string;
+  lastTime: string;
+  sharesBought: number;
+  entryPrice: number | null; // Share-weighted average (0-100)
+  exitPrice: number | null; // Share-weighted average of sells and resolutions (0-100)
+  costUsd: number;
+  proceedsUsd: number;
+  feesUsd: number;
+  pnlUsd: number | null; // Realized; null when buys of one of its tokens are missing
+  openShares: number; // Still held (PnL is incomplete)
+  reason: string; // How the event was closed
+}
+
+export interface TradeExport {
+  generatedAt: string;
+  source: 'local' | 'polymarket';
+  truncated: boolean; // The history was cut short: the oldest activity is missing
+  incompleteTokens: string[]; // Tokens that sold more shares than the export saw bought; their PnL is left out
+  records: ExportRecord[];
+  events: EventSummary[];
+}
+
+/** Polymarket Data API /activity item (fields used here). */
+export interface DataApiActivity {
+  timestamp: number; // epoch s
+  type: string; // TRADE, REDEEM, SPLIT, MERGE, REWARD, ...
+  conditionId: string;
+  asset?: string; // Token id (empty on redemptions)
+  side?: string; // BUY / SELL (trades)
+  size: number; // Shares
+  usdcSize: number;
+  price?: number; // 0-1
+  outcomeIndex?: number; // 0 = Up, 1 = Down
+  slug?: string;
+  eventSlug?: string;
+  transactionHash?: string;
+}
+
+const CLOSE_REASONS: Partial<Record<LedgerEntryKind, string>> = {
+  redemption: 'Resolved: won',
+  resolution_loss: 'Resolved: lost',
+};
+
+/**
+ * Build the export from ledger entries; `trades` supply the reasons behind fills (matched by order id).
+ * `truncated` marks a history missing its oldest activity. Either way, PnL is left out for tokens whose buys are missing.
+ */
+export function buildTradeExport(
+  entries: LedgerEntry[],
+  trades: Trade[],
+  source: TradeExport['source'] = 'local',
+  truncated: boolean = false
+): TradeExport {
+  const reasons = new Map<string, string>();
+  for (const t of trades) {
+    if (t.transactionHash) reasons.set(t.transactionHash, t.reason);
+  }
+  const incompleteTokens = getIncompleteTokens(entries);
+
+  const records: ExportRecord[] = entries.map((e) => {
+    const type = e.kind === 'fill' ? (e.shares > 0 ? 'entry' : 'exit') : e.kind;
+    return {
+      time: new Date(e.timestamp).toISOString(),
+      asset: getAssetId(e.eventSlug),
+      eventSlug: e.eventSlug,
+      type,
+      direction: e.direction ?? '',
+      shares: Math.abs(e.shares),
+      price: e.price ?? null,
+      cashUsd: e.cash,
+      realizedUsd: incompleteTokens.has(e.tokenId) ? null : e.realized,
+      reason: e.kind === 'fee' ? 'Taker fee' : (e.ref ? reasons.get(e.ref) : undefined) ?? CLOSE_REASONS[e.kind] ?? (type === 'exit' ? 'Profit target sell' : ''),
+      ref: e.ref ?? '',
+    };
+  });
+
+  const byEvent = new Map<string, { entries: LedgerEntry[]; records: ExportRecord[] }>();
+  entries.forEach((e, i) => {
+    const group = byEvent.get(e.eventSlug) ?? { entries: [], records: [] };
+    group.entries.push(e);
+    group.records.push(records[i]);
+    byEvent.set(e.eventSlug, group);
+  });
+  const events = [...byEvent.entries()].map(([eventSlug, group]) => summarizeEvent(eventSlug, group.entries, group.records));
+
+  return { generatedAt: new Date().toISOString(), source, truncated, incompleteTokens: [...incompleteTokens], records, events };
+}
+
+/**
+ * Tokens that moved out more shares than were bought before: their buys are missing (a truncated history, or shares
+ * that arrived outside the ledger), so the sells were booked at zero cost and their PnL is overstated.
+ */
+export function getIncompleteTokens(entries: LedgerEntry[]): Set<string> {
+  const held = new Map<string, number>();
+  const incomplete = new Set<string>();
+  for (const e of entries) {
+    if (e.kind === 'fee') continue;
+    const shares = held.get(e.tokenId) ?? 0;
+    if (-e.shares > shares + 1e-6) incomplete.add(e.tokenId);
+    held.set(e.tokenId, Math.max(0, shares + e.shares));
+  }
+  return incomplete;
+}
+
+function summarizeEvent(eventSlug: string, entries: LedgerEntry[], records: ExportRecord[]): EventSummary {
+  const buys = entries.filter((e) => e.kind === 'fill' && e.shares > 0);
+  const outs = entries.filter((e) => e.shares < 0);
+  const weighted = (list: LedgerEntry[]): number | null => {
+    const shares = list.reduce((sum, e) => sum + Math.abs(e.shares), 0);
+    return shares > 0 ? list.reduce((sum, e) => sum + Math.abs(e.shares) * (e.price ?? 0), 0) / shares : null;
+  };
+  const sharesBought = buys.reduce((sum, e) => sum + e.shares, 0);
+  const sharesOut = outs.reduce((sum, e) => sum - e.shares, 0);
+  // Closed by whatever moved the most shares out (a stop loss, not the dust redeemed after it)
+  const mainOut = records
+    .filter((r) => r.type !== 'entry' && r.type !== 'fee')
+    .reduce<ExportRecord | null>((best, r) => (!best || r.shares > best.shares ? r : best), null);
+  return {
+    asset: getAssetId(eventSlug),
+    eventSlug,
+    direction: [...new Set(buys.map((e) => e.direction).filter(Boolean))].join('/'),
+    firstTime: records[0].time,
+    lastTime: records[records.length - 1].time,
+    sharesBought,
+    entryPrice: weighted(buys),
+    exitPrice: weighted(outs),
+    costUsd: -buys.reduce((sum, e) => sum + e.cash, 0),
+    proceedsUsd: outs.reduce((sum, e) => sum + e.cash, 0),
+    feesUsd: -entries.filter((e) => e.kind === 'fee').reduce((sum, e) => sum + e.cash, 0),
+    pnlUsd: records.some((r) => r.realizedUsd === null) ? null : entries.reduce((sum, e) => sum + e.realized, 0),
+    openShares: Math.max(0, sharesBought - sharesOut),
+    reason: mainOut?.reason ?? 'Open',
+  };
+}
+
+/**
+ * Ledger entries from Data API activity (oldest first). A redemption covers every outcome of its condition:
+ * the share count that matches the USDC paid out won (1 per share); anything else held resolved at 0.
+ */
+export function getLedgerEntriesFromActivity(activity: DataApiActivity[]): LedgerEntry[] {
+  const ledger = new PnlLedger();
+  const tokensByCondition = new Map<string, Set<string>>();
+  const sorted = [...activity].sort((a, b) => a.timestamp - b.timestamp);
+  for (const item of sorted) {
+    const eventSlug = item.eventSlug || item.slug || item.conditionId;
+    const timestamp = item.timestamp * 1000;
+    if (item.type === 'TRADE' && item.asset && (item.side === 'BUY' || item.side === 'SELL')) {
+      const tokens = tokensByCondition.get(item.conditionId) ?? new Set<string>();
+      tokens.add(item.asset);
+      tokensByCondition.set(item.conditionId, tokens);
+      ledger.recordFill({
+        eventSlug,
+        tokenId: item.asset,
+        direction: item.outcomeIndex === 0 ? 'UP' : item.outcomeIndex === 1 ? 'DOWN' : undefined,
+        side: item.side,
+        shares: item.size,
+        price: item.size > 0 ? (item.usdcSize / item.size) * 100 : (item.price ?? 0) * 100,
+        ref: item.transactionHash,
+        timestamp,
+      });
+    } else if (item.type === 'REDEEM') {
+      const held = ledger.getHoldings().filter((h) => tokensByCondition.get(item.conditionId)?.has(h.tokenId));
+      const winner = item.usdcSize > 0
+        ? held.reduce<(typeof held)[number] | null>((best, h) => (!best || Math.abs(h.shares - item.usdcSize) < Math.abs(best.shares - item.usdcSize) ? h : best), null)
+        : null;
+      for (const h of held) {
+        ledger.recordResolution(h.eventSlug, h.tokenId, h === winner ? Math.min(1, item.usdcSize / h.shares) : 0, timestamp);
+      }
+    }
+  }
+  return ledger.getEntries();
+}
+
+/** CSV for one view (RFC 4180 quoting). */
+export function toCsv(data: TradeExport, view: ExportView): string {
+  return view === 'records'
+    ? formatCsv(data.records, ['time', 'asset', 'eventSlug', 'type', 'direction', 'shares', 'price', 'cashUsd', 'realizedUsd', 'reason', 'ref'])
+    : formatCsv(data.events, ['asset', 'eventSlug', 'direction', 'firstTime', 'lastTime', 'sharesBought', 'entryPrice', 'exitPrice', 'costUsd', 'proceedsUsd', 'feesUsd', 'pnlUsd', 'openShares', 'reason']);
+}
+
+/** File name for a download, e.g. polymarket-trades-2025-01-31.csv. */
+export function getExportFileName(format: ExportFormat, view: ExportView, date: Date = new Date()): string {
+  const name = format === 'json' ? 'history' : view === 'records' ? 'trades' : 'events';
+  return `polymarket-${name}-${date.toISOString().slice(0, 10)}.${format}`;
+}
+
+function formatCsv<T>(rows: T[], columns: Array<keyof T & string>): string {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((c) => formatCsvValue(row[c])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+function formatCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'number' ? String(Math.round(value * 1e6) / 1e6) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function getAssetId(eventSlug: string): string {
+  return findAssetBySlug(eventSlug)?.id ?? 'unknown';
+}
@@ -1,7 +1,28 @@
-import type { StrategyConfig, Trade, TradingStatus, Position } from './trading-types';
+import type { StrategyConfig, Trade, TradingStatus, TradingHalt, KillSwitch, Position, TradingClobClient, EntryExposure, EntryRiskCheck } from './trading-types';
 import { CLOBClientWrapper } from './clob-client';
 import type { EventDisplayData } from './event-manager';
-import type { ClobClient } from '@polymarket/clob-client';
+import type { KeyValueStore } from './storage';
+import { getDefaultStore } from './storage';
+import type { Clock } from './clock';
+import { systemClock } from './clock';
+import type { Strategy, MarketSnapshot, Direction, EntryIntent } from './strategy';
+import { createStrategy } from './strategy';
+import type { TrackedOrder, OrderUpdate } from './order-tracker';
+import { OrderTracker, isOpenOrderState, getResponseOrderId } from './order-tracker';
+import type { StateStore } from './state-store';
+import { getDefaultStateStore } from './state-store';
+import type { ExchangeStateSource, ExchangePosition } from './exchange-state';
+import type { OpenOrder } from '@polymarket/clob-client';
+import type { BookSnapshot, BookSource } from './paper-trading';
+import type { UserChannelEvent } from './user-channel-client';
+import type { PriceToBeatStatus } from './price-to-beat';
+import type { ConsensusPrice, PriceSource } from './price-consensus';
+import { RealizedVolatility, getFlipDistanceUsd } from './volatility';
+import { estimateFairValue, type FairValue } from './fair-value';
+import { sizeEntry, startOfUtcDay, MIN_ORDER_USD } from './position-sizing';
+import { checkLossLimits, getRealizedPnlFromLedger } from './loss-limits';
+import { PnlLedger, getTakerFee, type LedgerEntry, type LedgerFill, type PnlSummary } from './pnl-ledger';
+import type { RedeemContext } from './redemption-service';
 
 /**
  * Converts Polymarket price from decimal (0-1) to percentage (0-100)
@@ -10,35 +31,94 @@ function toPercentage(price: number): number {
   return price * 100;
 }
 
+/** Shares and USDC actually matched by a market order (makingAmount/takingAmount), for the PnL ledger; null if not reported. */
+function getMatchedAmounts(response: any, side: 'BUY' | 'SELL'): { shares: number; usd: number } | null {
+  const making = Number(response?.makingAmount);
+  const taking = Number(response?.takingAmount);
+  if (!(making > 0) || !(taking > 0)) return null;
+  return side === 'BUY' ? { shares: taking, usd: making } : { shares: making, usd: taking };
+}
+
+export interface TradingManagerOptions {
+  storage?: KeyValueStore; // Persistence for strategy config and trades (defaults to localStorage in the browser)
+  clock?: Clock; // Time source (defaults to the wall clock)
+  mode?: 'live' | 'replay'; // replay: no monitoring loop, caller drives evaluate() (backtests)
+  strategy?: Strategy; // Entry rules (defaults to the late-favourite strategy)
+  stateStore?: StateStore; // Positions, orders and active event (defaults to IndexedDB in the browser, else `storage`)
+  tickSize?: number; // Price increment (decimal 0-1) entry limit prices are floored to (defaults to 0.01; see the asset registry)
+  storageNamespace?: string; // Key prefix for trades, ledger and trading state ('paper' keeps paper sessions apart; defaults to live)
+}
+
+/** Crash-safe trading state, rebuilt by restoreState() on startup. */
+export interface PersistedTradingState {
+  version: 1;
+  savedAt: number;
+  activeEvent: Omit<EventDisplayData, 'rawData'> | null;
+  positions: Position[];
+  orders: TrackedOrder[];
+  killSwitch?: KillSwitch | null; // Tripped kill switch survives restarts until reset
+  lossLimitsResetAt?: number;
+}
+
 export class TradingManager {
+  private storage: KeyValueStore;
+  private storageNamespace: string;
+  private stateStore: StateStore;
+  private stateRestored: Promise<void> | null = null; // Persistence starts once restoreState() has loaded the saved state
+  private stateSaving: Promise<void> = Promise.resolve(); // Serializes writes
+  private stateSaveQueued: boolean = false;
+  private lastSavedState: string | null = null;
+  private clock: Clock;
+  private mode: 'live' | 'replay';
+  private strategy: Strategy;
+  private tickSize: number;
   private clobClient: CLOBClientWrapper;
-  private browserClobClient: ClobClient | null = null; // Browser ClobClient for order placement (bypasses Cloudflare)
+  private browserClobClient: TradingClobClient | null = null; // Order client: browser ClobClient (bypasses Cloudflare) or PaperTradingEngine
+  private bookSource: BookSource | null = null; // Live order books (CLOB market socket); prices fall back to HTTP /price without one
+  private lastBookUpdateAt: number = 0;
+  private bookEvaluationRunning: boolean = false;
+  private bookEvaluationQueued: boolean = false;
   private strategyConfig: StrategyConfig;
   private trades: Trade[] = [];
+  private ledger: PnlLedger = new PnlLedger(); // Fills, fees and resolutions; totalProfit is its realized PnL
   private status: TradingStatus;
   private onStatusUpdate: ((status: TradingStatus) => void) | null = null;
   private onTradeUpdate: ((trade: Trade) => void) | null = null;
   private isMonitoring: boolean = false; // Flag to control continuous monitoring loop
   private activeEvent: EventDisplayData | null = null;
-  private pendingLimitOrders: Map<string, Trade> = new Map(); // Map of tokenId -> pending limit order
+  private orders: OrderTracker; // Lifecycle of every order placed (entry, profit target, market exit)
+  private lastReconcileAt: number = 0;
+  private readonly ORDER_RECONCILE_INTERVAL_MS = 1000; // Poll the CLOB for open-order / fill changes at most this often
+  private readonly USER_CHANNEL_RECONCILE_INTERVAL_MS = 10000; // Safety-net poll while the user channel pushes order events
+  private userChannelConnected: boolean = false;
   private currentPrice: number | null = null; // Current BTC/USD price
   private priceToBeat: number | null = null; // Price to Beat for active event
+  private priceToBeatStatus: PriceToBeatStatus = 'confirmed'; // Provisional: first tick seen, not the opening price; no new entries
+  private provisionalWarnedSlug: string | null = null; // Log the provisional entry block once per event
+  private priceFeedStale: boolean = false; // Price socket silent or down (WebSocketClient watchdog); no new entries
+  private referencePrices: ConsensusPrice | null = null; // Chainlink/exchange consensus for the traded asset
+  private volatility = new RealizedVolatility(); // Chainlink ticks for volatility-aware Flip Guard thresholds
+  private entryRiskCheck: EntryRiskCheck | null = null; // Portfolio-level gate (MultiAssetTradingManager)
+  private lossLimitsResetAt: number = 0; // Last kill switch reset; realized PnL before it no longer counts toward loss limits
+  private lastPriceUpdateAt: number | null = null; // Clock time of the last price update; its age drives the feed halt
   private apiCredentials: { key: string; secret: string; passphrase: string } | null = null; // API credentials for order placement
-  private isPlacingOrder: boolean = false; // Flag to prevent multiple simultaneous orders
-  private isPlacingSplitOrders: boolean = false; // Flag to track if we're placing split orders
-  private isPlacingExitOrder: boolean = false; // Flag to prevent multiple simultaneous exit orders (separate from entry orders)
+  private closingPositions: boolean = false; // closeAllPositions run in progress; cleared in finally (order posts time out, so it cannot hang)
   private positions: Position[] = []; // Array of positions instead of single currentPosition
-  private priceBelowEntry: boolean = false; // Track if price dropped below entry after position
   private consecutiveFailures: number = 0; // Circuit breaker counter
   private readonly MAX_CONSECUTIVE_FAILURES = 5; // Circuit breaker threshold
-  private orderPlacementStartTime: number = 0; // Track when order placement started
-  private readonly MAX_ORDER_PLACEMENT_TIME = 30000; // 30 seconds max for order placement
-  private pendingEntryOrders: Map<string, { orderId: string; direction: 'UP' | 'DOWN'; size: number; limitPrice: number; placedAt: number }> = new Map();
-  private pendingProfitSellOrders: Map<string, string[]> = new Map(); // orderId -> position ids
 
-  constructor() {
+  constructor(options: TradingManagerOptions = {}) {
+    this.storage = options.storage ?? getDefaultStore();
+    this.stateStore = options.stateStore ?? getDefaultStateStore(this.storage);
+    this.storageNamespace = options.storageNamespace ?? '';
+    this.clock = options.clock ?? systemClock;
+    this.mode = options.mode ?? 'live';
+    this.strategy = options.strategy ?? createStrategy();
+    this.tickSize = options.tickSize ?? 0.01;
     this.clobClient = new CLOBClientWrapper();
     this.strategyConfig = this.getDefaultStrategy();
+    this.orders = new OrderTracker({ clock: this.clock });
+    this.orders.setOnOrderUpdate((update) => this.handleOrderUpdate(update));
     this.status = {
       isActive: false,
       totalTrades: 0,
@@ -63,16 +143,21 @@ export class TradingManager {
     };
   }
 
-  private getFlipGuardPendingDistanceUsd(): number {
-    return this.strategyConfig.flipGuardPendingDistanceUsd ?? 15;
-  }
-
-  private getFlipGuardFilledDistanceUsd(): number {
-    return this.strategyConfig.flipGuardFilledDistanceUsd ?? 5;
-  }
-
-  private getEntryTimeRemainingMaxSeconds(): number {
-    return this.strategyConfig.entryTimeRemainingMaxSeconds ?? 180;
+  /**
+   * Flip Guard distances (USD). In 'volatility' mode each is the distance at which the chance of a flip before the
+   * event ends equals the configured probability; the fixed distances apply until volatility can be estimated.
+   */
+  private getFlipGuardThresholds(): { pending: number; filled: number } {
+    const config = this.strategyConfig;
+    const fixed = { pending: config.flipGuardPendingDistanceUsd ?? 15, filled: config.flipGuardFilledDistanceUsd ?? 5 };
+    if (config.flipGuardMode !== 'volatility') return fixed;
+    const sigmaUsd = this.volatility.getSigmaUsdPerSqrtSecond();
+    const timeRemaining = this.getTimeRemainingSeconds();
+    if (sigmaUsd === null || timeRemaining === null) return fixed;
+    return {
+      pending: getFlipDistanceUsd(sigmaUsd, timeRemaining, config.flipGuardPendingFlipProbability ?? 0.3),
+      filled: getFlipDistanceUsd(sigmaUsd, timeRemaining, config.flipGuardFilledFlipProbability ?? 0.45),
+    };
   }
 
   /** Price decimal 0–1. Returns trade size in USD (for balance, position cap, position.size). */
@@ -83,30 +168,68 @@ export class TradingManager {
     return v;
   }
 
-  /** Price decimal 0–1. Returns trade size in shares (for order size). */
-  private getTradeSizeShares(priceDecimal: number): number {
-    const unit = this.strategyConfig.tradeSizeUnit ?? 'USD';
-    const v = this.strategyConfig.tradeSize;
-    if (unit === 'shares') return v;
-    if (priceDecimal <= 0) return 0;
-    return v / priceDecimal;
-  }
-
   setStrategyConfig(config: Partial<StrategyConfig>): void {
     this.strategyConfig = { ...this.strategyConfig, ...config };
     this.saveStrategyConfig();
+    if (config.maxPositionFraction !== undefined && this.status.walletBalance != null) {
+      this.setWalletBalance(this.status.walletBalance); // Recompute maxPositionSize
+    }
   }
 
   getStrategyConfig(): StrategyConfig {
     return { ...this.strategyConfig };
   }
 
+  /** Swap the entry strategy (takes effect on the next evaluation). */
+  setStrategy(strategy: Strategy): void {
+    this.strategy = strategy;
+    console.log(`[TradingManager] Strategy set: ${strategy.name}`);
+  }
+
+  getStrategy(): Strategy {
+    return this.strategy;
+  }
+
   private static readonly TRADES_STORAGE_KEY = 'polymarketTrades';
   private static readonly MAX_PERSISTED_TRADES = 500;
+  private static readonly LEDGER_STORAGE_KEY = 'polymarketLedger';
+  private static readonly MAX_PERSISTED_LEDGER_ENTRIES = 5000; // Older entries are dropped unless their token is still held
+
+  /** Storage key in the current namespace; the live namespace ('') uses the bare key. */
+  private getStorageKey(key: string): string {
+    return this.storageNamespace ? `${this.storageNamespace}:${key}` : key;
+  }
+
+  /**
+   * Switch trade history, the PnL ledger, positions, orders and the kill switch to another namespace ('' live,
+   * 'paper' for paper sessions) and load them from it, so paper fills never reach live state, loss limits or
+   * reporting. Stop trading first; the active event binding is kept.
+   */
+  async setStorageNamespace(namespace: string): Promise<void> {
+    if (namespace === this.storageNamespace) return;
+    if (this.status.isActive) throw new Error('Stop trading before switching the storage namespace');
+    await this.restoreState();
+    await this.stateSaving; // Pending writes still go to the current namespace
+    this.storageNamespace = namespace;
+    this.trades = [];
+    this.ledger.clear();
+    this.loadTrades();
+    this.recomputeStatusFromTrades();
+    this.positions = [];
+    this.orders.restore([]);
+    this.status.killSwitch = null;
+    this.lossLimitsResetAt = 0;
+    this.status.positions = [];
+    this.status.totalPositionSize = 0;
+    this.status.pendingLimitOrders = 0;
+    this.lastSavedState = null;
+    this.stateRestored = this.loadPersistedState();
+    await this.stateRestored;
+  }
 
   private saveStrategyConfig(): void {
     try {
-      localStorage.setItem('tradingStrategy', JSON.stringify(this.strategyConfig));
+      this.storage.setItem('tradingStrategy', JSON.stringify(this.strategyConfig));
     } catch (error) {
       console.warn('Failed to save strategy config:', error);
     }
@@ -115,9 +238,21 @@ export class TradingManager {
   private saveTrades(): void {
     try {
       const toSave = this.trades.slice(-TradingManager.MAX_PERSISTED_TRADES);
-      localStorage.setItem(TradingManager.TRADES_STORAGE_KEY, JSON.stringify(toSave));
+      this.storage.setItem(this.getStorageKey(TradingManager.TRADES_STORAGE_KEY), JSON.stringify(toSave));
+    } catch (error) {
+      console.warn('Failed to save trades to storage:', error);
+    }
+  }
+
+  private saveLedger(): void {
+    try {
+      const entries = this.ledger.getEntries();
+      const held = new Set(this.ledger.getHoldings().map((h) => h.tokenId));
+      const cutoff = entries.length - TradingManager.MAX_PERSISTED_LEDGER_ENTRIES;
+      const toSave = entries.filter((e, i) => i >= cutoff || held.has(e.tokenId));
+      this.storage.setItem(this.getStorageKey(TradingManager.LEDGER_STORAGE_KEY), JSON.stringify(toSave));
     } catch (error) {
-      console.warn('Failed to save trades to localStorage:', error);
+      console.warn('Failed to save PnL ledger to storage:', error);
     }
   }
 
@@ -125,12 +260,12 @@ export class TradingManager {
     this.status.totalTrades = this.trades.length;
     this.status.successfulTrades = this.trades.filter((t) => t.status === 'filled').length;
     this.status.failedTrades = this.trades.filter((t) => t.status === 'failed').length;
-    this.status.totalProfit = this.trades.reduce((sum, t) => sum + (t.profit ?? 0), 0);
+    this.status.totalProfit = this.ledger.getRealizedTotal();
   }
 
   loadStrategyConfig(): void {
     try {
-      const saved = localStorage.getItem('tradingStrategy');
+      const saved = this.storage.getItem('tradingStrategy');
       if (saved) {
         this.strategyConfig = { ...this.strategyConfig, ...JSON.parse(saved) };
       }
@@ -139,9 +274,17 @@ export class TradingManager {
     }
   }
 
+  /** Trade history and the PnL ledger from storage. */
   loadTrades(): void {
     try {
-      const raw = localStorage.getItem(TradingManager.TRADES_STORAGE_KEY);
+      const raw = this.storage.getItem(this.getStorageKey(TradingManager.LEDGER_STORAGE_KEY));
+      const parsed = raw ? (JSON.parse(raw) as LedgerEntry[]) : null;
+      if (Array.isArray(parsed)) this.ledger.restore(parsed);
+    } catch (error) {
+      console.warn('Failed to load PnL ledger from storage:', error);
+    }
+    try {
+      const raw = this.storage.getItem(this.getStorageKey(TradingManager.TRADES_STORAGE_KEY));
       if (raw) {
         const parsed = JSON.parse(raw) as Trade[];
         if (Array.isArray(parsed)) {
@@ -150,10 +293,190 @@ export class TradingManager {
         }
       }
     } catch (error) {
-      console.warn('Failed to load trades from localStorage:', error);
+      console.warn('Failed to load trades from storage:', error);
     }
   }
 
+  private static readonly BOOK_LIVE_MS = 5000; // Book updates within this window mean the socket feed is live
+  private static readonly STATE_KEY = 'tradingState';
+  private static readonly EXCHANGE_SETTLE_MS = 120000; // Data API positions can lag fills by this much; newer positions are not trimmed
+
+  /**
+   * Load persisted positions, orders and the active event binding (call once on startup, before trading).
+   * State is saved on every change afterwards; call syncWithExchange() once an order client is available.
+   */
+  restoreState(): Promise<void> {
+    if (!this.stateRestored) {
+      this.stateRestored = this.loadPersistedState();
+    }
+    return this.stateRestored;
+  }
+
+  private async loadPersistedState(): Promise<void> {
+    try {
+      const saved = await this.stateStore.load<PersistedTradingState>(this.getStorageKey(TradingManager.STATE_KEY));
+      if (!saved || saved.version !== 1) return;
+      this.positions = [...saved.positions, ...this.positions.filter(p => !saved.positions.some(s => s.id === p.id))];
+      this.orders.restore(saved.orders);
+      if (saved.killSwitch && !this.status.killSwitch) this.status.killSwitch = saved.killSwitch;
+      this.lossLimitsResetAt = Math.max(this.lossLimitsResetAt, saved.lossLimitsResetAt ?? 0);
+      const endMs = saved.activeEvent ? new Date(saved.activeEvent.endDate).getTime() : NaN;
+      if (!this.activeEvent && saved.activeEvent && endMs > this.clock.now()) {
+        this.activeEvent = saved.activeEvent;
+      }
+      this.status.positions = [...this.positions];
+      this.status.totalPositionSize = this.positions.reduce((sum, p) => sum + p.size, 0);
+      this.status.pendingLimitOrders = this.orders.getOpenOrders().length;
+      this.lastSavedState = JSON.stringify(this.buildPersistedState(0));
+      console.log(`[TradingManager] Restored ${saved.positions.length} position(s), ${this.status.pendingLimitOrders} open order(s) from ${new Date(saved.savedAt).toISOString()}${this.activeEvent ? ` (event ${this.activeEvent.slug})` : ''}`);
+    } catch (error) {
+      console.warn('[TradingManager] Failed to restore trading state:', error);
+    } finally {
+      this.notifyStatusUpdate();
+    }
+  }
+
+  /**
+   * Cross-check restored state with the exchange: pick up fills on tracked orders, adopt resting orders on the
+   * active event we lost track of, drop or shrink positions the wallet no longer holds, and adopt extra shares
+   * held on the active event's tokens.
+   */
+  async syncWithExchange(source: ExchangeStateSource): Promise<void> {
+    await this.restoreState();
+    let exchange;
+    try {
+      exchange = await source.fetchState();
+    } catch (error) {
+      console.warn('[TradingManager] Exchange sync skipped: could not fetch positions/orders:', error);
+      return;
+    }
+    await this.reconcileOrders(true);
+    this.adoptExchangeOrders(exchange.openOrders);
+    this.reconcilePositionsWithExchange(exchange.positions);
+    console.log(`[TradingManager] Synced with exchange: ${exchange.positions.length} token balance(s), ${exchange.openOrders.length} open order(s); tracking ${this.positions.length} position(s), ${this.orders.getOpenOrders().length} open order(s)`);
+    this.notifyStatusUpdate();
+  }
+
+  /** Track resting orders on the active event's tokens that the order tracker does not know about. */
+  private adoptExchangeOrders(openOrders: OpenOrder[]): void {
+    const tokenIds = this.activeEvent?.clobTokenIds ?? [];
+    for (const remote of openOrders) {
+      const tokenIndex = tokenIds.indexOf(remote.asset_id);
+      if (tokenIndex === -1 || this.orders.findByOrderId(remote.id)) continue;
+      const side = remote.side.toUpperCase() === 'SELL' ? 'SELL' : 'BUY';
+      const price = parseFloat(remote.price) * 100;
+      this.orders.adopt({
+        purpose: side === 'BUY' ? 'entry' : 'profit_target',
+        eventSlug: this.activeEvent!.slug,
+        tokenId: remote.asset_id,
+        side,
+        direction: tokenIndex === 0 ? 'UP' : 'DOWN',
+        price,
+        size: parseFloat(remote.original_size),
+        positionIds: side === 'SELL' ? this.positions.filter(p => p.tokenId === remote.asset_id).map(p => p.id) : [],
+        reason: `Adopted resting ${side} at ${price.toFixed(2)}`,
+        orderId: remote.id,
+        sizeMatched: parseFloat(remote.size_matched) || 0,
+        createdAt: remote.created_at * 1000,
+      });
+    }
+  }
+
+  private reconcilePositionsWithExchange(exchangePositions: ExchangePosition[]): void {
+    const held = new Map<string, ExchangePosition>();
+    for (const p of exchangePositions) held.set(p.tokenId, p);
+    const settledBefore = this.clock.now() - TradingManager.EXCHANGE_SETTLE_MS;
+
+    for (const [tokenId, data] of this.aggregatePositionsByToken(this.positions).entries()) {
+      const shares = held.get(tokenId)?.shares ?? 0;
+      if (shares >= data.totalShares - 0.01) continue;
+      const settled = data.positions.filter(p => Math.max(p.entryTimestamp, ...(p.filledOrders ?? []).map(f => f.timestamp)) < settledBefore);
+      if (settled.length < data.positions.length) {
+        console.warn(`[TradingManager] Exchange shows ${shares.toFixed(2)} of ${data.totalShares.toFixed(2)} shares for ${tokenId.substring(0, 10)}..., but fills are too recent to trust the Data API; keeping positions`);
+        continue;
+      }
+      if (shares < 0.01) {
+        console.warn(`[TradingManager] Dropping ${data.positions.length} position(s) on ${tokenId.substring(0, 10)}...: no longer held (closed or redeemed while offline)`);
+        this.positions = this.positions.filter(p => !data.positions.includes(p));
+      } else {
+        console.warn(`[TradingManager] Shrinking positions on ${tokenId.substring(0, 10)}... to the ${shares.toFixed(2)} shares still held (was ${data.totalShares.toFixed(2)})`);
+        this.scalePositions(data.positions, shares / data.totalShares);
+      }
+    }
+
+    // Shares on the active event we have no position for (e.g. an entry filled while the page was closed)
+    const tokenIds = this.activeEvent?.clobTokenIds ?? [];
+    tokenIds.forEach((tokenId, index) => {
+      const exchange = held.get(tokenId);
+      if (!exchange) return;
+      const local = this.aggregatePositionsByToken(this.positions).get(tokenId)?.totalShares ?? 0;
+      const extra = exchange.shares - local;
+      if (extra < 0.01 || exchange.avgPrice <= 0) return;
+      const position: Position = {
+        id: `position-${this.clock.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        eventSlug: this.activeEvent!.slug,
+        tokenId,
+        side: 'BUY',
+        size: extra * exchange.avgPrice / 100,
+        entryPrice: exchange.avgPrice,
+        direction: index === 0 ? 'UP' : 'DOWN',
+        sharesRemaining: extra,
+        entryTimestamp: this.clock.now(),
+      };
+      this.positions.push(position);
+      console.warn(`[TradingManager] Adopted ${extra.toFixed(2)} untracked share(s) of ${tokenId.substring(0, 10)}... at ${exchange.avgPrice.toFixed(2)} as a ${position.direction} position`);
+    });
+
+    this.status.positions = [...this.positions];
+    this.status.totalPositionSize = this.positions.reduce((sum, p) => sum + p.size, 0);
+  }
+
+  /** Scale positions to `factor` of their size (partial sells, exchange cross-check). */
+  private scalePositions(positions: Position[], factor: number): void {
+    for (const position of positions) {
+      const shares = this.aggregatePositionsByToken([position]).get(position.tokenId)?.totalShares ?? 0;
+      position.size *= factor;
+      position.sharesRemaining = shares * factor;
+    }
+  }
+
+  private buildPersistedState(savedAt: number): PersistedTradingState {
+    let activeEvent: PersistedTradingState['activeEvent'] = null;
+    if (this.activeEvent) {
+      const { rawData: _rawData, ...binding } = this.activeEvent;
+      activeEvent = binding;
+    }
+    return {
+      version: 1,
+      savedAt,
+      activeEvent,
+      // Live prices are recomputed every pass; leaving them out avoids a write per price tick
+      positions: this.positions.map(({ currentPrice: _currentPrice, unrealizedProfit: _unrealizedProfit, ...p }) => p),
+      orders: this.orders.getOrders(),
+      killSwitch: this.status.killSwitch ?? null,
+      lossLimitsResetAt: this.lossLimitsResetAt,
+    };
+  }
+
+  /** Save positions, orders and the active event if they changed. Writes are serialized and coalesced. */
+  private persistState(): void {
+    if (!this.stateRestored || this.stateSaveQueued) return;
+    this.stateSaveQueued = true;
+    this.stateSaving = this.stateSaving
+      .then(() => this.stateRestored)
+      .then(async () => {
+        this.stateSaveQueued = false;
+        const state = this.buildPersistedState(0);
+        const serialized = JSON.stringify(state);
+        if (serialized === this.lastSavedState) return;
+        await this.stateStore.save(this.getStorageKey(TradingManager.STATE_KEY), { ...state, savedAt: this.clock.now() });
+        this.lastSavedState = serialized;
+      })
+      .catch((error) => {
+        console.warn('[TradingManager] Failed to save trading state:', error);
+      });
+  }
+
   setOnStatusUpdate(callback: (status: TradingStatus) => void): void {
     this.onStatusUpdate = callback;
   }
@@ -163,13 +486,13 @@ export class TradingManager {
   }
 
   /**
-   * Set wallet balance and calculate max position size (50% of balance).
+   * Set wallet balance and calculate max position size (maxPositionFraction of balance, 50% by default).
    * When balance is 0 or not set, clears maxPositionSize so entry is not blocked by a stale cap.
    */
   setWalletBalance(balance: number): void {
     this.status.walletBalance = balance ?? undefined;
     if (balance != null && balance > 0) {
-      this.status.maxPositionSize = balance * 0.5;
+      this.status.maxPositionSize = balance * (this.strategyConfig.maxPositionFraction ?? 0.5);
     } else {
       this.status.maxPositionSize = undefined;
     }
@@ -182,7 +505,7 @@ export class TradingManager {
   private verifyBalance(requiredAmount: number): boolean {
     if (!this.status.walletBalance) {
       console.warn('[TradingManager] Balance verification skipped - wallet balance not set');
-      return true; // Allow trade if balance is not set (simulation mode)
+      return true; // Allow trade if balance has not been reported yet
     }
     
     const available = this.status.walletBalance;
@@ -205,37 +528,160 @@ export class TradingManager {
     return this.positions.filter(p => p.eventSlug === this.activeEvent!.slug);
   }
 
+  /**
+   * Chainlink price, price to beat and active event. A provisional price to beat (not the confirmed opening price)
+   * still drives Flip Guard exits but blocks new entries until it is confirmed. `priceUpdatedAt` is when
+   * `currentPrice` arrived (defaults to now); callers that re-send an older price must pass it so the feed halt sees its age.
+   */
   updateMarketData(
     currentPrice: number | null,
     priceToBeat: number | null,
-    activeEvent: EventDisplayData | null
+    activeEvent: EventDisplayData | null,
+    priceToBeatStatus: PriceToBeatStatus = 'confirmed',
+    priceUpdatedAt?: number
   ): void {
+    const eventChanged = activeEvent?.slug !== this.activeEvent?.slug;
     this.currentPrice = currentPrice;
+    if (currentPrice !== null) {
+      this.lastPriceUpdateAt = priceUpdatedAt ?? this.clock.now();
+      this.volatility.setWindowMs((this.strategyConfig.flipGuardVolatilityWindowSeconds ?? 300) * 1000);
+      this.volatility.add(this.lastPriceUpdateAt, currentPrice);
+    }
     this.priceToBeat = priceToBeat;
+    this.priceToBeatStatus = priceToBeatStatus;
     this.activeEvent = activeEvent;
+    if (eventChanged) this.persistState();
 
-    if (this.strategyConfig.enabled && this.status.isActive && activeEvent) {
+    if (this.mode === 'live' && this.strategyConfig.enabled && this.status.isActive && activeEvent) {
       this.checkTradingConditions();
     }
   }
 
+  /** Replay mode: run one trading-conditions pass against the current market data (the live loop does this every 100ms). */
+  async evaluate(): Promise<void> {
+    await this.checkTradingConditions();
+  }
+
   /** Time remaining until event end (seconds). */
   private getTimeRemainingSeconds(): number | null {
     if (!this.activeEvent?.endDate) return null;
     const endMs = new Date(this.activeEvent.endDate).getTime();
     if (Number.isNaN(endMs)) return null;
-    const remaining = (endMs - Date.now()) / 1000;
+    const remaining = (endMs - this.clock.now()) / 1000;
     return Math.max(0, remaining);
   }
 
-  /** Price distance in USD (|priceToBeat - currentPrice|). */
-  private getPriceDistanceUSD(): number | null {
-    if (this.currentPrice === null || this.priceToBeat === null) return null;
-    return Math.abs(this.priceToBeat - this.currentPrice);
+  /**
+   * Model probability (0-100) of UP and DOWN finishing in the money from the Chainlink price, price to beat, time
+   * remaining and realized volatility. Null until there are enough ticks or while any input is missing.
+   */
+  getFairValue(): FairValue | null {
+    const sigmaUsd = this.volatility.getSigmaUsdPerSqrtSecond();
+    const timeRemaining = this.getTimeRemainingSeconds();
+    if (this.currentPrice === null || this.priceToBeat === null || sigmaUsd === null || timeRemaining === null) return null;
+    return estimateFairValue(this.currentPrice, this.priceToBeat, sigmaUsd, timeRemaining);
+  }
+
+  /**
+   * Feed halt level from the age of the last price update (StrategyConfig staleFeed* thresholds) and the socket state.
+   * Publishes changes to TradingStatus.tradingHalt.
+   */
+  private updateTradingHalt(): TradingHalt | null {
+    const ageSeconds = this.lastPriceUpdateAt === null ? null : (this.clock.now() - this.lastPriceUpdateAt) / 1000;
+    const blockAfter = this.strategyConfig.staleFeedBlockEntriesSeconds ?? 10;
+    const cancelAfter = this.strategyConfig.staleFeedCancelBidsSeconds ?? 20;
+    const flattenAfter = this.strategyConfig.staleFeedFlattenSeconds ?? null;
+
+    let level: TradingHalt['level'] | null = null;
+    if (ageSeconds !== null && flattenAfter !== null && ageSeconds >= flattenAfter) level = 'flatten';
+    else if (ageSeconds !== null && ageSeconds >= cancelAfter) level = 'cancel-bids';
+    else if (this.priceFeedStale || (ageSeconds !== null && ageSeconds >= blockAfter)) level = 'block-entries';
+
+    const current = this.status.tradingHalt ?? null;
+    if (level === (current?.level ?? null)) return current;
+
+    const age = ageSeconds === null ? 'no price yet' : `last price ${ageSeconds.toFixed(0)}s ago`;
+    const halt: TradingHalt | null = level === null
+      ? null
+      : { level, reason: `Price feed ${this.priceFeedStale ? 'down or stale' : 'delayed'} (${age})`, since: this.clock.now() };
+    this.status.tradingHalt = halt;
+    if (halt) {
+      console.warn(`[TradingManager] ⛔ Trading halt (${halt.level}): ${halt.reason}`);
+    } else {
+      console.log('[TradingManager] Trading halt cleared: price feed is live');
+    }
+    this.notifyStatusUpdate();
+    return halt;
+  }
+
+  /**
+   * Trip the kill switch when a loss limit (StrategyConfig maxDailyLossUsd, maxRollingLossUsd,
+   * maxConsecutiveLosingEvents, maxDrawdownUsd) is breached. Once tripped it stays set until resetKillSwitch().
+   */
+  private updateKillSwitch(): KillSwitch | null {
+    if (this.status.killSwitch) return this.status.killSwitch;
+    const config = this.strategyConfig;
+    if (config.maxDailyLossUsd == null && config.maxRollingLossUsd == null && config.maxConsecutiveLosingEvents == null && config.maxDrawdownUsd == null) {
+      return null;
+    }
+    const now = this.clock.now();
+    const reason = checkLossLimits(this.strategyConfig, getRealizedPnlFromLedger(this.ledger.getEntries()), now, this.lossLimitsResetAt);
+    if (reason === null) return null;
+
+    const killSwitch: KillSwitch = { reason, trippedAt: now };
+    this.status.killSwitch = killSwitch;
+    console.warn(`[TradingManager] 🛑 Kill switch tripped: ${reason} — no new entries until reset`);
+    this.persistState();
+    this.notifyStatusUpdate();
+    return killSwitch;
   }
 
-  /** Get price for a token; use browser client when available (same network path as order placement). */
+  /** Clear a tripped kill switch. Losses realized before now no longer count toward the loss limits. */
+  resetKillSwitch(): void {
+    this.lossLimitsResetAt = this.clock.now();
+    if (this.status.killSwitch) {
+      console.log(`[TradingManager] Kill switch reset (was: ${this.status.killSwitch.reason})`);
+    }
+    this.status.killSwitch = null;
+    this.persistState();
+    this.notifyStatusUpdate();
+  }
+
+  /**
+   * Price distance in USD (|priceToBeat - price|) measured with `source`. The exchange and consensus prices fall back
+   * to Chainlink when no fresh reading is available; while the feeds diverge, 'consensus' takes the smallest distance.
+   */
+  private getPriceDistanceUSD(source: PriceSource = 'chainlink'): number | null {
+    const priceToBeat = this.priceToBeat;
+    if (priceToBeat === null) return null;
+    const prices = this.getReferencePrices(source);
+    if (prices.length === 0) return null;
+    return Math.min(...prices.map((price) => Math.abs(priceToBeat - price)));
+  }
+
+  private getReferencePrices(source: PriceSource): number[] {
+    const consensus = this.referencePrices;
+    const chainlink = this.currentPrice === null ? [] : [this.currentPrice];
+    if (source === 'exchange') {
+      const exchange = consensus?.sources.exchange?.value;
+      return exchange !== undefined ? [exchange] : chainlink;
+    }
+    if (source === 'consensus' && consensus && consensus.value !== null) {
+      return consensus.diverged ? Object.values(consensus.sources).map((p) => p.value) : [consensus.value];
+    }
+    return chainlink;
+  }
+
+  /**
+   * Get price for a token (decimal 0-1; BUY = best bid, SELL = best ask). Reads the live book when there is one,
+   * otherwise asks the browser client when available (same network path as order placement).
+   */
   private async getPriceForToken(tokenId: string, side: 'BUY' | 'SELL'): Promise<number | null> {
+    const book = await this.getBook(tokenId);
+    if (book) {
+      const level = side === 'BUY' ? book.bids[0] : book.asks[0];
+      return level ? level.price : null;
+    }
     try {
       const client = this.browserClobClient ?? this.clobClient;
       const result = await client.getPrice(tokenId, side);
@@ -248,6 +694,15 @@ export class TradingManager {
     }
   }
 
+  private async getBook(tokenId: string): Promise<BookSnapshot | null> {
+    if (!this.bookSource) return null;
+    try {
+      return await this.bookSource.getBook(tokenId);
+    } catch {
+      return null;
+    }
+  }
+
   /** Cancel a single order by ID (Fee Guard: only for Flip Guard cancel of pending bids). */
   private async cancelOrderById(orderId: string): Promise<boolean> {
     if (!this.browserClobClient) return false;
@@ -260,86 +715,181 @@ export class TradingManager {
     }
   }
 
-  /** Flip Guard: cancel all pending entry (POST_ONLY) bids. */
+  /** Flip Guard: cancel all pending entry (POST_ONLY) bids for the active event, then reconcile to pick up any partial fills. */
   private async cancelAllPendingEntryOrders(): Promise<void> {
-    for (const [, info] of this.pendingEntryOrders.entries()) {
-      const ok = await this.cancelOrderById(info.orderId);
-      if (ok) console.log(`[TradingManager] Cancelled pending entry order ${info.orderId.substring(0, 8)}... (${info.direction})`);
+    await this.cancelOpenOrders({ purpose: 'entry', eventSlug: this.activeEvent?.slug });
+  }
+
+  private async cancelOpenOrders(filter: { purpose: 'entry' | 'profit_target'; eventSlug?: string }): Promise<void> {
+    const open = this.orders.getOpenOrders(filter);
+    if (open.length === 0) return;
+    for (const order of open) {
+      if (!order.orderId) continue; // Not acknowledged yet; reconcile adopts or expires it
+      const ok = await this.cancelOrderById(order.orderId);
+      if (ok) {
+        this.orders.markCancelRequested(order);
+        console.log(`[TradingManager] Cancelled pending ${order.purpose} order ${order.orderId.substring(0, 8)}... (${order.direction})`);
+      }
     }
-    this.pendingEntryOrders.clear();
+    await this.reconcileOrders(true);
   }
 
-  /** Check if any pending entry (POST_ONLY) orders have filled and create positions. */
-  private async checkPendingEntryOrderFills(): Promise<void> {
-    if (!this.browserClobClient || this.pendingEntryOrders.size === 0) return;
+  /** Sync tracked orders with the CLOB (open orders, order status, trades). Fills are applied in handleOrderUpdate. */
+  private async reconcileOrders(force: boolean = false): Promise<void> {
+    if (!this.browserClobClient || !this.orders.hasOpenOrders()) return;
+    const now = this.clock.now();
+    const interval = this.userChannelConnected ? this.USER_CHANNEL_RECONCILE_INTERVAL_MS : this.ORDER_RECONCILE_INTERVAL_MS;
+    if (!force && now - this.lastReconcileAt < interval) return;
+    this.lastReconcileAt = now;
     try {
-      const openOrders = await this.browserClobClient.getOpenOrders();
-      const openIds = new Set<string>();
-      (openOrders || []).forEach((o: { id?: string; orderID?: string }) => {
-        const id = o.id ?? (o as any).orderID;
-        if (id) openIds.add(id);
-      });
-      for (const [tokenId, info] of this.pendingEntryOrders.entries()) {
-        if (openIds.has(info.orderId)) continue;
-        // Order no longer in open list — verify it was actually matched before recording
-        let orderStatus: string | null = null;
-        try {
-          const res = await this.browserClobClient.getOrder(info.orderId);
-          const order = (res as any)?.order ?? res;
-          orderStatus = (order?.status ?? '').toString().toLowerCase();
-        } catch (e) {
-          console.warn('[TradingManager] getOrder failed for pending entry (order may be cancelled/expired):', info.orderId.substring(0, 12) + '...', e);
-        }
-        this.pendingEntryOrders.delete(tokenId);
-        if (orderStatus !== 'matched') {
-          console.log('[TradingManager] Pending entry order no longer open but not matched (status=', orderStatus ?? 'unknown', '). Not recording as fill.');
-          this.notifyStatusUpdate();
-          continue;
-        }
-        const newPosition: Position = {
-          id: `position-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          eventSlug: this.activeEvent!.slug,
-          tokenId,
-          side: 'BUY',
-          size: info.size,
-          entryPrice: info.limitPrice,
-          direction: info.direction,
-          filledOrders: [{ orderId: info.orderId, price: info.limitPrice, size: info.size, timestamp: info.placedAt }],
-          entryTimestamp: info.placedAt,
-        };
-        this.positions.push(newPosition);
-        this.status.positions = [...this.positions];
-        this.status.totalPositionSize = this.positions.reduce((sum, p) => sum + p.size, 0);
-        this.status.successfulTrades++;
-        const trade: Trade = {
-          id: `limit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          eventSlug: this.activeEvent!.slug,
-          tokenId,
-          side: 'BUY',
-          size: info.size,
-          price: info.limitPrice,
-          timestamp: Date.now(),
-          status: 'filled',
-          transactionHash: info.orderId,
-          reason: `POST_ONLY limit entry at ${info.limitPrice.toFixed(2)} (${info.direction})`,
-          orderType: 'LIMIT',
-          limitPrice: info.limitPrice,
-          direction: info.direction,
-        };
-        // Deduplicate: only record if we don't already have a trade for this order (avoid double-processing)
-        const alreadyRecorded = this.trades.some(t => t.transactionHash === info.orderId);
-        if (!alreadyRecorded) {
-          this.trades.push(trade);
-          this.notifyTradeUpdate(trade);
-          console.log('[TradingManager] ✅ Pending entry order filled (verified matched):', info.orderId.substring(0, 8), info.direction, info.size.toFixed(2));
-        } else {
-          console.log('[TradingManager] Skipping duplicate trade record for order:', info.orderId.substring(0, 8));
-        }
-        this.notifyStatusUpdate();
-      }
+      await this.orders.reconcile(this.browserClobClient);
     } catch (e) {
-      console.warn('[TradingManager] checkPendingEntryOrderFills error:', e);
+      console.warn('[TradingManager] Order reconcile error:', e);
+    }
+  }
+
+  /** Order placement, fill or cancel pushed by the user channel; fills reach handleOrderUpdate straight away. */
+  handleUserChannelEvent(event: UserChannelEvent): void {
+    this.orders.applyUserEvent(event);
+  }
+
+  /** Price feed staleness from the WebSocketClient status. While stale, entries and Flip Guard are halted (see updateTradingHalt). */
+  setPriceFeedStale(stale: boolean): void {
+    if (stale === this.priceFeedStale) return;
+    this.priceFeedStale = stale;
+    console.log(`[TradingManager] Price feed ${stale ? 'stale: entries paused' : 'live again: entries resumed'}`);
+  }
+
+  /**
+   * Chainlink/exchange consensus for the traded asset (WebSocketClient.setOnConsensusUpdate). Flip Guard and the
+   * Price Difference filter read it when their StrategyConfig price source is 'exchange' or 'consensus'.
+   */
+  updateReferencePrices(consensus: ConsensusPrice): void {
+    const wasDiverged = this.referencePrices?.diverged ?? false;
+    this.referencePrices = consensus;
+    this.status.priceConsensus = consensus;
+    if (consensus.diverged === wasDiverged) return;
+    if (consensus.diverged) {
+      const quotes = Object.entries(consensus.sources).map(([source, p]) => `${source} ${p.value.toFixed(2)}`).join(', ');
+      console.warn(`[TradingManager] ⚠️ Price sources diverge by $${consensus.divergenceUsd.toFixed(2)} (${consensus.divergencePct.toFixed(3)}%): ${quotes}`);
+    } else {
+      console.log('[TradingManager] Price sources agree again');
+    }
+    this.notifyStatusUpdate();
+  }
+
+  /** Portfolio-level check run before every entry (set by MultiAssetTradingManager); null removes it. */
+  setEntryRiskCheck(check: EntryRiskCheck | null): void {
+    this.entryRiskCheck = check;
+  }
+
+  /** Open positions and unfilled resting entries, in USD at entry price (portfolio risk accounting). */
+  getEntryExposure(): EntryExposure[] {
+    const exposure: EntryExposure[] = this.positions
+      .filter((p) => p.direction)
+      .map((p) => ({ eventSlug: p.eventSlug, direction: p.direction!, sizeUSD: p.size, resting: false }));
+    for (const order of this.orders.getOpenOrders({ purpose: 'entry' })) {
+      const remaining = (order.size - order.sizeMatched) * order.price / 100;
+      if (remaining > 0) exposure.push({ eventSlug: order.eventSlug, direction: order.direction, sizeUSD: remaining, resting: true });
     }
+    return exposure;
+  }
+
+  /**
+   * User channel connected or dropped. Polling slows down while it is connected; either way one reconcile runs
+   * now to pick up anything sent before the subscription or while it was down.
+   */
+  setUserChannelConnected(connected: boolean): void {
+    if (connected === this.userChannelConnected) return;
+    this.userChannelConnected = connected;
+    console.log(`[TradingManager] User channel ${connected ? 'connected: order events are pushed' : 'disconnected: polling orders every second'}`);
+    this.reconcileOrders(true);
+  }
+
+  /** React to order fills: entries open or grow a position, profit-target sells close theirs. Market exits are settled by closeAllPositions. */
+  private handleOrderUpdate(update: OrderUpdate): void {
+    const { order, filledShares } = update;
+    const closed = !isOpenOrderState(order.state);
+    if (order.purpose === 'entry') {
+      if (filledShares > 0) this.applyEntryFill(order, filledShares);
+      if (closed && order.sizeMatched > 0) this.recordEntryTrade(order);
+    } else if (order.purpose === 'profit_target' && closed && order.sizeMatched > 0) {
+      this.applyProfitTargetFill(order);
+    }
+    this.status.pendingLimitOrders = this.orders.getOpenOrders().length;
+    this.notifyStatusUpdate();
+  }
+
+  /** Add newly matched entry shares to the order's position (created on the first fill). */
+  private applyEntryFill(order: TrackedOrder, filledShares: number): void {
+    const sizeUSD = filledShares * order.price / 100;
+    const fill = { orderId: order.orderId ?? order.id, price: order.price, size: sizeUSD, timestamp: this.clock.now() };
+    this.recordLedgerFill({ eventSlug: order.eventSlug, tokenId: order.tokenId, direction: order.direction, side: 'BUY', shares: filledShares, price: order.price, ref: fill.orderId, timestamp: fill.timestamp });
+    const existing = this.positions.find(p => order.positionIds.includes(p.id));
+    if (existing) {
+      existing.size += sizeUSD;
+      existing.filledOrders = [...(existing.filledOrders ?? []), fill];
+    } else {
+      const newPosition: Position = {
+        id: `position-${this.clock.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        eventSlug: order.eventSlug,
+        tokenId: order.tokenId,
+        side: 'BUY',
+        size: sizeUSD,
+        entryPrice: order.price,
+        direction: order.direction,
+        filledOrders: [fill],
+        entryTimestamp: order.submittedAt ?? order.createdAt,
+      };
+      this.positions.push(newPosition);
+      this.orders.attachPositions(order, [newPosition.id]);
+    }
+    this.status.positions = [...this.positions];
+    this.status.totalPositionSize = this.positions.reduce((sum, p) => sum + p.size, 0);
+    console.log(`[TradingManager] ✅ Entry order ${order.id} filled ${filledShares.toFixed(2)} share(s) (${order.sizeMatched.toFixed(2)}/${order.size.toFixed(2)}, ${order.direction})`);
+  }
+
+  /** One trade record per entry order, once it is done filling. */
+  private recordEntryTrade(order: TrackedOrder): void {
+    const orderRef = order.orderId ?? order.id;
+    // Deduplicate: only record if we don't already have a trade for this order (avoid double-processing)
+    if (this.trades.some(t => t.transactionHash === orderRef)) {
+      console.log('[TradingManager] Skipping duplicate trade record for order:', orderRef.substring(0, 8));
+      return;
+    }
+    const trade: Trade = {
+      id: `limit-${this.clock.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      eventSlug: order.eventSlug,
+      tokenId: order.tokenId,
+      side: 'BUY',
+      size: order.sizeMatched * order.price / 100,
+      price: order.price,
+      timestamp: this.clock.now(),
+      status: 'filled',
+      transactionHash: orderRef,
+      reason: order.state === 'filled' ? order.reason : `${order.reason} (partial fill, ${order.state})`,
+      orderType: 'LIMIT',
+      limitPrice: order.price,
+      direction: order.direction,
+    };
+    this.status.successfulTrades++;
+    this.trades.push(trade);
+    this.notifyTradeUpdate(trade);
+  }
+
+  /** Profit-target sell done: remove its positions, or shrink them by the matched fraction if it only partly filled. */
+  private applyProfitTargetFill(order: TrackedOrder): void {
+    const before = this.positions.length;
+    this.recordLedgerFill({ eventSlug: order.eventSlug, tokenId: order.tokenId, direction: order.direction, side: 'SELL', shares: order.sizeMatched, price: order.price, ref: order.orderId ?? order.id, timestamp: this.clock.now() });
+    if (order.state === 'filled') {
+      this.positions = this.positions.filter(p => !order.positionIds.includes(p.id));
+    } else {
+      const remaining = Math.max(0, 1 - order.sizeMatched / order.size);
+      this.scalePositions(this.positions.filter(p => order.positionIds.includes(p.id)), remaining);
+    }
+    this.status.positions = [...this.positions];
+    this.status.totalPositionSize = this.positions.reduce((sum, p) => sum + p.size, 0);
+    console.log(`[TradingManager] ✅ Profit target limit sell ${order.state} (${order.sizeMatched.toFixed(2)}/${order.size.toFixed(2)} shares), removed ${before - this.positions.length} position(s)`);
   }
 
   /**
@@ -349,10 +899,43 @@ export class TradingManager {
     this.apiCredentials = credentials;
   }
 
+  /** Order books to read prices and depth from (e.g. MarketBookClient); null to poll /price only. */
+  setBookSource(source: BookSource | null): void {
+    this.bookSource = source;
+  }
+
   /**
-   * Set browser ClobClient for client-side order placement (bypasses Cloudflare)
+   * A book changed (market socket). Re-evaluate right away when it is one of the active event's tokens, so entries
+   * and exits react to the book instead of waiting for the next loop pass. Passes are coalesced: at most one runs,
+   * plus one more if updates arrived meanwhile.
    */
-  setBrowserClobClient(clobClient: ClobClient | null): void {
+  handleBookUpdate(tokenId: string): void {
+    this.lastBookUpdateAt = this.clock.now();
+    if (this.mode !== 'live' || !this.status.isActive || !this.activeEvent?.clobTokenIds?.includes(tokenId)) return;
+    if (this.bookEvaluationRunning) {
+      this.bookEvaluationQueued = true;
+      return;
+    }
+    this.bookEvaluationRunning = true;
+    (async () => {
+      try {
+        do {
+          this.bookEvaluationQueued = false;
+          await this.checkTradingConditions();
+        } while (this.bookEvaluationQueued && this.status.isActive);
+      } catch (error) {
+        console.error('[TradingManager] Error evaluating book update:', error);
+      } finally {
+        this.bookEvaluationRunning = false;
+      }
+    })();
+  }
+
+  /**
+   * Set browser ClobClient for client-side order placement (bypasses Cloudflare).
+   * A PaperTradingEngine can be passed instead to paper trade with the same logic.
+   */
+  setBrowserClobClient(clobClient: TradingClobClient | null): void {
     this.browserClobClient = clobClient;
     if (clobClient) {
       console.log('[TradingManager] Browser ClobClient set - orders will be placed from browser (bypasses Cloudflare)');
@@ -364,7 +947,7 @@ export class TradingManager {
   /**
    * Get browser ClobClient status
    */
-  getBrowserClobClient(): ClobClient | null {
+  getBrowserClobClient(): TradingClobClient | null {
     return this.browserClobClient;
   }
 
@@ -408,42 +991,59 @@ export class TradingManager {
       return;
     }
 
+    // Pick up fills and cancels first so positions and pending orders below are current
+    await this.reconcileOrders();
+
     const activePositions = this.getActivePositions();
-    const priceDistanceUSD = this.getPriceDistanceUSD();
+    const hasPendingEntries = this.orders.hasOpenOrders({ purpose: 'entry', eventSlug: this.activeEvent.slug });
+
+    // Kill switch: a breached loss limit stops entries and cancels bids; flattens too when killSwitchFlatten is set
+    const killSwitch = this.updateKillSwitch();
+    if (killSwitch && hasPendingEntries) {
+      console.log(`[TradingManager] 🛑 Kill switch — cancelling pending entry bids`);
+      await this.cancelAllPendingEntryOrders();
+    }
+    if (killSwitch && this.strategyConfig.killSwitchFlatten && activePositions.length > 0 && !this.closingPositions) {
+      await this.closeAllPositions(`Kill switch: ${killSwitch.reason} — Emergency Market Sell`, true);
+      return;
+    }
+
+    // Feed halt: a stale Chainlink price must not drive entries or Flip Guard; escalate to cancelling bids and flattening
+    const halt = this.updateTradingHalt();
+    if (halt && halt.level !== 'block-entries' && hasPendingEntries) {
+      console.log(`[TradingManager] ⛔ ${halt.reason} — cancelling pending entry bids`);
+      await this.cancelAllPendingEntryOrders();
+    }
+    if (halt?.level === 'flatten' && activePositions.length > 0 && !this.closingPositions) {
+      await this.closeAllPositions(`Trading halt: ${halt.reason} — Emergency Market Sell`, true);
+      return;
+    }
+    const priceDistanceUSD = halt ? null : this.getPriceDistanceUSD(this.strategyConfig.flipGuardPriceSource ?? 'chainlink');
 
-    const flipPending = this.getFlipGuardPendingDistanceUsd();
-    const flipFilled = this.getFlipGuardFilledDistanceUsd();
+    const { pending: flipPending, filled: flipFilled } = this.getFlipGuardThresholds();
     // Flip Guard uses BTC price distance (|priceToBeat - current BTC price| in USD), not outcome token price.
-    if (activePositions.length > 0 && priceDistanceUSD === null) {
+    if (activePositions.length > 0 && priceDistanceUSD === null && !halt) {
       console.warn('[TradingManager] Flip Guard inactive: BTC currentPrice or priceToBeat not set — ensure updateMarketData(currentPrice, priceToBeat) is called (e.g. from active event UI).');
     }
     // Flip Guard: If in entry position (pending bids) and price distance below threshold, cancel pending bids
-    if (this.pendingEntryOrders.size > 0 && priceDistanceUSD !== null && priceDistanceUSD < flipPending) {
-      console.log(`[TradingManager] 🔄 Flip Guard: Price distance $${priceDistanceUSD.toFixed(2)} < $${flipPending} — cancelling pending entry bids`);
+    if (hasPendingEntries && priceDistanceUSD !== null && priceDistanceUSD < flipPending) {
+      console.log(`[TradingManager] 🔄 Flip Guard: Price distance $${priceDistanceUSD.toFixed(2)} < $${flipPending.toFixed(2)} — cancelling pending entry bids`);
       await this.cancelAllPendingEntryOrders();
       return;
     }
 
     // Flip Guard: If filled and price distance below threshold, execute Emergency Market Sell (only exception to Fee Guard)
     if (activePositions.length > 0 && priceDistanceUSD !== null && priceDistanceUSD < flipFilled) {
-      console.log(`[TradingManager] 🚨 Flip Guard: Price distance $${priceDistanceUSD.toFixed(2)} < $${flipFilled} — executing Emergency Market Sell`);
-      await this.closeAllPositions('Flip Guard: distance < $5 — Emergency Market Sell', true);
+      console.log(`[TradingManager] 🚨 Flip Guard: Price distance $${priceDistanceUSD.toFixed(2)} < $${flipFilled.toFixed(2)} — executing Emergency Market Sell`);
+      await this.closeAllPositions(`Flip Guard: distance < $${flipFilled.toFixed(2)} — Emergency Market Sell`, true);
       return;
     }
 
-    // If we have positions, check pending entry fills first (so we don't miss other-side fills), then exit conditions
+    // If we have positions, check exit conditions (pending entry fills were reconciled above)
     if (activePositions.length > 0) {
-      if (this.pendingEntryOrders.size > 0) {
-        await this.checkPendingEntryOrderFills();
-      }
-      // Check if EXIT order is already in progress (not entry orders - those shouldn't block exits!)
-      if (this.isPlacingExitOrder) {
-        // Don't spam logs, but check if stuck
-        const timeSinceOrderStart = Date.now() - this.orderPlacementStartTime;
-        if (timeSinceOrderStart > 60000) { // 60 seconds
-          console.error(`[TradingManager] 🚨 EXIT ORDER IN PROGRESS FOR ${(timeSinceOrderStart / 1000).toFixed(0)}s - May be stuck!`);
-        }
-        return; // Skip this check cycle, exit already in progress
+      // Exit already in progress (entry orders shouldn't block exits!)
+      if (this.closingPositions) {
+        return;
       }
 
       // Update position prices continuously (even if entry orders are in progress)
@@ -453,63 +1053,60 @@ export class TradingManager {
       return;
     }
 
-    // ADDITIONAL SAFEGUARD: Check if order is already being placed (prevents race condition)
-    if (this.isPlacingOrder || this.isPlacingSplitOrders) {
-      return; // Don't check entry conditions if order is being placed
-    }
-
-    // Price Difference: only enter when |current BTC price - price to beat| >= configured value (USD)
-    if (this.strategyConfig.priceDifference != null) {
-      if (this.currentPrice === null || this.priceToBeat === null) {
-        console.log('[TradingManager] Entry skipped: price difference required but current price or price-to-beat not set (cannot compute distance)');
-        return;
-      }
-      const priceDiffUSD = this.getPriceDistanceUSD()!;
-      if (priceDiffUSD < this.strategyConfig.priceDifference) {
-        console.log(`[TradingManager] Entry skipped: price diff $${priceDiffUSD.toFixed(2)} < required $${this.strategyConfig.priceDifference} (need diff >= $${this.strategyConfig.priceDifference} to enter)`);
-        return;
-      }
-    }
-
-    // Entry only when time remaining is less than configured max (default 3 min)
-    const timeRemaining = this.getTimeRemainingSeconds();
-    const maxTimeRemaining = this.getEntryTimeRemainingMaxSeconds();
-    if (timeRemaining === null || timeRemaining >= maxTimeRemaining) {
-      if (timeRemaining === null) {
-        console.log('[TradingManager] Entry skipped: event end date not set or invalid — time remaining unknown (need valid activeEvent.endDate)');
-      } else {
-        console.log(`[TradingManager] Entry skipped: time remaining ${timeRemaining.toFixed(0)}s >= max ${maxTimeRemaining}s (enter only in last ${maxTimeRemaining}s)`);
-      }
-      return;
-    }
-
-    // Prevent multiple simultaneous orders
-    if (this.isPlacingOrder) {
+    // An entry order is being placed or resting: wait for it to fill or be cancelled before placing another
+    if (hasPendingEntries) {
       return;
     }
 
-    // If we have pending entry (POST_ONLY limit) orders, check for fills before placing new ones
-    if (this.pendingEntryOrders.size > 0) {
-      await this.checkPendingEntryOrderFills();
+    if (halt || killSwitch) {
       return;
     }
 
-    if (this.pendingLimitOrders.has(yesTokenId)) {
-      await this.checkLimitOrderFill(yesTokenId);
-      return;
-    }
-    if (this.pendingLimitOrders.has(noTokenId)) {
-      await this.checkLimitOrderFill(noTokenId);
+    // Entry distances are measured from the price to beat; a provisional one may be off by however far price moved before we saw it
+    if (this.priceToBeat !== null && this.priceToBeatStatus === 'provisional') {
+      if (this.provisionalWarnedSlug !== this.activeEvent.slug) {
+        this.provisionalWarnedSlug = this.activeEvent.slug;
+        console.warn(`[TradingManager] Entries paused for ${this.activeEvent.slug}: price to beat is provisional`);
+      }
       return;
     }
 
-    // Entry: when UP or DOWN price >= entryPrice, place POST_ONLY limit at (entryPrice - 1); time < max remaining, price diff >= input
+    // Entry rules (price difference, time window, which side, limit price) live in the strategy
     await this.checkAndPlaceLimitOrder(yesTokenId, noTokenId);
   }
 
+  /** Snapshot of the active market for the strategy; token prices are fetched lazily and cached for this evaluation. */
+  private buildMarketSnapshot(yesTokenId: string, noTokenId: string): MarketSnapshot {
+    const tokenIds: Record<Direction, string> = { UP: yesTokenId, DOWN: noTokenId };
+    const prices = new Map<string, Promise<number | null>>();
+    const getPrice = (direction: Direction, side: 'BUY' | 'SELL'): Promise<number | null> => {
+      const key = `${direction}:${side}`;
+      if (!prices.has(key)) {
+        prices.set(key, this.getPriceForToken(tokenIds[direction], side).then((p) => (p == null ? null : toPercentage(p))));
+      }
+      return prices.get(key)!;
+    };
+    return {
+      now: this.clock.now(),
+      eventSlug: this.activeEvent!.slug,
+      tokenIds,
+      assetPrice: this.currentPrice,
+      priceToBeat: this.priceToBeat,
+      priceToBeatStatus: this.priceToBeatStatus,
+      timeRemainingSeconds: this.getTimeRemainingSeconds(),
+      fairValue: this.getFairValue(),
+      positions: this.getActivePositions(),
+      config: { ...this.strategyConfig },
+      getBestBid: (direction) => getPrice(direction, 'BUY'),
+      getBestAsk: (direction) => getPrice(direction, 'SELL'),
+      getBook: (direction) => this.getBook(tokenIds[direction]),
+      getPriceDistance: (source) => this.getPriceDistanceUSD(source),
+    };
+  }
+
   /**
-   * Entry: when UP (or DOWN) token price >= entryPrice, place POST_ONLY limit BUY at (entryPrice - 1).
-   * UP has priority if both qualify. Fee Guard: only POST_ONLY limit orders for entry (no taker fee).
+   * Entry: ask the strategy for entry intents and place them as limit BUYs (POST_ONLY unless the intent says otherwise).
+   * Circuit breaker, max position size and balance checks apply to every strategy.
    */
   private async checkAndPlaceLimitOrder(yesTokenId: string, noTokenId: string): Promise<void> {
     try {
@@ -521,117 +1118,135 @@ export class TradingManager {
         console.warn('[TradingManager] Entry skipped: browser ClobClient not initialized (cannot place orders)');
         return;
       }
-      if (this.isPlacingOrder || this.isPlacingSplitOrders) return;
+      if (this.orders.hasOpenOrders({ purpose: 'entry', eventSlug: this.activeEvent!.slug })) return;
 
       const activePositions = this.getActivePositions();
       const totalPositionSize = activePositions.reduce((sum, p) => sum + p.size, 0);
-      const entryPrice = this.strategyConfig.entryPrice;
-      const limitPriceDecimal = Math.max(0, entryPrice - 1) / 100;
-      const tradeSizeUSD = this.getTradeSizeUSD(limitPriceDecimal);
       // Only enforce cap when we have a valid max (positive number); avoid blocking on stale or zero cap when there are no positions
       const maxPos = this.status.maxPositionSize;
-      if (maxPos != null && maxPos > 0) {
-        if (totalPositionSize >= maxPos) {
-          console.log(`[TradingManager] Entry skipped: at max position size (${totalPositionSize.toFixed(0)} >= ${maxPos})`);
-          return;
-        }
-        if ((totalPositionSize + tradeSizeUSD) > maxPos) {
-          console.log(`[TradingManager] Entry skipped: next trade would exceed max position size (${totalPositionSize.toFixed(0)} + ${tradeSizeUSD.toFixed(2)} > ${maxPos})`);
-          return;
-        }
-      }
-      const [yesPrice, noPrice] = await Promise.all([
-        this.getPriceForToken(yesTokenId, 'BUY'),
-        this.getPriceForToken(noTokenId, 'BUY'),
-      ]);
-      if (!yesPrice || !noPrice) {
-        console.warn('[TradingManager] Entry skipped: price fetch failed (yesPrice=' + (yesPrice != null) + ', noPrice=' + (noPrice != null) + ')');
+      if (maxPos != null && maxPos > 0 && totalPositionSize >= maxPos) {
+        console.log(`[TradingManager] Entry skipped: at max position size (${totalPositionSize.toFixed(0)} >= ${maxPos})`);
         return;
       }
 
-      const yesPricePercent = toPercentage(yesPrice);
-      const noPricePercent = toPercentage(noPrice);
-      // Entry when UP or DOWN token price >= entryPrice: place POST_ONLY at (entryPrice - 1). UP has priority if both qualify.
-      let tokenToTrade: string | null = null;
-      let direction: 'UP' | 'DOWN' | null = null;
-
-      if (yesPricePercent >= entryPrice) {
-        tokenToTrade = yesTokenId;
-        direction = 'UP';
-      } else if (noPricePercent >= entryPrice) {
-        tokenToTrade = noTokenId;
-        direction = 'DOWN';
-      } else {
-        if (activePositions.length > 0) {
-          const currentPrice = Math.max(yesPricePercent, noPricePercent);
-          if (currentPrice < entryPrice) this.priceBelowEntry = true;
-        }
-        console.log(`[TradingManager] Entry skipped: neither side >= entry (UP=${yesPricePercent.toFixed(2)}, DOWN=${noPricePercent.toFixed(2)}, entry=${entryPrice})`);
-        return;
+      const intents = await this.strategy.evaluate(this.buildMarketSnapshot(yesTokenId, noTokenId));
+      let committedSize = totalPositionSize;
+      for (const intent of intents) {
+        const tokenId = intent.direction === 'UP' ? yesTokenId : noTokenId;
+        // Re-checked after evaluate(): a concurrent pass may have placed on this token meanwhile
+        if (this.orders.hasOpenOrders({ purpose: 'entry', tokenId })) continue;
+        const placedSize = await this.placeEntryIntent(intent, tokenId, committedSize);
+        if (placedSize === null) break;
+        committedSize += placedSize;
       }
+    } catch (error) {
+      console.error('[TradingManager] checkAndPlaceLimitOrder error:', error);
+      this.consecutiveFailures++;
+    }
+  }
 
-      if (activePositions.length > 0) {
-        if (!this.priceBelowEntry) {
-          console.log('[TradingManager] Entry skipped: have positions, waiting for price to go below entry before adding');
-          return;
-        }
-        this.priceBelowEntry = false;
+  /** Place one entry intent. Returns its USD size once placed, or null if it was skipped or failed. */
+  private async placeEntryIntent(intent: EntryIntent, tokenId: string, totalPositionSize: number): Promise<number | null> {
+    const { direction } = intent;
+    const tickPercent = this.tickSize * 100;
+    // Floor to the tick so a BUY never bids above what the strategy asked for (epsilon absorbs float error)
+    const limitPrice = Number((Math.floor(intent.limitPrice / tickPercent + 1e-9) * tickPercent).toFixed(6));
+    if (!(limitPrice > 0 && limitPrice < 100)) {
+      console.warn(`[TradingManager] Entry skipped: ${this.strategy.name} returned invalid limit price ${intent.limitPrice}`);
+      return null;
+    }
+    const limitPriceDecimal = limitPrice / 100;
+    const sizing = intent.sizeUSD != null
+      ? { sizeUSD: intent.sizeUSD, shares: intent.sizeUSD / limitPriceDecimal, note: `$${intent.sizeUSD.toFixed(2)} from ${this.strategy.name}` }
+      : sizeEntry(this.strategyConfig, {
+          priceDecimal: limitPriceDecimal,
+          fairValue: this.getFairValue()?.[direction === 'UP' ? 'up' : 'down'] ?? null,
+          bankroll: this.status.walletBalance ?? null,
+          eventSpentUSD: this.getEntrySpendUSD((eventSlug) => eventSlug === this.activeEvent!.slug),
+          daySpentUSD: this.getEntrySpendUSD((_eventSlug, timestamp) => timestamp >= startOfUtcDay(this.clock.now())),
+        });
+    if (sizing.sizeUSD <= 0) {
+      console.log(`[TradingManager] Entry skipped: ${sizing.note}`);
+      return null;
+    }
+    let tradeSizeUSD = sizing.sizeUSD;
+    const maxPos = this.status.maxPositionSize;
+    if (maxPos != null && maxPos > 0 && (totalPositionSize + tradeSizeUSD) > maxPos) {
+      console.log(`[TradingManager] Entry skipped: next trade would exceed max position size (${totalPositionSize.toFixed(0)} + ${tradeSizeUSD.toFixed(2)} > ${maxPos})`);
+      return null;
+    }
+    let sizeInShares = sizing.shares;
+    if (this.entryRiskCheck) {
+      const { approvedUSD, reason } = this.entryRiskCheck({ eventSlug: this.activeEvent!.slug, direction, sizeUSD: tradeSizeUSD });
+      if (approvedUSD < MIN_ORDER_USD) {
+        console.log(`[TradingManager] Entry skipped: portfolio risk limit (${reason})`);
+        return null;
       }
-
-      if (!tokenToTrade || !direction) return;
-      if (!this.verifyBalance(tradeSizeUSD)) {
-        console.warn(`[TradingManager] Entry skipped: insufficient balance for trade size $${tradeSizeUSD.toFixed(2)}`);
-        return;
+      if (approvedUSD < tradeSizeUSD) {
+        console.log(`[TradingManager] Entry trimmed to $${approvedUSD.toFixed(2)} by portfolio risk limit (${reason})`);
+        tradeSizeUSD = approvedUSD;
+        sizeInShares = approvedUSD / limitPriceDecimal;
       }
+    }
+    if (!this.verifyBalance(tradeSizeUSD)) {
+      console.warn(`[TradingManager] Entry skipped: insufficient balance for trade size $${tradeSizeUSD.toFixed(2)}`);
+      return null;
+    }
 
-      const limitPrice = Math.max(0, entryPrice - 1);
-      const unit = this.strategyConfig.tradeSizeUnit ?? 'USD';
-      console.log(`[TradingManager] Entry condition met: placing POST_ONLY limit BUY at ${limitPrice.toFixed(2)} (${direction}), size ${unit === 'shares' ? this.getTradeSizeShares(limitPriceDecimal).toFixed(2) + ' shares' : '$' + tradeSizeUSD.toFixed(2)}`);
-      this.isPlacingOrder = true;
-      this.orderPlacementStartTime = Date.now();
-      try {
-        const result = await this.placePostOnlyEntryLimitOrder(tokenToTrade, entryPrice, direction);
-        if (result?.orderId) {
-          this.pendingEntryOrders.set(tokenToTrade, {
-            orderId: result.orderId,
-            direction,
-            size: tradeSizeUSD,
-            limitPrice,
-            placedAt: Date.now(),
-          });
-          this.consecutiveFailures = 0;
-          console.log(`[TradingManager] POST_ONLY limit entry placed at ${limitPrice.toFixed(2)} (${direction}), orderId: ${result.orderId.substring(0, 8)}...`);
-        } else {
-          this.consecutiveFailures++;
-          console.warn('[TradingManager] Entry order placement failed:', result?.error || 'No order ID returned');
-        }
-      } finally {
-        this.isPlacingOrder = false;
-        this.orderPlacementStartTime = 0;
-      }
-    } catch (error) {
-      console.error('[TradingManager] checkAndPlaceLimitOrder error:', error);
-      this.consecutiveFailures++;
-      this.isPlacingOrder = false;
-      this.orderPlacementStartTime = 0;
+    console.log(`[TradingManager] Entry condition met (${this.strategy.name}: ${intent.reason}): placing ${intent.postOnly ? 'POST_ONLY ' : ''}limit BUY at ${limitPrice.toFixed(2)} (${direction}), size ${sizeInShares.toFixed(2)} shares / $${tradeSizeUSD.toFixed(2)} (${sizing.note})`);
+    // Tracked from here on, so concurrent passes see the entry as pending while it is posted
+    const order = this.orders.create({
+      purpose: 'entry',
+      eventSlug: this.activeEvent!.slug,
+      tokenId,
+      side: 'BUY',
+      direction,
+      price: limitPrice,
+      size: sizeInShares,
+      reason: `${intent.postOnly ? 'POST_ONLY ' : ''}limit entry at ${limitPrice.toFixed(2)} (${direction})`,
+    });
+    const result = await this.placePostOnlyEntryLimitOrder(order, intent.postOnly);
+    if (result?.orderId) {
+      this.consecutiveFailures = 0;
+      console.log(`[TradingManager] ${intent.postOnly ? 'POST_ONLY ' : ''}limit entry placed at ${limitPrice.toFixed(2)} (${direction}), orderId: ${result.orderId.substring(0, 8)}...`);
+      return tradeSizeUSD;
     }
+    this.consecutiveFailures++;
+    console.warn('[TradingManager] Entry order placement failed:', result?.error || 'No order ID returned');
+    return null;
   }
 
-  /** Place a single POST_ONLY limit BUY at (entryPrice - 1) when token price >= entryPrice (Fee Guard: maker-only, no taker fee). */
+  /**
+   * USD committed to entries matching `filter` (by event slug and time): recorded BUY trades plus the full size of
+   * entry orders still open. Feeds the per-event and per-day sizing caps.
+   */
+  private getEntrySpendUSD(filter: (eventSlug: string, timestamp: number) => boolean): number {
+    const traded = this.trades
+      .filter((t) => t.side === 'BUY' && t.status === 'filled' && filter(t.eventSlug, t.timestamp))
+      .reduce((sum, t) => sum + t.size, 0);
+    const resting = this.orders.getOpenOrders({ purpose: 'entry' })
+      .filter((o) => filter(o.eventSlug, o.createdAt))
+      .reduce((sum, o) => sum + o.size * o.price / 100, 0);
+    return traded + resting;
+  }
+
+  /** Place a tracked limit BUY for an entry intent; POST_ONLY by default (Fee Guard: maker-only, no taker fee). */
   private async placePostOnlyEntryLimitOrder(
-    tokenId: string,
-    entryPrice: number,
-    direction: 'UP' | 'DOWN'
+    tracked: TrackedOrder,
+    postOnly: boolean = true
   ): Promise<{ orderId?: string; error?: string }> {
-    if (!this.browserClobClient || !this.apiCredentials) return { error: 'No client or credentials' };
-    const limitPricePercent = Math.max(0, entryPrice - 1);
+    const client = this.browserClobClient;
+    if (!client) {
+      this.orders.abandon(tracked, 'No order client');
+      return { error: 'No order client' };
+    }
+    const { tokenId, direction, price: limitPricePercent } = tracked;
     const limitPriceDecimal = limitPricePercent / 100;
-    const sizeInShares = this.getTradeSizeShares(limitPriceDecimal);
 
     try {
       let feeRateBps: number;
       try {
-        feeRateBps = await this.browserClobClient.getFeeRateBps(tokenId);
+        feeRateBps = await client.getFeeRateBps(tokenId);
         if (!feeRateBps || feeRateBps === 0) feeRateBps = 1000;
       } catch {
         feeRateBps = 1000;
@@ -641,7 +1256,7 @@ export class TradingManager {
       const order: { tokenID: string; price: number; size: number; side: typeof Side.BUY; feeRateBps: number; expiration: number; taker: string } = {
         tokenID: tokenId,
         price: limitPriceDecimal,
-        size: sizeInShares,
+        size: tracked.size,
         side: Side.BUY,
         feeRateBps,
         expiration: 0,
@@ -650,31 +1265,33 @@ export class TradingManager {
 
       const options = { negRisk: false };
       // postOnly is 5th param: createAndPostOrder(userOrder, options, orderType, deferExec, postOnly)
-      const response = await this.browserClobClient.createAndPostOrder(order, options, OrderType.GTC, false, true);
-      const orderId = response?.orderID || (response as any)?.order_id || (response as any)?.id;
+      const response = await this.orders.submit(tracked, () => client.createAndPostOrder(order, options, OrderType.GTC, false, postOnly));
+      const orderId = getResponseOrderId(response);
       if (orderId) {
-        console.log(`[TradingManager] POST_ONLY limit BUY placed at ${limitPricePercent.toFixed(2)} (${direction})`);
+        console.log(`[TradingManager] ${postOnly ? 'POST_ONLY ' : ''}limit BUY placed at ${limitPricePercent.toFixed(2)} (${direction})`);
         return { orderId };
       }
       return { error: (response as any)?.errorMsg || (response as any)?.error || 'No order ID' };
     } catch (e: any) {
       const msg = e?.message || e?.errorMsg || String(e);
+      this.orders.abandon(tracked, msg);
       return { error: msg };
     }
   }
 
-  /** Place POST_ONLY limit SELL at profit target (Fee Guard: maker-only). */
-  private async placePostOnlyLimitSellOrder(
-    tokenId: string,
-    shares: number,
-    limitPricePercent: number
-  ): Promise<{ orderId?: string; error?: string }> {
-    if (!this.browserClobClient || !this.apiCredentials) return { error: 'No client or credentials' };
+  /** Place a tracked POST_ONLY limit SELL at profit target (Fee Guard: maker-only). */
+  private async placePostOnlyLimitSellOrder(tracked: TrackedOrder): Promise<{ orderId?: string; error?: string }> {
+    const client = this.browserClobClient;
+    if (!client) {
+      this.orders.abandon(tracked, 'No order client');
+      return { error: 'No order client' };
+    }
+    const { tokenId, size: shares, price: limitPricePercent } = tracked;
     const limitPriceDecimal = limitPricePercent / 100;
     try {
       let feeRateBps: number;
       try {
-        feeRateBps = await this.browserClobClient.getFeeRateBps(tokenId);
+        feeRateBps = await client.getFeeRateBps(tokenId);
         if (!feeRateBps || feeRateBps === 0) feeRateBps = 1000;
       } catch {
         feeRateBps = 1000;
@@ -683,86 +1300,55 @@ export class TradingManager {
       const order = {
         tokenID: tokenId,
         price: limitPriceDecimal,
-        size: Math.round(shares * 100) / 100,
+        size: shares,
         side: Side.SELL,
         feeRateBps,
         expiration: 0,
         taker: '0x0000000000000000000000000000000000000000',
       };
       const options = { negRisk: false };
-      const response = await this.browserClobClient.createAndPostOrder(order, options, OrderType.GTC, false, true);
-      const orderId = response?.orderID || (response as any)?.order_id || (response as any)?.id;
+      const response = await this.orders.submit(tracked, () => client.createAndPostOrder(order, options, OrderType.GTC, false, true));
+      const orderId = getResponseOrderId(response);
       if (orderId) return { orderId };
       return { error: (response as any)?.errorMsg || (response as any)?.error || 'No order ID' };
     } catch (e: any) {
-      return { error: e?.message || e?.errorMsg || String(e) };
+      const msg = e?.message || e?.errorMsg || String(e);
+      this.orders.abandon(tracked, msg);
+      return { error: msg };
     }
   }
 
   /** Place POST_ONLY limit sells at profit target for all positions (aggregated by token). Returns true if at least one order was placed. */
   private async placeProfitTargetLimitSells(activePositions: Position[], profitTarget: number): Promise<boolean> {
-    if (this.isPlacingExitOrder || activePositions.length === 0 || !this.browserClobClient) return false;
-    this.isPlacingExitOrder = true;
-    this.orderPlacementStartTime = Date.now();
+    if (this.closingPositions || activePositions.length === 0 || !this.browserClobClient) return false;
     const aggregatedByToken = this.aggregatePositionsByToken(activePositions);
     let placed = false;
-    try {
-      for (const [tokenId, data] of aggregatedByToken.entries()) {
-        const result = await this.placePostOnlyLimitSellOrder(tokenId, data.totalShares, profitTarget);
-        if (result.orderId) {
-          this.pendingProfitSellOrders.set(result.orderId, data.positions.map(p => p.id));
-          placed = true;
-          console.log(`[TradingManager] POST_ONLY limit sell at profit target ${profitTarget.toFixed(2)} placed, orderId: ${result.orderId.substring(0, 8)}...`);
-        } else {
-          console.warn(`[TradingManager] Profit target limit sell failed for token ${tokenId.substring(0, 8)}...:`, result.error);
-        }
+    for (const [tokenId, data] of aggregatedByToken.entries()) {
+      // One resting profit-target sell per token; it covers every position on that token
+      if (this.orders.hasOpenOrders({ purpose: 'profit_target', tokenId })) continue;
+      const order = this.orders.create({
+        purpose: 'profit_target',
+        eventSlug: data.positions[0].eventSlug,
+        tokenId,
+        side: 'SELL',
+        direction: data.direction,
+        price: profitTarget,
+        size: Math.round(data.totalShares * 100) / 100,
+        positionIds: data.positions.map(p => p.id),
+        reason: `POST_ONLY profit target sell at ${profitTarget.toFixed(2)}`,
+      });
+      const result = await this.placePostOnlyLimitSellOrder(order);
+      if (result.orderId) {
+        placed = true;
+        console.log(`[TradingManager] POST_ONLY limit sell at profit target ${profitTarget.toFixed(2)} placed, orderId: ${result.orderId.substring(0, 8)}...`);
+      } else {
+        console.warn(`[TradingManager] Profit target limit sell failed for token ${tokenId.substring(0, 8)}...:`, result.error);
       }
-    } finally {
-      this.isPlacingExitOrder = false;
-      this.orderPlacementStartTime = 0;
     }
     this.notifyStatusUpdate();
     return placed;
   }
 
-  /** Check if any pending profit-target limit sells have filled and remove positions. */
-  private async checkPendingProfitSellFills(): Promise<void> {
-    if (!this.browserClobClient || this.pendingProfitSellOrders.size === 0) return;
-    try {
-      const openOrders = await this.browserClobClient.getOpenOrders();
-      const openIds = new Set<string>();
-      (openOrders || []).forEach((o: { id?: string; orderID?: string }) => {
-        const id = o.id ?? (o as any).orderID;
-        if (id) openIds.add(id);
-      });
-      for (const [orderId, positionIds] of this.pendingProfitSellOrders.entries()) {
-        if (openIds.has(orderId)) continue;
-        let orderStatus: string | null = null;
-        try {
-          const res = await this.browserClobClient.getOrder(orderId);
-          const order = (res as any)?.order ?? res;
-          orderStatus = (order?.status ?? '').toString().toLowerCase();
-        } catch (e) {
-          console.warn('[TradingManager] getOrder failed for pending profit sell (order may be cancelled/expired):', orderId.substring(0, 12) + '...', e);
-        }
-        this.pendingProfitSellOrders.delete(orderId);
-        if (orderStatus !== 'matched') {
-          console.log('[TradingManager] Profit target sell no longer open but not matched (status=', orderStatus ?? 'unknown', '). Not removing positions.');
-          this.notifyStatusUpdate();
-          continue;
-        }
-        const before = this.positions.length;
-        this.positions = this.positions.filter(p => !positionIds.includes(p.id));
-        this.status.positions = [...this.positions];
-        this.status.totalPositionSize = this.positions.reduce((sum, p) => sum + p.size, 0);
-        console.log(`[TradingManager] ✅ Profit target limit sell filled (verified matched), orderId: ${orderId.substring(0, 8)}..., removed ${before - this.positions.length} position(s)`);
-        this.notifyStatusUpdate();
-      }
-    } catch (e) {
-      console.warn('[TradingManager] checkPendingProfitSellFills error:', e);
-    }
-  }
-
   /**
    * Legacy: Check both UP and DOWN tokens and place market order when price equals entry price.
    * Kept for reference; entry now uses POST_ONLY limit at (entryPrice - 1) via checkAndPlaceLimitOrder.
@@ -823,12 +1409,8 @@ export class TradingManager {
     _direction: 'UP' | 'DOWN',
     orderIndex: number,
     totalOrders: number
-  ): Promise<{ success: boolean; orderId?: string; fillPrice?: number; error?: string }> {
+  ): Promise<{ success: boolean; orderId?: string; fillPrice?: number; matched?: { shares: number; usd: number } | null; feeRateBps?: number; error?: string }> {
     try {
-      if (!this.apiCredentials) {
-        return { success: false, error: 'No API credentials' };
-      }
-
       if (this.browserClobClient) {
         const { OrderType, Side } = await import('@polymarket/clob-client');
         
@@ -942,6 +1524,8 @@ export class TradingManager {
             success: true,
             orderId,
             fillPrice: toPercentage(askPrice),
+            matched: getMatchedAmounts(response, 'BUY'),
+            feeRateBps,
           };
         }
         if (orderId && orderStatus && orderStatus !== 'matched') {
@@ -986,15 +1570,6 @@ export class TradingManager {
    * Uses builder attribution via remote signing through /api/orders endpoint
    */
   private async _placeMarketOrder(tokenId: string, entryPrice: number, direction: 'UP' | 'DOWN'): Promise<void> {
-    // Note: isPlacingOrder and isPlacingSplitOrders should already be set in checkAndPlaceMarketOrder
-    // before calling this method to prevent race conditions.
-    // If flags are not set (shouldn't happen), set them as fallback for safety
-    if (!this.isPlacingOrder || !this.isPlacingSplitOrders) {
-      console.warn('[TradingManager] Flags not set, setting them now (fallback)');
-      this.isPlacingOrder = true;
-      this.isPlacingSplitOrders = true;
-    }
-
     try {
       const entryPriceDecimal = entryPrice / 100;
       const tradeSizeUSD = this.getTradeSizeUSD(entryPriceDecimal);
@@ -1019,48 +1594,6 @@ export class TradingManager {
         splits: orderSplits,
       });
 
-      if (!this.apiCredentials) {
-        // Simulation mode
-        const trade: Trade = {
-          id: `market-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          eventSlug: this.activeEvent!.slug,
-          tokenId,
-          side: 'BUY',
-          size: tradeSizeUSD,
-          price: entryPrice,
-          timestamp: Date.now(),
-          status: 'filled',
-          transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`,
-          reason: `Simulated market order (FAK) filled at ${entryPrice.toFixed(2)} (${direction})`,
-          orderType: 'MARKET',
-          direction,
-        };
-
-        // Create new position in simulation mode
-        const newPosition: Position = {
-          id: `position-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          eventSlug: trade.eventSlug,
-          tokenId: trade.tokenId,
-          side: trade.side,
-          size: tradeSizeUSD,
-          entryPrice: entryPrice,
-          direction,
-          filledOrders: [{ orderId: trade.transactionHash!, price: entryPrice, size: tradeSizeUSD, timestamp: Date.now() }],
-          entryTimestamp: Date.now(),
-        };
-
-        this.positions.push(newPosition);
-        this.status.positions = [...this.positions];
-        this.status.totalPositionSize = this.positions.reduce((sum, p) => sum + p.size, 0);
-
-        this.trades.push(trade);
-        this.status.totalTrades++;
-        this.status.successfulTrades++;
-        this.notifyTradeUpdate(trade);
-        this.notifyStatusUpdate();
-        return;
-      }
-
       // Place real orders (single or split)
       const filledOrders: Array<{ orderId: string; price: number; size: number; timestamp: number }> = [];
       let totalFilledSize = 0;
@@ -1082,19 +1615,31 @@ export class TradingManager {
             orderId: result.orderId,
             price: result.fillPrice,
             size: split.size,
-            timestamp: Date.now(),
+            timestamp: this.clock.now(),
           });
           totalFilledSize += split.size;
+          const bought = result.matched ?? { shares: split.size / (result.fillPrice / 100), usd: split.size };
+          this.recordLedgerFill({
+            eventSlug: this.activeEvent!.slug,
+            tokenId,
+            direction,
+            side: 'BUY',
+            shares: bought.shares,
+            price: bought.usd / bought.shares * 100,
+            fee: getTakerFee(result.feeRateBps ?? 0, bought.usd / bought.shares, bought.shares),
+            ref: result.orderId,
+            timestamp: this.clock.now(),
+          });
 
           // Create trade record for each filled order
           const trade: Trade = {
-            id: `market-${Date.now()}-${i}-${Math.random().toString(36).substr(2, 9)}`,
+            id: `market-${this.clock.now()}-${i}-${Math.random().toString(36).substr(2, 9)}`,
             eventSlug: this.activeEvent!.slug,
             tokenId,
             side: 'BUY',
             size: split.size,
             price: result.fillPrice,
-            timestamp: Date.now(),
+            timestamp: this.clock.now(),
             status: 'filled',
             transactionHash: result.orderId,
             reason: `Market order ${isLargeOrder ? `(${i + 1}/${orderSplits.length}) ` : ''}filled at ${result.fillPrice.toFixed(2)} (${direction})`,
@@ -1128,7 +1673,7 @@ export class TradingManager {
 
         // Small delay between split orders to avoid rate limiting
         if (i < orderSplits.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 500));
+          await this.clock.sleep(500);
         }
       }
       
@@ -1157,7 +1702,7 @@ export class TradingManager {
 
         // Create NEW position (don't overwrite existing)
         const newPosition: Position = {
-          id: `position-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          id: `position-${this.clock.now()}-${Math.random().toString(36).substr(2, 9)}`,
           eventSlug: this.activeEvent!.slug,
           tokenId,
           side: 'BUY',
@@ -1165,7 +1710,7 @@ export class TradingManager {
           entryPrice: avgEntryPrice,
           direction,
           filledOrders,
-          entryTimestamp: Date.now(),
+          entryTimestamp: this.clock.now(),
         };
 
         // Add to positions array
@@ -1223,71 +1768,6 @@ export class TradingManager {
         stack: error instanceof Error ? error.stack : undefined,
       });
       this.status.failedTrades++;
-    } finally {
-      this.isPlacingOrder = false;
-      this.isPlacingSplitOrders = false;
-      this.orderPlacementStartTime = 0; // Reset timer
-    }
-  }
-
-  /**
-   * Check if pending limit order should fill (price reached limit price)
-   */
-  private async checkLimitOrderFill(tokenId: string): Promise<void> {
-    const pendingOrder = this.pendingLimitOrders.get(tokenId);
-    if (!pendingOrder) {
-      return;
-    }
-
-    try {
-      // Get current market price
-      const currentMarketPrice = await this.clobClient.getPrice(tokenId, 'BUY');
-      
-      if (!currentMarketPrice) {
-        return;
-      }
-
-      const currentPricePercent = toPercentage(currentMarketPrice);
-      const limitPrice = pendingOrder.limitPrice!;
-
-      // Check if price has reached or crossed the limit price
-      // For BUY limit orders, fill when price is at or below limit
-      if (currentPricePercent <= limitPrice + 0.1) { // Small buffer for slippage
-        // Limit order filled
-        pendingOrder.status = 'filled';
-        pendingOrder.price = currentPricePercent; // Actual fill price
-        pendingOrder.transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
-        
-        // Remove from pending orders
-        this.pendingLimitOrders.delete(tokenId);
-        this.status.pendingLimitOrders = this.pendingLimitOrders.size;
-
-        // Update trade status
-        this.status.successfulTrades++;
-
-        // Determine direction based on which token this is
-        const direction = this.activeEvent?.clobTokenIds?.[0] === tokenId ? 'UP' : 'DOWN';
-        
-        // Create position
-        this.status.currentPosition = {
-          eventSlug: pendingOrder.eventSlug,
-          tokenId: pendingOrder.tokenId,
-          side: pendingOrder.side,
-          entryPrice: currentPricePercent,
-          size: pendingOrder.size,
-          direction,
-        };
-        
-        // Update trade with direction
-        pendingOrder.direction = direction;
-
-        console.log(`Limit order filled: ${pendingOrder.id} at ${currentPricePercent.toFixed(2)}`);
-
-        this.notifyTradeUpdate(pendingOrder);
-        this.notifyStatusUpdate();
-      }
-    } catch (error) {
-      console.error('Error checking limit order fill:', error);
     }
   }
 
@@ -1362,19 +1842,10 @@ export class TradingManager {
 
     if (activePositions.length === 0) return;
 
-    // Prevent multiple simultaneous exit orders
-    // CRITICAL: Only check exit order flag, NOT entry order flags (entry orders shouldn't block exits!)
-    if (this.isPlacingExitOrder) {
-      // Check if exit order is stuck (taking too long)
-      const timeSinceOrderStart = Date.now() - this.orderPlacementStartTime;
-      if (timeSinceOrderStart > this.MAX_ORDER_PLACEMENT_TIME) {
-        console.error(`[TradingManager] 🚨 EXIT ORDER FLAGS STUCK! Exit order exceeded ${this.MAX_ORDER_PLACEMENT_TIME}ms. Force resetting flags.`);
-        this.isPlacingExitOrder = false;
-        this.orderPlacementStartTime = 0;
-      } else {
-        if (timeSinceOrderStart > 5000) console.log(`[TradingManager] Exit order in progress (${(timeSinceOrderStart / 1000).toFixed(0)}s)`);
-        return;
-      }
+    // Prevent multiple simultaneous exits
+    // CRITICAL: Only check the exit run, NOT pending entry orders (entry orders shouldn't block exits!)
+    if (this.closingPositions) {
+      return;
     }
     
     if (!this.activeEvent || !this.activeEvent.clobTokenIds || this.activeEvent.clobTokenIds.length < 2) {
@@ -1557,8 +2028,8 @@ export class TradingManager {
             currentSellPrice: p.currentPrice?.toFixed(2),
           })),
           useAdaptiveSelling,
-          isPlacingExitOrder: this.isPlacingExitOrder,
-          isPlacingEntryOrder: this.isPlacingOrder || this.isPlacingSplitOrders,
+          closingPositions: this.closingPositions,
+          openOrders: this.orders.getOpenOrders().map(o => `${o.purpose}:${o.state}`),
         });
 
         // CRITICAL: Exit conditions should ALWAYS execute, even if entry orders are in progress
@@ -1570,9 +2041,6 @@ export class TradingManager {
           console.log(`[TradingManager] 🎯 Placing POST_ONLY limit sell at profit target ${profitTarget.toFixed(2)}...`);
           await this.placeProfitTargetLimitSells(activePositions, profitTarget);
         }
-      } else if (this.pendingProfitSellOrders.size > 0) {
-        // No exit triggered this cycle; check if any pending profit-target limit sells have filled
-        await this.checkPendingProfitSellFills();
       }
 
       this.notifyStatusUpdate();
@@ -1598,12 +2066,8 @@ export class TradingManager {
     totalOrders: number,
     yesPricePercent: number,
     noPricePercent: number
-  ): Promise<{ success: boolean; orderId?: string; fillPrice?: number; filledShares?: number; error?: string }> {
+  ): Promise<{ success: boolean; orderId?: string; fillPrice?: number; filledShares?: number; matched?: { shares: number; usd: number } | null; feeRateBps?: number; error?: string }> {
     try {
-      if (!this.apiCredentials) {
-        return { success: false, error: 'No API credentials' };
-      }
-
       // Use the appropriate price based on direction (same as adaptive selling)
       const currentPricePercent = direction === 'UP' ? yesPricePercent : noPricePercent;
       
@@ -1662,13 +2126,24 @@ export class TradingManager {
           note: 'Shares calculated from actual filled orders (what you actually own)',
         });
 
+        const client = this.browserClobClient;
+        const tracked = this.orders.create({
+          purpose: 'exit',
+          eventSlug: this.activeEvent?.slug ?? '',
+          tokenId,
+          side: 'SELL',
+          direction,
+          price: currentPricePercent,
+          size: roundedShares,
+          reason: `FAK market sell ${orderIndex + 1}/${totalOrders}`,
+        });
         let response;
         try {
-          response = await this.browserClobClient.createAndPostMarketOrder(
+          response = await this.orders.submit(tracked, () => client.createAndPostMarketOrder(
             marketOrder,
             { negRisk: false },
             OrderType.FAK
-          );
+          ));
         } catch (orderError: any) {
           // Handle specific FAK order errors
           const errorData = orderError?.response?.data || orderError?.data || {};
@@ -1745,6 +2220,8 @@ export class TradingManager {
             orderId,
             fillPrice: currentPricePercent,
             filledShares,
+            matched: getMatchedAmounts(response, 'SELL'),
+            feeRateBps,
           };
         }
         if (orderId && orderStatus && orderStatus !== 'matched') {
@@ -1844,28 +2321,30 @@ export class TradingManager {
    * @param isStopLoss - If true, uses aggressive mode: no splitting, no delays
    */
   private async closeAllPositions(reason: string, isStopLoss: boolean = false): Promise<void> {
-    // CRITICAL: Take a snapshot of positions to ensure they don't change during processing
-    const activePositions = [...this.getActivePositions()]; // Spread to create new array
-
-    if (activePositions.length === 0) {
+    if (this.getActivePositions().length === 0) {
       console.log('[TradingManager] closeAllPositions: No active positions to close');
       return;
     }
 
-    // CRITICAL: Only check exit order flag, not entry order flags
-    if (this.isPlacingExitOrder) {
+    // CRITICAL: Only check the exit run, not pending entry orders
+    if (this.closingPositions) {
       console.log('[TradingManager] Exit order already being placed, skipping...');
       return;
     }
 
-    // Set exit order flag (separate from entry order flags)
-    this.isPlacingExitOrder = true;
-    this.orderPlacementStartTime = Date.now(); // Track when exit order placement started
+    // Mark the exit run (separate from entry orders)
+    this.closingPositions = true;
+
+    // Resting profit-target sells lock the shares we are about to sell: cancel them first (a partial fill shrinks the positions)
+    await this.cancelOpenOrders({ purpose: 'profit_target', eventSlug: this.activeEvent?.slug });
+
+    // CRITICAL: Take a snapshot of positions to ensure they don't change during processing
+    const activePositions = [...this.getActivePositions()]; // Spread to create new array
 
     const closedPositionIds: string[] = [];
     const failedPositionIds: string[] = [];
     
-      console.log(`[TradingManager] 🔒 Exit flags locked. isPlacingExitOrder=${this.isPlacingExitOrder}`);
+      console.log(`[TradingManager] 🔒 Exit run locked. closingPositions=${this.closingPositions}`);
       console.log(`[TradingManager] 📸 Snapshot taken: ${activePositions.length} position(s) to close`);
     
     // Aggregate positions by token
@@ -1999,7 +2478,7 @@ export class TradingManager {
           if (isStopLoss && failedPositions.length > 0) {
             console.error(`[TradingManager] 🔄🔄🔄 STOP LOSS RETRY: Attempting to close ${failedPositions.length} failed position(s) again...`);
             console.error(`[TradingManager] 🔄 Waiting 1 second before retry...`);
-            await new Promise(resolve => setTimeout(resolve, 1000));
+            await this.clock.sleep(1000);
             
             // Re-aggregate failed positions by token for retry
             const retryAggregated = this.aggregatePositionsByToken(failedPositions);
@@ -2053,7 +2532,7 @@ export class TradingManager {
         if (isStopLoss) {
           console.error(`[TradingManager] 🔄 STOP LOSS TOTAL RETRY: All positions failed. Retrying entire process...`);
           // Wait a bit before retry
-          await new Promise(resolve => setTimeout(resolve, 2000));
+          await this.clock.sleep(2000);
           
           // Re-aggregate all positions for emergency retry
           const emergencyAggregated = this.aggregatePositionsByToken(activePositions);
@@ -2105,10 +2584,9 @@ export class TradingManager {
         this.notifyStatusUpdate();
       }
     } finally {
-      this.isPlacingExitOrder = false;
-      this.orderPlacementStartTime = 0; // Reset timer
+      this.closingPositions = false;
       
-      console.log(`[TradingManager] 🔓 Exit flags unlocked. isPlacingExitOrder=${this.isPlacingExitOrder}`);
+      console.log(`[TradingManager] 🔓 Exit run unlocked. closingPositions=${this.closingPositions}`);
       console.log(`[TradingManager] 🏁 closeAllPositions finished. Final position count: ${this.positions.length}`);
     }
   }
@@ -2154,37 +2632,6 @@ export class TradingManager {
       })
     });
 
-    if (!this.apiCredentials) {
-      // Simulation mode
-      const avgEntryPrice = positions.reduce((sum, p) => sum + p.entryPrice * p.size, 0) / totalSizeUSD;
-      const exitPricePercent = avgEntryPrice;
-      const priceDiff = exitPricePercent - avgEntryPrice;
-      const profit = (priceDiff / avgEntryPrice) * totalSizeUSD;
-
-      const exitTrade: Trade = {
-        id: `exit-aggregated-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        eventSlug: positions[0].eventSlug,
-        tokenId,
-        side: 'SELL',
-        size: totalSizeUSD,
-        price: exitPricePercent,
-        timestamp: Date.now(),
-        status: 'filled',
-        transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`,
-        profit,
-        reason: `Simulated aggregated exit (${positions.length} positions): ${reason}`,
-        orderType: 'MARKET',
-        direction,
-      };
-
-      this.trades.push(exitTrade);
-      this.status.totalTrades++;
-      this.status.totalProfit += profit;
-      this.status.successfulTrades++;
-      this.notifyTradeUpdate(exitTrade);
-      return { closedPositionIds: positions.map(p => p.id) };
-    }
-
     // Get current market price for selling
     if (!this.activeEvent || !this.activeEvent.clobTokenIds || this.activeEvent.clobTokenIds.length < 2) {
       throw new Error('Cannot close positions: missing event or token IDs');
@@ -2194,8 +2641,8 @@ export class TradingManager {
     const noTokenId = this.activeEvent.clobTokenIds[1];
 
     const [yesPrice, noPrice] = await Promise.all([
-      this.clobClient.getPrice(yesTokenId, 'SELL'),
-      this.clobClient.getPrice(noTokenId, 'SELL'),
+      this.getPriceForToken(yesTokenId, 'SELL'),
+      this.getPriceForToken(noTokenId, 'SELL'),
     ]);
 
     if (!yesPrice || !noPrice) {
@@ -2238,15 +2685,27 @@ export class TradingManager {
       const avgEntryPrice = positions.reduce((sum, p) => sum + p.entryPrice * p.size, 0) / currentTotalSize;
       const entryCostUSD = filled * (avgEntryPrice / 100);
       const totalProfit = exitValueUSD - entryCostUSD;
+      const sold = result.matched ?? { shares: filled, usd: exitValueUSD };
+      this.recordLedgerFill({
+        eventSlug: positions[0].eventSlug,
+        tokenId,
+        direction,
+        side: 'SELL',
+        shares: sold.shares,
+        price: sold.usd / sold.shares * 100,
+        fee: getTakerFee(result.feeRateBps ?? 0, sold.usd / sold.shares, sold.shares),
+        ref: result.orderId,
+        timestamp: this.clock.now(),
+      });
 
       const exitTrade: Trade = {
-        id: `exit-aggregated-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        id: `exit-aggregated-${this.clock.now()}-${Math.random().toString(36).substr(2, 9)}`,
         eventSlug: positions[0].eventSlug,
         tokenId,
         side: 'SELL',
         size: exitValueUSD,
         price: result.fillPrice,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
         status: 'filled',
         transactionHash: result.orderId,
         profit: totalProfit,
@@ -2257,7 +2716,6 @@ export class TradingManager {
 
       this.trades.push(exitTrade);
       this.status.totalTrades++;
-      this.status.totalProfit += totalProfit;
       this.status.successfulTrades++;
       this.notifyTradeUpdate(exitTrade);
 
@@ -2307,7 +2765,7 @@ export class TradingManager {
       return;
     }
 
-    if (this.isPlacingExitOrder) {
+    if (this.closingPositions) {
       console.log('[TradingManager] Exit order already being placed, skipping...');
       return;
     }
@@ -2355,36 +2813,6 @@ export class TradingManager {
       reason: reason,
     });
 
-    if (!this.apiCredentials) {
-      // Simulation mode
-      const exitPricePercent = position.entryPrice;
-      const priceDiff = exitPricePercent - position.entryPrice;
-      const profit = (priceDiff / position.entryPrice) * positionSize;
-
-      const exitTrade: Trade = {
-        id: `exit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        eventSlug: position.eventSlug,
-        tokenId: position.tokenId,
-        side: 'SELL',
-        size: positionSize,
-        price: exitPricePercent,
-        timestamp: Date.now(),
-        status: 'filled',
-        transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`,
-        profit,
-        reason: `Simulated exit: ${reason}`,
-        orderType: 'MARKET',
-        direction,
-      };
-
-      this.trades.push(exitTrade);
-      this.status.totalTrades++;
-      this.status.totalProfit += profit;
-      this.status.successfulTrades++;
-      this.notifyTradeUpdate(exitTrade);
-      return;
-    }
-
     // Fetch current market prices
     if (!this.activeEvent || !this.activeEvent.clobTokenIds || this.activeEvent.clobTokenIds.length < 2) {
       console.error('[TradingManager] Cannot close position: missing event or token IDs');
@@ -2395,8 +2823,8 @@ export class TradingManager {
     const noTokenId = this.activeEvent.clobTokenIds[1];
 
     const [yesPrice, noPrice] = await Promise.all([
-      this.clobClient.getPrice(yesTokenId, 'SELL'),
-      this.clobClient.getPrice(noTokenId, 'SELL'),
+      this.getPriceForToken(yesTokenId, 'SELL'),
+      this.getPriceForToken(noTokenId, 'SELL'),
     ]);
 
     if (!yesPrice || !noPrice) {
@@ -2470,18 +2898,30 @@ export class TradingManager {
         const exitValueUSD = filledShares * exitPriceDecimal;
         const entryCostUSD = filledShares * entryPriceDecimal;
         const splitProfit = exitValueUSD - entryCostUSD;
+        const sold = result.matched ?? { shares: filledShares, usd: exitValueUSD };
+        this.recordLedgerFill({
+          eventSlug: position.eventSlug,
+          tokenId: position.tokenId,
+          direction,
+          side: 'SELL',
+          shares: sold.shares,
+          price: sold.usd / sold.shares * 100,
+          fee: getTakerFee(result.feeRateBps ?? 0, sold.usd / sold.shares, sold.shares),
+          ref: result.orderId,
+          timestamp: this.clock.now(),
+        });
 
         totalProfit += splitProfit;
         totalFilledSize += exitValueUSD;
 
         const exitTrade: Trade = {
-          id: `exit-${Date.now()}-${i}-${Math.random().toString(36).substr(2, 9)}`,
+          id: `exit-${this.clock.now()}-${i}-${Math.random().toString(36).substr(2, 9)}`,
           eventSlug: position.eventSlug,
           tokenId: position.tokenId,
           side: 'SELL',
           size: exitValueUSD,
           price: result.fillPrice,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
           status: 'filled',
           transactionHash: result.orderId,
           profit: splitProfit,
@@ -2501,13 +2941,12 @@ export class TradingManager {
       // For stop loss: NO delays between orders - maximum speed
       // For normal exits: small delay between split orders
       if (!isStopLoss && i < numSplits - 1) {
-        await new Promise(resolve => setTimeout(resolve, 500));
+        await this.clock.sleep(500);
       }
     }
 
     if (totalFilledSize > 0) {
       this.status.successfulTrades++;
-      this.status.totalProfit += totalProfit;
       console.log(`[TradingManager] ✅✅✅ Single position closed${isStopLoss ? ' (⚡AGGRESSIVE STOP LOSS⚡)' : ''}:`, {
         positionId: position.id.substring(0, 8) + '...',
         tokenId: position.tokenId.substring(0, 10) + '...',
@@ -2547,7 +2986,9 @@ export class TradingManager {
     // Server-side API is blocked by Cloudflare, so browser client is required
     if (!this.browserClobClient) {
       console.error('[TradingManager] ❌ Cannot start trading - Browser ClobClient not initialized. Server-side API is blocked by Cloudflare. Please ensure wallet is connected and browser client is initialized.');
-      alert('Cannot start trading: Browser ClobClient not initialized. Please ensure wallet is connected.');
+      if (typeof window !== 'undefined') {
+        alert('Cannot start trading: Browser ClobClient not initialized. Please ensure wallet is connected.');
+      }
       return;
     }
 
@@ -2555,8 +2996,10 @@ export class TradingManager {
     this.consecutiveFailures = 0; // Reset circuit breaker on start
     this.notifyStatusUpdate();
 
-    // Start continuous monitoring loop
-    this.startContinuousMonitoring();
+    // Start continuous monitoring loop (replay mode is driven by evaluate() instead)
+    if (this.mode === 'live') {
+      this.startContinuousMonitoring();
+    }
   }
 
   /**
@@ -2588,13 +3031,15 @@ export class TradingManager {
         await this.checkTradingConditions();
         
         // Small delay to prevent overwhelming the system and API rate limits
-        // 100ms delay provides ~10 checks per second while being respectful to API
-        await new Promise(resolve => setTimeout(resolve, 100));
+        // 100ms delay provides ~10 checks per second while being respectful to API; while the book socket is
+        // delivering, book updates drive evaluation and the loop only needs to cover time-based rules
+        const booksLive = this.clock.now() - this.lastBookUpdateAt < TradingManager.BOOK_LIVE_MS;
+        await this.clock.sleep(booksLive ? 1000 : 100);
       } catch (error) {
         // Log error but continue monitoring (don't break the loop)
         console.error('[TradingManager] Error in continuous monitoring loop:', error);
         // Add a slightly longer delay on error to prevent rapid error loops
-        await new Promise(resolve => setTimeout(resolve, 500));
+        await this.clock.sleep(500);
       }
     }
 
@@ -2606,30 +3051,40 @@ export class TradingManager {
     this.isMonitoring = false; // Stop continuous monitoring loop
     this.consecutiveFailures = 0; // Reset circuit breaker
 
-    // Clear pending entry and profit-target order tracking (actual cancels done by cancelAllPendingEntryOrders if needed)
-    this.pendingEntryOrders.clear();
-    this.pendingProfitSellOrders.clear();
-
-    // Cancel all pending limit orders
-    this.cancelAllPendingOrders();
+    // Resting orders stay tracked (they still exist on the CLOB) and are reconciled when trading restarts
 
     this.notifyStatusUpdate();
   }
 
-  private cancelAllPendingOrders(): void {
-    this.pendingLimitOrders.forEach((order) => {
-      order.status = 'cancelled';
-      order.reason = 'Trading stopped - order cancelled';
-      this.notifyTradeUpdate(order);
-    });
-    this.pendingLimitOrders.clear();
-    this.status.pendingLimitOrders = 0;
+  /** Every tracked order, oldest first (open and recently closed). */
+  getOrders(): TrackedOrder[] {
+    return this.orders.getOrders();
   }
 
   getTrades(): Trade[] {
     return [...this.trades];
   }
 
+  /** Ledger entries (fills, fees, redemptions, resolution losses), oldest first. */
+  getLedgerEntries(): LedgerEntry[] {
+    return this.ledger.getEntries();
+  }
+
+  /** Realized and unrealized PnL and fees, per event, asset and day. Open shares are marked at their position's current price. */
+  getPnlSummary(): PnlSummary {
+    return this.ledger.getSummary((tokenId) => this.positions.find((p) => p.tokenId === tokenId && p.currentPrice !== undefined)?.currentPrice ?? null);
+  }
+
+  private recordLedgerFill(fill: LedgerFill): void {
+    this.ledger.recordFill(fill);
+    this.onLedgerChange();
+  }
+
+  private onLedgerChange(): void {
+    this.status.totalProfit = this.ledger.getRealizedTotal();
+    this.saveLedger();
+  }
+
   getStatus(): TradingStatus {
     return { ...this.status };
   }
@@ -2639,8 +3094,18 @@ export class TradingManager {
     return [...this.positions];
   }
 
-  /** Remove positions by ID (e.g. after redemption). Used by Auto-Redemption Service. */
-  removePositionsByIds(positionIds: string[]): void {
+  /**
+   * Remove positions by ID (e.g. after redemption). Used by Auto-Redemption Service.
+   * With a known `resolution` payout, the token's shares are settled in the PnL ledger as a redemption or a loss.
+   */
+  removePositionsByIds(positionIds: string[], resolution?: RedeemContext): void {
+    if (resolution && resolution.payout !== null) {
+      const entry = this.ledger.recordResolution(resolution.eventSlug, resolution.tokenId, resolution.payout, this.clock.now());
+      if (entry) {
+        console.log(`[TradingManager] Resolved ${resolution.eventSlug} ${entry.direction ?? ''}: ${(-entry.shares).toFixed(2)} share(s) paid $${entry.cash.toFixed(2)}, realized $${entry.realized.toFixed(2)}`);
+        this.onLedgerChange();
+      }
+    }
     if (positionIds.length === 0) return;
     const set = new Set(positionIds);
     this.positions = this.positions.filter((p) => !set.has(p.id));
@@ -2703,6 +3168,7 @@ export class TradingManager {
     if (this.onStatusUpdate) {
       this.onStatusUpdate(this.getStatus());
     }
+    this.persistState();
   }
 
   private notifyTradeUpdate(trade: Trade): void {
@@ -2714,18 +3180,18 @@ export class TradingManager {
 
   clearTrades(): void {
     this.trades = [];
+    this.ledger.clear();
     this.status.totalTrades = 0;
     this.status.successfulTrades = 0;
     this.status.failedTrades = 0;
     try {
-      localStorage.removeItem(TradingManager.TRADES_STORAGE_KEY);
+      this.storage.removeItem(this.getStorageKey(TradingManager.TRADES_STORAGE_KEY));
+      this.storage.removeItem(this.getStorageKey(TradingManager.LEDGER_STORAGE_KEY));
     } catch {
       // ignore
     }
     this.status.totalProfit = 0;
     this.status.currentPosition = undefined;
-    this.pendingLimitOrders.clear();
-    this.status.pendingLimitOrders = 0;
     this.notifyStatusUpdate();
   }
 }
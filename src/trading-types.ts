@@ -1,3 +1,6 @@
+import type { ClobClient } from '@polymarket/clob-client';
+import type { ConsensusPrice, PriceSource } from './price-consensus';
+
 export interface StrategyConfig {
   enabled: boolean;
   // Entry price for limit order (0-100 scale for Polymarket binary markets)
@@ -6,18 +9,58 @@ export interface StrategyConfig {
   profitTargetPrice: number; // e.g., 100
   // Stop loss price (0-100 scale)
   stopLossPrice: number; // e.g., 91
-  // Trade size: amount in USD or in shares depending on tradeSizeUnit
+  // Trade size: amount in USD or in shares depending on tradeSizeUnit; the per-trade cap (USD) for 'kelly'
   tradeSize: number;
-  // Unit for tradeSize: 'USD' (default) or 'shares'
-  tradeSizeUnit?: 'USD' | 'shares';
+  // Unit for tradeSize: 'USD' (default), 'shares', or 'kelly' (fractional Kelly from the fair value, see position-sizing.ts)
+  tradeSizeUnit?: 'USD' | 'shares' | 'kelly';
+  // Kelly sizing: fraction of the full-Kelly stake to bet
+  kellyFraction?: number; // default 0.25
+  // Cap on entries per event (USD, filled or resting); null/unset = none
+  maxEventSizeUsd?: number | null;
+  // Cap on entries per UTC day (USD); null/unset = none
+  maxDailySizeUsd?: number | null;
+  // Max open position size as a fraction of wallet balance
+  maxPositionFraction?: number; // default 0.5
   // Price Difference (in USD) - Strategy only activates when |Price to Beat - Current BTC Price| >= this value
   priceDifference?: number | null;
+  // Price the Price Difference filter measures with: 'chainlink' (resolution source), 'exchange' (leads it) or 'consensus'
+  priceDifferenceSource?: PriceSource; // default 'chainlink'
   // Flip Guard: cancel pending entry bids when price distance (USD) drops below this
   flipGuardPendingDistanceUsd?: number; // default 15
   // Flip Guard: emergency market sell when filled and price distance (USD) drops below this
   flipGuardFilledDistanceUsd?: number; // default 5
+  // Price Flip Guard measures its distance with (same choices as priceDifferenceSource)
+  flipGuardPriceSource?: PriceSource; // default 'chainlink'
+  // Flip Guard thresholds: 'fixed' uses the USD distances above; 'volatility' derives them from realized volatility
+  // of the Chainlink ticks scaled by √(time remaining), falling back to the fixed distances until enough ticks arrive
+  flipGuardMode?: 'fixed' | 'volatility'; // default 'fixed'
+  // Volatility mode: cancel pending entry bids once the chance of a flip before the end rises above this (0-1)
+  flipGuardPendingFlipProbability?: number; // default 0.3
+  // Volatility mode: emergency market sell once the chance of a flip rises above this (0-1)
+  flipGuardFilledFlipProbability?: number; // default 0.45
+  // How far back realized volatility is measured (seconds); used by volatility-mode Flip Guard and the fair value model
+  flipGuardVolatilityWindowSeconds?: number; // default 300
+  // Entries require model fair value minus the limit price to be at least this (0-100 points); null/unset = off
+  minEdge?: number | null;
   // Entry only when time remaining until event end is less than this (seconds)
   entryTimeRemainingMaxSeconds?: number; // default 180 (3 min)
+  // Feed halt: price older than this (seconds) blocks new entries and Flip Guard (also while the socket is down or stale)
+  staleFeedBlockEntriesSeconds?: number; // default 10
+  // Feed halt: price older than this (seconds) also cancels pending POST_ONLY entry bids
+  staleFeedCancelBidsSeconds?: number; // default 20
+  // Feed halt: price older than this (seconds) also market-sells open positions; null/unset = never
+  staleFeedFlattenSeconds?: number | null;
+  // Kill switch (loss-limits.ts): realized loss today (UTC, USD) that stops trading; null/unset = none
+  maxDailyLossUsd?: number | null;
+  // Kill switch: realized loss over the last rollingLossWindowHours (USD); null/unset = none
+  maxRollingLossUsd?: number | null;
+  rollingLossWindowHours?: number; // default 24
+  // Kill switch: losing events in a row; null/unset = none
+  maxConsecutiveLosingEvents?: number | null;
+  // Kill switch: drop of realized equity from its peak (USD); null/unset = none
+  maxDrawdownUsd?: number | null;
+  // Kill switch: also market-sell open positions when it trips (default false: exits run as usual)
+  killSwitchFlatten?: boolean;
 }
 
 export interface Trade {
@@ -58,6 +101,37 @@ export interface Position {
   entryTimestamp: number; // When position was entered
 }
 
+/** Why trading is (partly) halted. Levels escalate: block-entries < cancel-bids < flatten. */
+export interface TradingHalt {
+  level: 'block-entries' | 'cancel-bids' | 'flatten';
+  reason: string;
+  since: number; // epoch ms when this level was reached
+}
+
+/** Loss limit breach. Entries stay stopped until a manual reset (TradingManager.resetKillSwitch), across reloads. */
+export interface KillSwitch {
+  reason: string;
+  trippedAt: number; // epoch ms
+}
+
+/** USD at risk on one side of an event: an open position, or the unfilled part of a resting entry order. */
+export interface EntryExposure {
+  eventSlug: string;
+  direction: 'UP' | 'DOWN';
+  sizeUSD: number;
+  resting: boolean; // Entry order not filled yet
+}
+
+/** Entry about to be placed, for portfolio-level checks. */
+export interface EntryRequest {
+  eventSlug: string;
+  direction: 'UP' | 'DOWN';
+  sizeUSD: number;
+}
+
+/** Portfolio-level gate before an entry is placed: USD it may use (0 blocks, less than asked trims) and why. */
+export type EntryRiskCheck = (request: EntryRequest) => { approvedUSD: number; reason: string };
+
 export interface TradingStatus {
   isActive: boolean;
   totalTrades: number;
@@ -69,6 +143,9 @@ export interface TradingStatus {
   totalPositionSize?: number; // Total size across all positions
   walletBalance?: number; // Current wallet balance
   maxPositionSize?: number; // 50% of wallet balance
+  tradingHalt?: TradingHalt | null; // Set while the price feed is stale or down
+  killSwitch?: KillSwitch | null; // Set once a loss limit trips, until reset
+  priceConsensus?: ConsensusPrice | null; // Chainlink/exchange prices for the traded asset and whether they diverge
   // Keep currentPosition for backward compatibility during transition
   currentPosition?: {
     eventSlug: string;
@@ -94,3 +171,19 @@ export interface TradeExecutionResult {
   error?: string;
   transactionHash?: string;
 }
+
+/**
+ * The ClobClient surface TradingManager places and tracks orders through.
+ * Satisfied by the real authenticated ClobClient and by PaperTradingEngine.
+ */
+export type TradingClobClient = Pick<
+  ClobClient,
+  | 'getPrice'
+  | 'getFeeRateBps'
+  | 'getOpenOrders'
+  | 'getOrder'
+  | 'getTrades'
+  | 'cancelOrder'
+  | 'createAndPostOrder'
+  | 'createAndPostMarketOrder'
+>;
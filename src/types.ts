@@ -1,13 +1,8 @@
-export type DataSource = 'chainlink';
+// RTDS price feeds: Chainlink (crypto_prices_chainlink, what markets resolve on) and exchange (crypto_prices, Binance)
+export type DataSource = 'chainlink' | 'exchange';
 
-export type AssetType = 'btc' | 'eth' | 'sol' | 'xrp';
-
-export const ASSET_CONFIG: Record<AssetType, { name: string; symbol: string; displayName: string }> = {
-  btc: { name: 'Bitcoin', symbol: 'btc/usd', displayName: 'BTC' },
-  eth: { name: 'Ethereum', symbol: 'eth/usd', displayName: 'ETH' },
-  sol: { name: 'Solana', symbol: 'sol/usd', displayName: 'SOL' },
-  xrp: { name: 'Ripple', symbol: 'xrp/usd', displayName: 'XRP' },
-};
+// Asset id from the asset registry (src/asset-registry.ts), e.g. "btc"
+export type AssetType = string;
 
 export interface SubscriptionMessage {
   action: 'subscribe' | 'unsubscribe';
@@ -32,6 +27,9 @@ export interface PriceUpdate {
 export interface ConnectionStatus {
   connected: boolean;
   source: DataSource | null;
-  lastUpdate: number | null;
+  lastUpdate: number | null; // Set on status updates caused by a price message, null on connection changes
   error: string | null;
+  stale: boolean; // No price message within the stale threshold while connected, or disconnected
+  lastMessageAt: number | null; // Local receive time (ms) of the last price message on any connection
+  reconnectAttempt: number; // Consecutive failed attempts (0 while connected)
 }
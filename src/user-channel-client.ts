@@ -0,0 +1,186 @@
+/**
+ * CLOB user-channel WebSocket client: authenticated with the API credentials, it pushes our own order
+ * placements, updates (fills) and cancellations, and the trades they match in. TradingManager feeds these
+ * into the OrderTracker so fills land without waiting for the next open-orders poll.
+ */
+
+import { getReconnectDelay, type WebSocketConstructor } from './websocket-client';
+
+const WS_ENDPOINT = 'wss://ws-subscriptions-clob.polymarket.com/ws/user';
+const PING_INTERVAL = 10000; // Server drops idle connections; it answers the text "PING" with "PONG"
+
+/** Order placed, updated (matched) or cancelled. Prices are decimal 0-1, sizes in shares. */
+export interface UserOrderEvent {
+  event_type: 'order';
+  type: 'PLACEMENT' | 'UPDATE' | 'CANCELLATION';
+  id: string;
+  asset_id: string;
+  market: string;
+  side: string;
+  price: string;
+  original_size: string;
+  size_matched: string;
+  timestamp: string;
+}
+
+/** A match involving one of our orders (as taker or maker); re-sent as it moves MATCHED -> MINED -> CONFIRMED. */
+export interface UserTradeEvent {
+  event_type: 'trade';
+  id: string;
+  status: 'MATCHED' | 'MINED' | 'CONFIRMED' | 'RETRYING' | 'FAILED';
+  asset_id: string;
+  market: string;
+  side: string;
+  price: string;
+  size: string;
+  taker_order_id: string;
+  maker_orders: Array<{ order_id: string; asset_id: string; matched_amount: string; price: string }>;
+  timestamp: string;
+}
+
+export type UserChannelEvent = UserOrderEvent | UserTradeEvent;
+
+export interface UserChannelStatus {
+  connected: boolean;
+  error: string | null;
+}
+
+export class UserChannelClient {
+  private ws: WebSocket | null = null;
+  private WebSocketImpl: WebSocketConstructor;
+  private pingInterval: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private credentials: { key: string; secret: string; passphrase: string } | null = null;
+  private onEvent: ((event: UserChannelEvent) => void) | null = null;
+  private onStatusChange: ((status: UserChannelStatus) => void) | null = null;
+
+  constructor(webSocketImpl?: WebSocketConstructor) {
+    this.WebSocketImpl = webSocketImpl ?? globalThis.WebSocket;
+  }
+
+  setCallbacks(onEvent: (event: UserChannelEvent) => void, onStatusChange: (status: UserChannelStatus) => void): void {
+    this.onEvent = onEvent;
+    this.onStatusChange = onStatusChange;
+  }
+
+  /** Connect with these API credentials (all markets). Replaces an existing connection. */
+  connect(credentials: { key: string; secret: string; passphrase: string }): void {
+    this.disconnect();
+    this.credentials = credentials;
+    this.open();
+  }
+
+  private open(): void {
+    if (!this.credentials || this.ws?.readyState === this.WebSocketImpl.OPEN) {
+      return;
+    }
+
+    this.closeSocket();
+    try {
+      this.ws = new this.WebSocketImpl(WS_ENDPOINT);
+      this.setupWebSocketHandlers(this.ws);
+    } catch (error) {
+      this.handleError(`Failed to connect: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.attemptReconnect();
+    }
+  }
+
+  private setupWebSocketHandlers(ws: WebSocket): void {
+    ws.onopen = () => {
+      const { key, secret, passphrase } = this.credentials!;
+      this.reconnectAttempts = 0;
+      this.startPingInterval();
+      ws.send(JSON.stringify({ auth: { apiKey: key, secret, passphrase }, type: 'user', markets: [] }));
+      this.updateStatus(null);
+    };
+
+    ws.onmessage = (event) => {
+      const text = String(event.data);
+      if (text === 'PONG') return;
+      try {
+        const data = JSON.parse(text);
+        for (const message of Array.isArray(data) ? data : [data]) {
+          if (message?.event_type === 'order' || message?.event_type === 'trade') {
+            this.onEvent?.(message as UserChannelEvent);
+          }
+        }
+      } catch (error) {
+        console.error('[UserChannelClient] Error parsing message:', error);
+      }
+    };
+
+    ws.onerror = () => {
+      if (ws !== this.ws) return;
+      this.handleError('WebSocket error occurred');
+    };
+
+    ws.onclose = () => {
+      if (ws !== this.ws) return; // Replaced by connect/disconnect; nothing to reconnect
+      this.stopPingInterval();
+      this.updateStatus(null);
+      this.attemptReconnect();
+    };
+  }
+
+  private startPingInterval(): void {
+    this.stopPingInterval();
+    this.pingInterval = setInterval(() => {
+      if (this.ws?.readyState === this.WebSocketImpl.OPEN) {
+        this.ws.send('PING');
+      }
+    }, PING_INTERVAL);
+  }
+
+  private stopPingInterval(): void {
+    if (this.pingInterval !== null) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+  }
+
+  /** Retry forever with the price feed's jittered exponential backoff (websocket-client.ts). */
+  private attemptReconnect(): void {
+    if (!this.credentials || this.reconnectTimer !== null) return; // Disconnected on purpose, or already scheduled
+
+    this.reconnectAttempts++;
+    const delay = getReconnectDelay(this.reconnectAttempts);
+    console.log(`[UserChannelClient] Reconnecting in ${(delay / 1000).toFixed(1)}s (attempt ${this.reconnectAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private handleError(message: string): void {
+    console.warn('[UserChannelClient]', message);
+    this.updateStatus(message);
+  }
+
+  private updateStatus(error: string | null): void {
+    this.onStatusChange?.({ connected: this.isConnected(), error });
+  }
+
+  private closeSocket(): void {
+    this.stopPingInterval();
+    const ws = this.ws;
+    this.ws = null;
+    ws?.close();
+  }
+
+  disconnect(): void {
+    const wasOpen = this.ws !== null;
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.closeSocket();
+    this.credentials = null;
+    this.reconnectAttempts = 0;
+    if (wasOpen) this.updateStatus(null);
+  }
+
+  isConnected(): boolean {
+    return this.ws?.readyState === this.WebSocketImpl.OPEN;
+  }
+}
@@ -4,6 +4,7 @@ interface ImportMetaEnv {
   readonly DEV: boolean;
   readonly PROD: boolean;
   readonly MODE: string;
+  readonly VITE_TICKS_API_URL?: string; // Tick collector URL (default: the /api/ticks route)
 }
 
 interface ImportMeta {
@@ -0,0 +1,89 @@
+/**
+ * Realized volatility of the underlying from Chainlink ticks, for volatility-aware Flip Guard thresholds.
+ * Treating the price as a driftless random walk, the chance that it ends on the other side of the price to beat
+ * from a distance d with T seconds left is Φ(-d / (σ·√T)). Solving for d gives a threshold with the same flip
+ * probability for every asset and at every point of the event window.
+ */
+
+const DEFAULT_WINDOW_MS = 5 * 60 * 1000;
+const MIN_SAMPLES = 30; // Below this the estimate is too noisy; callers fall back to fixed thresholds
+
+export class RealizedVolatility {
+  private windowMs: number;
+  private samples: Array<{ timestamp: number; value: number }> = [];
+
+  constructor(windowMs: number = DEFAULT_WINDOW_MS) {
+    this.windowMs = windowMs;
+  }
+
+  setWindowMs(windowMs: number): void {
+    this.windowMs = windowMs;
+  }
+
+  /** Add a tick (ms). Repeats of the last timestamp and out-of-order ticks are ignored. */
+  add(timestamp: number, value: number): void {
+    const last = this.samples[this.samples.length - 1];
+    if (!(value > 0) || (last && timestamp <= last.timestamp)) return;
+    this.samples.push({ timestamp, value });
+    const cutoff = timestamp - this.windowMs;
+    let drop = 0;
+    while (drop < this.samples.length && this.samples[drop].timestamp < cutoff) drop++;
+    if (drop > 0) this.samples.splice(0, drop);
+  }
+
+  clear(): void {
+    this.samples = [];
+  }
+
+  /** Volatility of log returns per √second over the window, or null with fewer than MIN_SAMPLES ticks. */
+  getSigmaPerSqrtSecond(): number | null {
+    if (this.samples.length < MIN_SAMPLES) return null;
+    let sumSquares = 0;
+    for (let i = 1; i < this.samples.length; i++) {
+      const r = Math.log(this.samples[i].value / this.samples[i - 1].value);
+      sumSquares += r * r;
+    }
+    const seconds = (this.samples[this.samples.length - 1].timestamp - this.samples[0].timestamp) / 1000;
+    return seconds > 0 ? Math.sqrt(sumSquares / seconds) : null;
+  }
+
+  /** Volatility in USD per √second at the latest price. */
+  getSigmaUsdPerSqrtSecond(): number | null {
+    const sigma = this.getSigmaPerSqrtSecond();
+    const last = this.samples[this.samples.length - 1];
+    return sigma === null || !last ? null : sigma * last.value;
+  }
+}
+
+/** Distance (USD) at which the price flips past the price to beat with `flipProbability` before the event ends. */
+export function getFlipDistanceUsd(sigmaUsdPerSqrtSecond: number, timeRemainingSeconds: number, flipProbability: number): number {
+  return -normalQuantile(flipProbability) * sigmaUsdPerSqrtSecond * Math.sqrt(Math.max(0, timeRemainingSeconds));
+}
+
+/** Standard normal CDF (Abramowitz-Stegun 7.1.26, absolute error below 1.5e-7). */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** Inverse standard normal CDF (Acklam's rational approximation, relative error below 1.2e-9). */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
@@ -1,20 +1,52 @@
 import type { DataSource, SubscriptionMessage, PriceUpdate, ConnectionStatus } from './types';
-import { ASSET_CONFIG } from './types';
+import { findAssetByExchangeSymbol, findAssetBySymbol, getRtdsFilter, listAssets } from './asset-registry';
+import { PriceConsensus, type ConsensusPrice, type PriceConsensusOptions } from './price-consensus';
 
 const WS_ENDPOINT = 'wss://ws-live-data.polymarket.com';
+const CHAINLINK_TOPIC = 'crypto_prices_chainlink';
+const EXCHANGE_TOPIC = 'crypto_prices';
 const PING_INTERVAL = 5000; // 5 seconds
+const RECONNECT_BASE_DELAY = 1000; // First retry; doubles per failed attempt
+const RECONNECT_MAX_DELAY = 30000; // Backoff ceiling; attempts never stop
+const DEFAULT_STALE_AFTER_MS = 15000; // Chainlink ticks arrive about once a second per asset
+const WATCHDOG_INTERVAL = 1000;
+
+/** WebSocket constructor to use; browsers pass the global, Node passes the `ws` package. */
+export type WebSocketConstructor = typeof WebSocket;
+
+export interface WebSocketClientOptions {
+  staleAfterMs?: number; // Silence after which the feed is stale: resubscribe, then reconnect after twice as long
+  consensus?: PriceConsensusOptions; // Freshness and divergence threshold for the Chainlink/exchange consensus
+}
+
+/** Exponential backoff with jitter (50-100% of the capped delay) so many clients don't retry in lockstep. */
+export function getReconnectDelay(attempt: number): number {
+  const capped = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** Math.max(0, attempt - 1));
+  return Math.round(capped * (0.5 + Math.random() / 2));
+}
 
 export class WebSocketClient {
   private ws: WebSocket | null = null;
-  private pingInterval: number | null = null;
+  private WebSocketImpl: WebSocketConstructor;
+  private pingInterval: ReturnType<typeof setInterval> | null = null;
+  private watchdogInterval: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
+  private staleAfterMs: number;
+  private openedAt: number | null = null; // When the current socket opened (watchdog baseline before the first message)
+  private lastMessageAt: number | null = null;
+  private resubscribedAt: number | null = null; // Watchdog already resubscribed during this silence
+  private stale = false;
   private currentSource: DataSource | null = null;
+  private consensus: PriceConsensus;
   private onPriceUpdate: ((update: PriceUpdate) => void) | null = null;
+  private onConsensusUpdate: ((consensus: ConsensusPrice) => void) | null = null;
   private onStatusChange: ((status: ConnectionStatus) => void) | null = null;
 
-  constructor() {
+  constructor(webSocketImpl?: WebSocketConstructor, options: WebSocketClientOptions = {}) {
+    this.WebSocketImpl = webSocketImpl ?? globalThis.WebSocket;
+    this.staleAfterMs = options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS;
+    this.consensus = new PriceConsensus(options.consensus);
     this.connect = this.connect.bind(this);
     this.disconnect = this.disconnect.bind(this);
   }
@@ -27,90 +59,113 @@ export class WebSocketClient {
     this.onStatusChange = onStatusChange;
   }
 
+  /** Consensus of the Chainlink and exchange prices, emitted per asset on every price message of either feed. */
+  setOnConsensusUpdate(callback: (consensus: ConsensusPrice) => void): void {
+    this.onConsensusUpdate = callback;
+  }
+
   connect(): void {
-    if (this.ws?.readyState === WebSocket.OPEN) {
+    if (this.ws?.readyState === this.WebSocketImpl.OPEN) {
       return;
     }
 
-    this.disconnect();
+    this.closeSocket();
+    this.clearReconnectTimer();
     this.currentSource = 'chainlink';
+    this.startWatchdog();
 
     try {
-      this.ws = new WebSocket(WS_ENDPOINT);
-      this.setupWebSocketHandlers();
+      const ws = new this.WebSocketImpl(WS_ENDPOINT);
+      this.ws = ws;
+      this.setupWebSocketHandlers(ws);
     } catch (error) {
       this.handleError(`Failed to connect: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.attemptReconnect();
     }
   }
 
-  private setupWebSocketHandlers(): void {
-    if (!this.ws) return;
-
-    this.ws.onopen = () => {
+  private setupWebSocketHandlers(ws: WebSocket): void {
+    ws.onopen = () => {
+      if (ws !== this.ws) return;
       this.reconnectAttempts = 0;
+      this.openedAt = Date.now();
+      this.resubscribedAt = null;
       this.startPingInterval();
       this.subscribe();
-      this.updateStatus({
-        connected: true,
-        source: this.currentSource,
-        lastUpdate: null,
-        error: null
-      });
+      this.updateStatus(null, null);
     };
 
-    this.ws.onmessage = (event) => {
+    ws.onmessage = (event) => {
+      if (ws !== this.ws) return;
       try {
         const data = JSON.parse(event.data);
-        
+
         // Handle ping/pong
         if (data.type === 'pong') {
           return;
         }
 
+        // Exchange prices only feed the consensus; staleness and onPriceUpdate follow Chainlink (the resolution source)
+        if (data.topic === EXCHANGE_TOPIC) {
+          const update = data as PriceUpdate;
+          const asset = findAssetByExchangeSymbol(update.payload?.symbol ?? '');
+          if (asset && Number.isFinite(update.payload.value)) {
+            this.emitConsensus(this.consensus.update(asset.id, 'exchange', update.payload.value));
+          }
+          return;
+        }
+
         // Handle price updates
-        if (data.topic === 'crypto_prices_chainlink') {
+        if (data.topic === CHAINLINK_TOPIC) {
+          this.lastMessageAt = Date.now();
+          this.resubscribedAt = null;
+          if (this.stale) {
+            this.stale = false;
+            console.log('[WebSocketClient] Price feed resumed');
+          }
           if (this.onPriceUpdate) {
             this.onPriceUpdate(data as PriceUpdate);
           }
-          this.updateStatus({
-            connected: true,
-            source: this.currentSource,
-            lastUpdate: Date.now(),
-            error: null
-          });
+          const asset = findAssetBySymbol(data.payload?.symbol);
+          if (asset) this.emitConsensus(this.consensus.update(asset.id, 'chainlink', data.payload.value));
+          this.updateStatus(this.lastMessageAt, null);
         }
       } catch (error) {
         console.error('Error parsing message:', error);
       }
     };
 
-    this.ws.onerror = () => {
+    ws.onerror = () => {
+      if (ws !== this.ws) return;
       this.handleError('WebSocket error occurred');
     };
 
-    this.ws.onclose = () => {
+    ws.onclose = () => {
+      if (ws !== this.ws) return; // Replaced by connect/disconnect; nothing to reconnect
+      this.ws = null;
+      this.openedAt = null;
       this.stopPingInterval();
-      this.updateStatus({
-        connected: false,
-        source: this.currentSource,
-        lastUpdate: null,
-        error: null
-      });
       this.attemptReconnect();
+      this.updateStatus(null, null);
     };
   }
 
   private subscribe(): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    if (!this.ws || this.ws.readyState !== this.WebSocketImpl.OPEN) {
       return;
     }
 
-    // Subscribe to all asset price feeds
-    const subscriptions = Object.values(ASSET_CONFIG).map(asset => ({
-      topic: 'crypto_prices_chainlink',
+    // Subscribe to all registered asset price feeds
+    const assets = listAssets();
+    const subscriptions = assets.map(asset => ({
+      topic: CHAINLINK_TOPIC,
       type: '*',
-      filters: `{"symbol":"${asset.symbol}"}`
+      filters: getRtdsFilter(asset)
     }));
+    const exchangeSymbols = assets.flatMap(asset => asset.exchangeSymbol ? [asset.exchangeSymbol] : []);
+    if (exchangeSymbols.length > 0) {
+      subscriptions.push({ topic: EXCHANGE_TOPIC, type: 'update', filters: exchangeSymbols.join(',') });
+    }
 
     const subscription: SubscriptionMessage = {
       action: 'subscribe',
@@ -122,8 +177,8 @@ export class WebSocketClient {
 
   private startPingInterval(): void {
     this.stopPingInterval();
-    this.pingInterval = window.setInterval(() => {
-      if (this.ws?.readyState === WebSocket.OPEN) {
+    this.pingInterval = setInterval(() => {
+      if (this.ws?.readyState === this.WebSocketImpl.OPEN) {
         this.ws.send(JSON.stringify({ type: 'ping' }));
       }
     }, PING_INTERVAL);
@@ -136,45 +191,113 @@ export class WebSocketClient {
     }
   }
 
-  private attemptReconnect(): void {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      this.handleError('Max reconnection attempts reached');
-      return;
+  /**
+   * Open but silent sockets are not closed by the server. After staleAfterMs without a price message the feed is
+   * marked stale and the subscription is re-sent; after twice that the socket is dropped and reconnected.
+   */
+  private startWatchdog(): void {
+    if (this.watchdogInterval !== null) return;
+    this.watchdogInterval = setInterval(() => this.checkFeed(), WATCHDOG_INTERVAL);
+  }
+
+  private stopWatchdog(): void {
+    if (this.watchdogInterval !== null) {
+      clearInterval(this.watchdogInterval);
+      this.watchdogInterval = null;
     }
+  }
+
+  private checkFeed(): void {
+    if (!this.isConnected() || this.openedAt === null) return;
+    const now = Date.now();
+    const silentMs = now - Math.max(this.openedAt, this.lastMessageAt ?? 0);
+    if (silentMs < this.staleAfterMs) return;
+
+    if (!this.stale) {
+      this.stale = true;
+      console.warn(`[WebSocketClient] No price update for ${Math.round(silentMs / 1000)}s: feed is stale`);
+      this.updateStatus(null, null);
+    }
+    if (this.resubscribedAt === null) {
+      this.resubscribedAt = now;
+      console.warn('[WebSocketClient] Re-sending price subscription');
+      this.subscribe();
+    } else if (silentMs >= this.staleAfterMs * 2) {
+      console.warn('[WebSocketClient] Still silent after resubscribing: reconnecting');
+      this.closeSocket();
+      this.attemptReconnect();
+      this.updateStatus(null, null);
+    }
+  }
+
+  /** Retry forever with exponential backoff and jitter; a trading bot must not give up on its price feed. */
+  private attemptReconnect(): void {
+    if (this.currentSource === null || this.reconnectTimer !== null) return; // Disconnected on purpose, or already scheduled
 
     this.reconnectAttempts++;
-    setTimeout(() => {
+    const delay = getReconnectDelay(this.reconnectAttempts);
+    console.log(`[WebSocketClient] Reconnecting in ${(delay / 1000).toFixed(1)}s (attempt ${this.reconnectAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
       this.connect();
-    }, this.reconnectDelay * this.reconnectAttempts);
+    }, delay);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private emitConsensus(consensus: ConsensusPrice): void {
+    if (this.onConsensusUpdate) {
+      this.onConsensusUpdate(consensus);
+    }
   }
 
   private handleError(message: string): void {
-    this.updateStatus({
-      connected: false,
-      source: this.currentSource,
-      lastUpdate: null,
-      error: message
-    });
+    this.updateStatus(null, message);
   }
 
-  private updateStatus(status: ConnectionStatus): void {
+  private updateStatus(lastUpdate: number | null, error: string | null): void {
+    const connected = this.isConnected();
+    const status: ConnectionStatus = {
+      connected,
+      source: this.currentSource,
+      lastUpdate,
+      error,
+      stale: !connected || this.stale,
+      lastMessageAt: this.lastMessageAt,
+      reconnectAttempt: this.reconnectAttempts,
+    };
     if (this.onStatusChange) {
       this.onStatusChange(status);
     }
   }
 
-  disconnect(): void {
+  /** Close the current socket without triggering a reconnect from its close handler. */
+  private closeSocket(): void {
     this.stopPingInterval();
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
+    const ws = this.ws;
+    this.ws = null;
+    this.openedAt = null;
+    ws?.close();
+  }
+
+  disconnect(): void {
+    const wasActive = this.currentSource !== null;
+    this.clearReconnectTimer();
+    this.stopWatchdog();
+    this.closeSocket();
     this.currentSource = null;
     this.reconnectAttempts = 0;
+    this.stale = false;
+    this.resubscribedAt = null;
+    if (wasActive) this.updateStatus(null, null);
   }
 
   isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+    return this.ws?.readyState === this.WebSocketImpl.OPEN;
   }
 }
-